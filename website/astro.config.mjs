@@ -128,6 +128,7 @@ export default defineConfig({
       filter: (page) => (
         !page.includes('/api/')
         && !page.includes('/admin/')
+        && !page.includes('/preview/')
         && page !== '/404'
         && page !== '/404/'
         && page !== '/robots.txt'
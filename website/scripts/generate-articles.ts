@@ -1,12 +1,11 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import fs from 'fs/promises';
 import path from 'path';
 import { CLAWDBOT_KNOWLEDGE, WRITING_STYLE, ARTICLE_TEMPLATES, VERIFIED_COMMANDS } from './clawdbot-knowledge-base.js';
+import { DRAFTS_DIR, withStatus } from './seo-automation/articles/drafts.ts';
+import { createLlmClient } from './seo-automation/llm/providers.ts';
 
-const apiKey = process.env.GEMINI_API_KEY;
 const offlineEnv = process.env.OFFLINE_ARTICLE_GENERATION === 'true';
-const geminiModel = process.env.GEMINI_MODEL || 'gemini-3-flash-preview';
-const genAI = apiKey ? new GoogleGenerativeAI(apiKey) : null;
+const llm = createLlmClient();
 let forceOffline = offlineEnv;
 
 interface ArticleMetadata {
@@ -898,7 +897,7 @@ function validateGeneratedContent(content: string, topic: ArticleTopic): { valid
 }
 
 async function generateArticle(topic: ArticleTopic, topics: ArticleTopic[]): Promise<string> {
-  if (forceOffline || !genAI) {
+  if (forceOffline || llm.providers.length === 0) {
     console.log(`\n📝 Generating article (offline): ${topic.title}...`);
     return generateOfflineArticle(topic, topics);
   }
@@ -908,10 +907,8 @@ async function generateArticle(topic: ArticleTopic, topics: ArticleTopic[]): Pro
   const prompt = buildArticlePrompt(topic);
 
   try {
-    const model = genAI.getGenerativeModel({ model: geminiModel });
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    let text = response.text();
+    const response = await llm.generate(prompt, { log: '  ' });
+    let text = response.text;
 
     // Clean up markdown code blocks if present
     if (text.startsWith('```mdx')) {
@@ -935,7 +932,7 @@ async function generateArticle(topic: ArticleTopic, topics: ArticleTopic[]): Pro
     const message = error instanceof Error ? error.message : String(error);
     if (/fetch failed|ENOTFOUND|ECONN|ETIMEDOUT/i.test(message)) {
       if (!forceOffline) {
-        console.warn('  ⚠️  Gemini fetch failed. Switching to offline generation.');
+        console.warn('  ⚠️  LLM fetch failed. Switching to offline generation.');
       }
       forceOffline = true;
       return generateOfflineArticle(topic, topics);
@@ -945,22 +942,21 @@ async function generateArticle(topic: ArticleTopic, topics: ArticleTopic[]): Pro
   }
 }
 
-async function saveArticle(slug: string, content: string): Promise<void> {
-  const articlesDir = path.join(process.cwd(), 'src', 'content', 'articles');
-
+/** Generated articles go to the drafts collection; `npm run seo:promote` publishes them */
+async function saveDraft(slug: string, content: string): Promise<void> {
   // Ensure directory exists
-  await fs.mkdir(articlesDir, { recursive: true });
+  await fs.mkdir(DRAFTS_DIR, { recursive: true });
 
-  const filePath = path.join(articlesDir, `${slug}.mdx`);
-  await fs.writeFile(filePath, content, 'utf-8');
-  console.log(`  💾 Saved: ${slug}.mdx`);
+  const filePath = path.join(DRAFTS_DIR, `${slug}.mdx`);
+  await fs.writeFile(filePath, withStatus(content, 'draft'), 'utf-8');
+  console.log(`  💾 Saved draft: drafts/${slug}.mdx → /preview/${slug}`);
 }
 
 async function generateAllArticles() {
   console.log('╔════════════════════════════════════════════════════════════╗');
   console.log('║        CLAWDBOT ARTICLE GENERATOR (Knowledge-Based)        ║');
   console.log('╠════════════════════════════════════════════════════════════╣');
-  const modelLabel = (forceOffline || !genAI) ? 'offline-template' : geminiModel;
+  const modelLabel = (forceOffline || llm.providers.length === 0) ? 'offline-template' : llm.providers[0].label;
   console.log(`║  Model: ${modelLabel.padEnd(49)}║`);
   console.log(`║  Articles: ${String(articleTopics.length).padEnd(47)}║`);
   console.log('╚════════════════════════════════════════════════════════════╝\n');
@@ -982,7 +978,7 @@ async function generateAllArticles() {
         validationIssues.push({ slug: topic.slug, issues: validation.issues });
       }
 
-      await saveArticle(topic.slug, content);
+      await saveDraft(topic.slug, content);
       successCount++;
 
       // Rate limiting: wait 2 seconds between requests
@@ -1014,10 +1010,10 @@ async function generateAllArticles() {
 }
 
 // Run the generator
-if (!apiKey && !offlineEnv) {
-  console.error('Error: GEMINI_API_KEY environment variable is required');
-  console.error('Please set it in your .env file or export it, or use OFFLINE_ARTICLE_GENERATION=true:');
-  console.error('  export GEMINI_API_KEY=your-api-key');
+if (llm.providers.length === 0 && !offlineEnv) {
+  console.error('Error: no LLM provider configured');
+  console.error('Please set one in your .env file or export it, or use OFFLINE_ARTICLE_GENERATION=true:');
+  console.error('  export GEMINI_API_KEY=your-api-key  (or AICODECAT_API_URL + AICODECAT_API_KEY, OPENAI_API_KEY, OLLAMA_MODEL)');
   process.exit(1);
 }
 
@@ -0,0 +1,81 @@
+/**
+ * Drafts - Staging area between the generators and the published articles
+ *
+ * Generated articles are saved to src/content/drafts/ with a `status` of
+ * `draft` (offline template) or `review` (LLM draft that cleared the
+ * validators). The site renders drafts under /preview/ with noindex;
+ * `npm run seo:promote <slug>` moves one to src/content/articles/.
+ *
+ * Frontmatter is edited line by line so the rest of the file (comments,
+ * multi-line lists, MDX body) is left exactly as written.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { ArticleStatus } from '../../../src/content/schema.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const ARTICLES_DIR = path.join(__dirname, '..', '..', '..', 'src', 'content', 'articles');
+export const DRAFTS_DIR = path.join(__dirname, '..', '..', '..', 'src', 'content', 'drafts');
+
+const FRONTMATTER = /^---\n([\s\S]*?)\n---\n/;
+
+/** MDX files of the published articles and of the drafts awaiting promotion */
+export async function listContentFiles(): Promise<string[]> {
+  const files: string[] = [];
+  for (const dir of [ARTICLES_DIR, DRAFTS_DIR]) {
+    try {
+      const entries = await fs.readdir(dir);
+      files.push(...entries.filter((file) => file.endsWith('.mdx')).map((file) => path.join(dir, file)));
+    } catch {
+      // Directory might not exist
+    }
+  }
+  return files;
+}
+
+function fieldPattern(field: string): RegExp {
+  return new RegExp(`^${field}:.*$`, 'm');
+}
+
+/** A top-level scalar frontmatter value with surrounding quotes removed */
+export function frontmatterField(mdx: string, field: string): string | null {
+  const block = mdx.match(FRONTMATTER)?.[1];
+  const line = block?.match(fieldPattern(field))?.[0];
+  if (!line) return null;
+  const value = line.slice(field.length + 1).trim();
+  return value.replace(/^(["'])(.*)\1$/, '$2') || null;
+}
+
+/**
+ * Set top-level frontmatter fields to already-serialized YAML values,
+ * replacing existing lines in place and appending new ones at the end.
+ */
+export function setFrontmatterFields(mdx: string, fields: Record<string, string>): string {
+  const match = mdx.match(FRONTMATTER);
+  if (!match) throw new Error('No frontmatter block');
+
+  let block = match[1];
+  for (const [field, value] of Object.entries(fields)) {
+    const line = `${field}: ${value}`;
+    // A function replacement keeps `$&` or `$1` in a value (an approver name) literal
+    block = fieldPattern(field).test(block) ? block.replace(fieldPattern(field), () => line) : `${block}\n${line}`;
+  }
+  return `---\n${block}\n---\n${mdx.slice(match[0].length)}`;
+}
+
+/** Remove top-level frontmatter fields written on a single line */
+export function removeFrontmatterFields(mdx: string, fields: string[]): string {
+  const match = mdx.match(FRONTMATTER);
+  if (!match) throw new Error('No frontmatter block');
+
+  const block = fields.reduce((current, field) => current.replace(new RegExp(`^${field}:.*(\\n|$)`, 'm'), ''), match[1]);
+  return `---\n${block.replace(/\n$/, '')}\n---\n${mdx.slice(match[0].length)}`;
+}
+
+export function withStatus(mdx: string, status: ArticleStatus): string {
+  return setFrontmatterFields(mdx, { status: JSON.stringify(status) });
+}
@@ -0,0 +1,68 @@
+/**
+ * Draft review - The SEO and content-quality validators, run on a draft
+ *
+ * validate-seo and validate-content-quality score saved articles; running
+ * the same checks on each generated draft lets the generator send the
+ * concrete findings back to the model for a repair round and save only
+ * drafts that clear the thresholds. Offline templates are reviewed too; one
+ * that misses them is saved as a draft with its findings in `reviewIssues`.
+ *
+ * SEO_MIN_SEO_SCORE       validate-seo score to reach, 0-100 (default 80)
+ * SEO_MIN_QUALITY_SCORE   validate-content-quality score to reach, 0-10 (default 7)
+ * SEO_REPAIR_ROUNDS       repair requests per draft before giving up (default 2)
+ */
+
+import { validateArticle } from '../../validate-seo.ts';
+import { validateArticleQuality } from '../../validate-content-quality.ts';
+import { describeStructuredOutput } from './structured.ts';
+
+function parseThreshold(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseFloat(value || '');
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export const MIN_SEO_SCORE = parseThreshold(process.env.SEO_MIN_SEO_SCORE, 80);
+export const MIN_QUALITY_SCORE = parseThreshold(process.env.SEO_MIN_QUALITY_SCORE, 7);
+export const REPAIR_ROUNDS = Math.floor(parseThreshold(process.env.SEO_REPAIR_ROUNDS, 2));
+
+export interface DraftReview {
+  passed: boolean;
+  seoScore: number;
+  qualityScore: number;
+  // Errors, warnings and critical issues from both validators, as "[Source] message"
+  issues: string[];
+}
+
+export async function reviewDraft(mdx: string, slug: string): Promise<DraftReview> {
+  const seo = validateArticle(mdx, slug);
+  const quality = await validateArticleQuality(mdx, `${slug}.mdx`);
+
+  const issues = [
+    ...seo.errors.map((message) => `[SEO error] ${message}`),
+    ...seo.warnings.map((message) => `[SEO] ${message}`),
+    ...quality.issues
+      .filter((issue) => issue.severity !== 'info')
+      .map((issue) => `[${issue.category}${issue.severity === 'critical' ? ', critical' : ''}] ${issue.message}`),
+  ];
+
+  const passed = seo.errors.length === 0
+    && seo.score >= MIN_SEO_SCORE
+    && !quality.issues.some((issue) => issue.severity === 'critical')
+    && quality.score.overall >= MIN_QUALITY_SCORE;
+
+  return { passed, seoScore: seo.score, qualityScore: quality.score.overall, issues };
+}
+
+/** Ask for the same article back with the review findings fixed */
+export function buildRepairPrompt(draft: string, review: DraftReview, frontmatter: Record<string, unknown>): string {
+  return `An article draft you wrote failed the pre-publication review (SEO ${review.seoScore}/100, needs ${MIN_SEO_SCORE}; quality ${review.qualityScore}/10, needs ${MIN_QUALITY_SCORE}).
+
+Fix every issue below and keep everything that is already correct:
+${review.issues.map((issue) => `- ${issue}`).join('\n')}
+
+The draft, as rendered MDX:
+
+${draft}
+
+Return the whole corrected article, not a diff. ${describeStructuredOutput(frontmatter)}`;
+}
@@ -0,0 +1,186 @@
+/**
+ * Structured articles - JSON article output checked against the content schema
+ *
+ * Generators ask for {"frontmatter": {...}, "intro": "...", "sections": [...]}
+ * instead of raw MDX. The frontmatter goes through the same Zod schema as the
+ * articles collection (src/content/schema.ts), so a 170-character description
+ * or an unknown category is reported here, per field, instead of failing the
+ * Astro build. Valid articles are rendered to MDX; the renderer owns the
+ * HostingCTA import and its three placements.
+ */
+
+import { articleSchema } from '../../../src/content/schema.ts';
+
+export interface ArticleSection {
+  heading: string;
+  body: string;
+}
+
+export interface StructuredArticle {
+  frontmatter: Record<string, unknown>;
+  intro: string;
+  sections: ArticleSection[];
+}
+
+export interface ArticleViolation {
+  field: string; // "description", "tags.2", "sections.1.body"; "(response)" when the JSON itself is unusable
+  message: string;
+}
+
+export interface StructuredArticleResult {
+  // null when the response is not article-shaped JSON at all
+  article: StructuredArticle | null;
+  violations: ArticleViolation[];
+}
+
+const DATE_FIELDS = new Set(['pubDate', 'modifiedDate', 'lastVerified', 'approvedAt']);
+const MIN_SECTIONS = 4;
+const HOSTING_CTA_IMPORT = "import HostingCTA from '../../components/CTA/HostingCTA.astro';";
+const CTA_MARKUP = /^\s*import HostingCTA .*$|<HostingCTA\b[^>]*\/>/gm;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** The frontmatter keys and the shape a response must have, for prompts */
+export function describeStructuredOutput(frontmatter: Record<string, unknown>): string {
+  const categories = articleSchema.shape.category.options.join(', ');
+  return `Respond with a single JSON object and nothing else (no MDX, no code fences):
+
+{
+  "frontmatter": ${JSON.stringify(frontmatter, null, 2).replace(/\n/g, '\n  ')},
+  "intro": "Opening paragraphs in Markdown, before the first heading",
+  "sections": [
+    { "heading": "Section heading without #", "body": "Markdown body; ### subheadings, lists, tables and code blocks are fine" }
+  ]
+}
+
+Frontmatter rules (checked before publishing):
+- title: at most 60 characters
+- description: 120-160 characters
+- category: one of ${categories}
+- dates as YYYY-MM-DD, readingTime a positive number, sources absolute URLs
+- at least ${MIN_SECTIONS} sections; do not add HostingCTA components or imports, they are inserted for you`;
+}
+
+function stripFences(text: string): string {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/);
+  if (fenced) return fenced[1];
+  // Tolerate a sentence before or after the object
+  const start = trimmed.indexOf('{');
+  const end = trimmed.lastIndexOf('}');
+  return start >= 0 && end > start ? trimmed.slice(start, end + 1) : trimmed;
+}
+
+/** YAML dates parse to Date objects, JSON ones stay strings; match the collection's input */
+function toSchemaInput(frontmatter: Record<string, unknown>): Record<string, unknown> {
+  const input: Record<string, unknown> = { ...frontmatter };
+  for (const field of DATE_FIELDS) {
+    const value = input[field];
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))) {
+      input[field] = new Date(value);
+    }
+  }
+  return input;
+}
+
+export function validateFrontmatter(frontmatter: Record<string, unknown>): ArticleViolation[] {
+  const result = articleSchema.safeParse(toSchemaInput(frontmatter));
+  if (result.success) return [];
+  return result.error.issues.map((issue) => ({
+    field: issue.path.join('.') || '(frontmatter)',
+    message: issue.message,
+  }));
+}
+
+function validateSections(article: StructuredArticle): ArticleViolation[] {
+  const violations: ArticleViolation[] = [];
+  if (article.sections.length < MIN_SECTIONS) {
+    violations.push({ field: 'sections', message: `Expected at least ${MIN_SECTIONS} sections, received ${article.sections.length}` });
+  }
+  article.sections.forEach((section, index) => {
+    if (!section.heading.trim()) violations.push({ field: `sections.${index}.heading`, message: 'Heading is empty' });
+    if (!section.body.trim()) violations.push({ field: `sections.${index}.body`, message: 'Body is empty' });
+  });
+  return violations;
+}
+
+/**
+ * Parse a structured response and validate it. `overrides` replaces
+ * frontmatter fields the caller owns (dates, image path) before validation.
+ */
+export function parseStructuredArticle(text: string, overrides: Record<string, unknown> = {}): StructuredArticleResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(stripFences(text));
+  } catch (error) {
+    return { article: null, violations: [{ field: '(response)', message: `Not JSON: ${error instanceof Error ? error.message : String(error)}` }] };
+  }
+
+  if (!isRecord(raw) || !isRecord(raw.frontmatter) || !Array.isArray(raw.sections)) {
+    return { article: null, violations: [{ field: '(response)', message: 'Expected an object with "frontmatter" and "sections"' }] };
+  }
+
+  const violations: ArticleViolation[] = [];
+  const sections: ArticleSection[] = [];
+  raw.sections.forEach((section, index) => {
+    if (!isRecord(section) || typeof section.heading !== 'string' || typeof section.body !== 'string') {
+      violations.push({ field: `sections.${index}`, message: 'Expected {"heading": string, "body": string}' });
+      return;
+    }
+    sections.push({
+      heading: section.heading.replace(/^#+\s*/, '').trim(),
+      body: section.body.replace(CTA_MARKUP, '').trim(),
+    });
+  });
+
+  const article: StructuredArticle = {
+    frontmatter: { ...raw.frontmatter, ...overrides },
+    intro: typeof raw.intro === 'string' ? raw.intro.replace(CTA_MARKUP, '').trim() : '',
+    sections,
+  };
+
+  violations.push(...validateFrontmatter(article.frontmatter), ...validateSections(article));
+  return { article, violations };
+}
+
+function yamlValue(field: string, value: unknown): string {
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  if (DATE_FIELDS.has(field) && typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  // JSON strings and arrays are valid YAML flow scalars and sequences
+  return JSON.stringify(value);
+}
+
+/** Frontmatter lines, without the --- fences */
+export function renderFrontmatter(frontmatter: Record<string, unknown>): string {
+  return Object.entries(frontmatter)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([field, value]) => `${field}: ${yamlValue(field, value)}`)
+    .join('\n');
+}
+
+/** Render a validated article to MDX with the HostingCTA placements */
+export function renderArticleMdx(article: StructuredArticle): string {
+  const frontmatter = renderFrontmatter(article.frontmatter);
+
+  const inlineAfter = Math.max(0, Math.floor(article.sections.length / 2) - 1);
+  const blocks: string[] = [HOSTING_CTA_IMPORT];
+  if (article.intro) blocks.push(article.intro);
+  blocks.push('<HostingCTA context="setup" />');
+
+  article.sections.forEach((section, index) => {
+    blocks.push(`## ${section.heading}\n\n${section.body}`);
+    if (index === inlineAfter && index < article.sections.length - 1) {
+      blocks.push('<HostingCTA context="inline" />');
+    }
+  });
+  blocks.push('<HostingCTA context="conclusion" />');
+
+  return `---\n${frontmatter}\n---\n\n${blocks.join('\n\n')}\n`;
+}
+
+export function formatViolations(violations: ArticleViolation[]): string {
+  return violations.map((violation) => `${violation.field}: ${violation.message}`).join('; ');
+}
@@ -7,6 +7,7 @@ import './load-env.ts';
 import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { httpFetch } from './http/cassette.ts';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -135,7 +136,7 @@ async function plausibleRequest(endpoint: string, params: Record<string, string>
     url.searchParams.set(key, value);
   }
 
-  const response = await fetch(url.toString(), {
+  const response = await httpFetch(url.toString(), {
     headers: {
       Authorization: `Bearer ${PLAUSIBLE_API_KEY}`,
     },
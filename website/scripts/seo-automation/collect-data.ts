@@ -1,47 +1,85 @@
 /**
  * Data Collector - Fetches relevant content from various sources
  * Runs daily via GitHub Actions
+ *
+ * Usage: npm run seo:collect -- [options]
+ *   --source <id>    Only fetch these registry sources (repeat or comma-separate; muted ones allowed)
+ *   --since <date>   Start of the active window: an ISO date or "<N>d" (default SEO_WINDOW_DAYS, 30 days)
+ *   --dry-run        Fetch and score, but write nothing under data/
+ *   --json           Print the new items as JSON on stdout; progress goes to stderr
+ *   --explain <url>  Show relevance and topic scoring for one item, from the archive or a fresh fetch
+ *   --fixture <file> Answer the --source feeds from a recorded response (data/fixtures/...); implies --dry-run
  */
 
 import './load-env.ts';
-import crypto from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { XMLParser } from 'fast-xml-parser';
+import { getAdapter } from './collector/adapters.ts';
+import type { ParseWarning } from './collector/parsers.ts';
+import {
+  buildHealthRows,
+  createRunStats,
+  instrumentFetch,
+  isCoolingDown,
+  isFailedRun,
+  loadSourceHealth,
+  recordSourceRun,
+  saveSourceHealth,
+  type SourceHealthFile,
+  type SourceRunStats,
+} from './collector/health.ts';
+import { loadSourceRegistry, type SourceDefinition } from './collector/registry.ts';
+import {
+  FULL_TEXT_ENABLED,
+  FULL_TEXT_LIMIT,
+  FULL_TEXT_MIN_RELEVANCE,
+  fetchFullText,
+} from './collector/full-text.ts';
+import { detectLanguage } from './collector/language.ts';
+import { createRelevanceScorer, type RelevanceInput, type RelevanceScorer } from './collector/relevance.ts';
+import { mergeNearDuplicates } from './collector/near-duplicates.ts';
+import { appendToArchive, itemRecords, loadArchive, seenRecord } from './collector/archive.ts';
+import { loadTaxonomy, topicTermsFor, type Taxonomy } from './collector/taxonomy.ts';
+import { loadReleaseNotes, mergeReleaseNotes, saveReleaseNotes } from './collector/releases.ts';
+import { loadSummaryCache, saveSummaryCache, summarizeItems, SUMMARIES_ENABLED, type SummaryStats } from './collector/summaries.ts';
+import {
+  findEmergingPhrases,
+  loadTaxonomyProposals,
+  proposeTaxonomyAdditions,
+  saveTaxonomyProposals,
+} from './collector/emerging-phrases.ts';
+import {
+  analyzeBrandMentions,
+  loadBrandMentions,
+  recordBrandMentions,
+  saveBrandMentions,
+  writeBrandAlerts,
+} from './collector/brand-monitor.ts';
+import {
+  computeTopicVelocity,
+  loadTopicHistory,
+  recordTopicSnapshot,
+  saveTopicHistory,
+  seedTopicHistory,
+} from './collector/topic-history.ts';
+import { createCachedFetch, loadHttpCache, saveHttpCache } from './http/cache.ts';
+import { fixtureFetch } from './http/cassette.ts';
+import { createCostTracker, formatCostTotals } from './llm/costs.ts';
+import { createLlmClient, resolveProviders } from './llm/providers.ts';
+import { fetchWithRetry } from './http/fetch.ts';
+import { createFetchPolicy, skippedByPolicy } from './http/polite.ts';
+import type { CollectedItemAlternate, ItemDigest, RelevanceExplanation, ReleaseNote } from './types.ts';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const FETCH_TIMEOUT = 15000;
-const MAX_RETRIES = 2;
 const WINDOW_DAYS = Number.parseInt(process.env.SEO_WINDOW_DAYS || '30', 10);
 const BRAND_ONLY = process.env.SEO_BRAND_ONLY === 'true';
+// BM25 scores are calibrated so a typical article of ours lands at 80
+const DEFAULT_MIN_RELEVANCE = 10;
+const PARSE_WARNING_SAMPLES = 10;
 
-async function fetchWithRetry(
-  url: string,
-  options: RequestInit = {},
-  retries = MAX_RETRIES
-): Promise<Response> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
-
-  try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-    });
-    clearTimeout(timeoutId);
-    return response;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    if (retries > 0 && !(error instanceof Error && error.name === 'AbortError')) {
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-      return fetchWithRetry(url, options, retries - 1);
-    }
-    throw error;
-  }
-}
 
 interface CollectedItem {
   id: string;
@@ -50,10 +88,29 @@ interface CollectedItem {
   source: string;
   contentType?: 'news' | 'article' | 'case-study' | 'feedback' | 'community';
   summary?: string;
+  content?: string;
+  language?: string;
   publishedAt: string;
   collectedAt: string;
   relevanceScore: number;
   topics: string[];
+  alternates?: CollectedItemAlternate[];
+  spread?: number;
+  scoreExplanation?: RelevanceExplanation;
+  firstSeen?: string;
+  lastSeen?: string;
+  release?: ReleaseNote;
+  digest?: ItemDigest;
+}
+
+interface SourceParseWarning extends ParseWarning {
+  source: string;
+}
+
+/** Optional sinks filled while fetching: entries below the threshold and parse warnings */
+interface FetchSinks {
+  rejected?: CollectedItem[];
+  parseWarnings?: SourceParseWarning[];
 }
 
 interface KnowledgeBase {
@@ -61,6 +118,27 @@ interface KnowledgeBase {
   items: CollectedItem[];
 }
 
+export interface CollectorOptions {
+  sources: string[];
+  since?: string;
+  dryRun: boolean;
+  json: boolean;
+  explainUrl?: string;
+  fixture?: string;
+}
+
+const DEFAULT_OPTIONS: CollectorOptions = { sources: [], dryRun: false, json: false };
+
+interface ItemExplanation {
+  url: string;
+  foundIn: 'archive' | 'feed' | null;
+  verdict: string;
+  item?: Pick<CollectedItem, 'id' | 'title' | 'url' | 'source' | 'publishedAt' | 'language'>;
+  relevance?: { score: number; minRelevance: number; explanation?: RelevanceExplanation };
+  topics: { topic: string; terms: string[] }[];
+  archived?: { firstSeen?: string; lastSeen?: string };
+}
+
 const BRAND_KEYWORDS = [
   'openclaw',
   'moltbot',
@@ -72,251 +150,58 @@ const BRAND_KEYWORDS = [
   'moltbot art',
 ];
 
-const RELEVANT_KEYWORDS = [
-  ...BRAND_KEYWORDS,
-  'ai assistant', 'chatbot', 'claude', 'gpt', 'llm',
-  'automation', 'telegram bot', 'discord bot', 'slack bot',
-  'self-hosted', 'open source ai', 'open source assistant', 'personal assistant',
-  'rag', 'embeddings', 'langchain', 'ai agent',
-  'workflow', 'case study', 'use case', 'user story',
-  'customer story', 'success story', 'testimonial',
-  // Use-case / scenario signals (EN)
-  'use-case', 'playbook', 'runbook', 'workflow automation',
-  'customer support', 'helpdesk', 'sales ops', 'crm', 'incident response',
-  'marketing automation', 'content outline', 'meeting notes', 'task extraction',
-  'onboarding', 'recruiting', 'invoice', 'finance ops', 'it helpdesk',
-  'order fulfillment', 'ecommerce',
+// English terms apply to every language: tech vocabulary is rarely translated
+const RELEVANT_KEYWORDS_BY_LANGUAGE: Record<string, string[]> = {
+  en: [
+    'ai assistant', 'chatbot', 'claude', 'gpt', 'llm',
+    'automation', 'telegram bot', 'discord bot', 'slack bot',
+    'self-hosted', 'open source ai', 'open source assistant', 'personal assistant',
+    'rag', 'embeddings', 'langchain', 'ai agent',
+    'workflow', 'case study', 'use case', 'user story',
+    'customer story', 'success story', 'testimonial',
+    // Use-case / scenario signals (EN)
+    'use-case', 'playbook', 'runbook', 'workflow automation',
+    'customer support', 'helpdesk', 'sales ops', 'crm', 'incident response',
+    'marketing automation', 'content outline', 'meeting notes', 'task extraction',
+    'onboarding', 'recruiting', 'invoice', 'finance ops', 'it helpdesk',
+    'order fulfillment', 'ecommerce',
+  ],
   // 使用场景 / 应用场景（中文）
-  '使用场景', '应用场景', '业务场景', '场景化',
-  '落地案例', '实战案例', '应用案例',
-];
+  zh: [
+    '使用场景', '应用场景', '业务场景', '场景化',
+    '落地案例', '实战案例', '应用案例',
+    '智能助手', '自托管', '私有化部署', '智能体', '工作流', '自动化',
+  ],
+  de: ['ki-assistent', 'selbst gehostet', 'anwendungsfall', 'fallstudie', 'automatisierung', 'open-source-ki'],
+  fr: ['assistant ia', 'auto-hébergé', "cas d'usage", 'étude de cas', 'automatisation', 'agent ia'],
+  es: ['asistente de ia', 'autoalojado', 'caso de uso', 'caso de éxito', 'automatización', 'agente de ia'],
+  pt: ['assistente de ia', 'auto-hospedado', 'caso de uso', 'estudo de caso', 'automação', 'agente de ia'],
+};
+
+const CJK_PATTERN = /[぀-ヿ㐀-鿿가-힯]/;
+const keywordPatterns = new Map<string, RegExp>();
+
+function keywordsFor(language: string): string[] {
+  const localized = language === 'en' ? [] : RELEVANT_KEYWORDS_BY_LANGUAGE[language] || [];
+  return [...BRAND_KEYWORDS, ...RELEVANT_KEYWORDS_BY_LANGUAGE.en, ...localized];
+}
 
-const RSS_SOURCES = [
-  // Dev.to feeds (reliable)
-  {
-    id: 'devto-ai',
-    name: 'Dev.to: #ai',
-    category: 'article' as const,
-    url: 'https://dev.to/feed/tag/ai',
-  },
-  {
-    id: 'devto-chatbot',
-    name: 'Dev.to: #chatbot',
-    category: 'article' as const,
-    url: 'https://dev.to/feed/tag/chatbot',
-  },
-  {
-    id: 'devto-selfhosted',
-    name: 'Dev.to: #selfhosted',
-    category: 'article' as const,
-    url: 'https://dev.to/feed/tag/selfhosted',
-  },
-  {
-    id: 'devto-llm',
-    name: 'Dev.to: #llm',
-    category: 'article' as const,
-    url: 'https://dev.to/feed/tag/llm',
-  },
-  {
-    id: 'devto-openai',
-    name: 'Dev.to: #openai',
-    category: 'article' as const,
-    url: 'https://dev.to/feed/tag/openai',
-  },
-  // Hashnode feeds (reliable developer platform)
-  {
-    id: 'hashnode-ai',
-    name: 'Hashnode: AI',
-    category: 'article' as const,
-    url: 'https://hashnode.com/n/ai/rss',
-  },
-  {
-    id: 'hashnode-llm',
-    name: 'Hashnode: LLM',
-    category: 'article' as const,
-    url: 'https://hashnode.com/n/llm/rss',
-  },
-  {
-    id: 'hashnode-chatgpt',
-    name: 'Hashnode: ChatGPT',
-    category: 'article' as const,
-    url: 'https://hashnode.com/n/chatgpt/rss',
-  },
-  // Echo JS (JavaScript/Node.js news)
-  {
-    id: 'echojs',
-    name: 'Echo JS',
-    category: 'news' as const,
-    url: 'https://www.echojs.com/rss',
-  },
-  // Product Hunt (AI category)
-  {
-    id: 'producthunt-ai',
-    name: 'Product Hunt: AI',
-    category: 'news' as const,
-    url: 'https://www.producthunt.com/feed?category=artificial-intelligence',
-  },
-  // Lobsters (tech news, very reliable)
-  {
-    id: 'lobsters',
-    name: 'Lobsters',
-    category: 'news' as const,
-    url: 'https://lobste.rs/rss',
-  },
-  {
-    id: 'lobsters-ai',
-    name: 'Lobsters: AI',
-    category: 'news' as const,
-    url: 'https://lobste.rs/t/ai.rss',
-  },
-  // Indie Hackers (community stories)
-  {
-    id: 'indiehackers',
-    name: 'Indie Hackers',
-    category: 'community' as const,
-    url: 'https://www.indiehackers.com/feed.xml',
-  },
-  // The Pragmatic Engineer (tech insights)
-  {
-    id: 'pragmatic-engineer',
-    name: 'Pragmatic Engineer',
-    category: 'article' as const,
-    url: 'https://newsletter.pragmaticengineer.com/feed',
-  },
-  // Simon Willison's blog (AI/LLM expert)
-  {
-    id: 'simonwillison',
-    name: 'Simon Willison',
-    category: 'article' as const,
-    url: 'https://simonwillison.net/atom/everything/',
-  },
-  // LangChain blog (AI agent tooling)
-  {
-    id: 'langchain-blog',
-    name: 'LangChain Blog',
-    category: 'article' as const,
-    url: 'https://blog.langchain.dev/rss/',
-  },
-  // LlamaIndex blog (RAG/agent framework)
-  {
-    id: 'llamaindex-blog',
-    name: 'LlamaIndex Blog',
-    category: 'article' as const,
-    url: 'https://www.llamaindex.ai/blog/rss.xml',
-  },
-  // Mistral AI blog (LLM provider)
-  {
-    id: 'mistral-blog',
-    name: 'Mistral AI Blog',
-    category: 'news' as const,
-    url: 'https://mistral.ai/news/rss/',
-  },
-  // OpenAI blog (LLM provider)
-  {
-    id: 'openai-blog',
-    name: 'OpenAI Blog',
-    category: 'news' as const,
-    url: 'https://openai.com/blog/rss.xml',
-  },
-  // Anthropic news/blog (LLM provider)
-  {
-    id: 'anthropic-news',
-    name: 'Anthropic News',
-    category: 'news' as const,
-    url: 'https://www.anthropic.com/news/rss.xml',
-  },
-  // Microsoft AI Blog
-  {
-    id: 'microsoft-ai-blog',
-    name: 'Microsoft AI Blog',
-    category: 'news' as const,
-    url: 'https://blogs.microsoft.com/ai/feed/',
-  },
-  // AWS Machine Learning Blog
-  {
-    id: 'aws-ml-blog',
-    name: 'AWS Machine Learning Blog',
-    category: 'news' as const,
-    url: 'https://aws.amazon.com/blogs/machine-learning/feed/',
-  },
-  // Google AI Blog
-  {
-    id: 'google-ai-blog',
-    name: 'Google AI Blog',
-    category: 'news' as const,
-    url: 'https://ai.googleblog.com/feeds/posts/default?alt=rss',
-  },
-  // Hugging Face Blog
-  {
-    id: 'huggingface-blog',
-    name: 'Hugging Face Blog',
-    category: 'article' as const,
-    url: 'https://huggingface.co/blog/feed.xml',
-  },
-  // Weights & Biases Blog
-  {
-    id: 'wandb-blog',
-    name: 'Weights & Biases Blog',
-    category: 'article' as const,
-    url: 'https://wandb.ai/site/rss.xml',
-  },
-  // n8n Blog (workflow automation)
-  {
-    id: 'n8n-blog',
-    name: 'n8n Blog',
-    category: 'article' as const,
-    url: 'https://n8n.io/blog/rss.xml',
-  },
-  // Zapier Blog (automation)
-  {
-    id: 'zapier-blog',
-    name: 'Zapier Blog',
-    category: 'article' as const,
-    url: 'https://zapier.com/blog/rss.xml',
-  },
-  // Indie Hackers (startups + automation)
-  {
-    id: 'indiehackers-products',
-    name: 'Indie Hackers: Products',
-    category: 'community' as const,
-    url: 'https://www.indiehackers.com/products.rss',
-  },
-  // Hacker Noon AI
-  {
-    id: 'hackernoon-ai',
-    name: 'Hacker Noon: AI',
-    category: 'article' as const,
-    url: 'https://hackernoon.com/tagged/artificial-intelligence/feed',
-  },
-  // Google News (may timeout, kept for completeness)
-  {
-    id: 'google-news-ai-assistant',
-    name: 'Google News: AI assistant',
-    category: 'news' as const,
-    url: 'https://news.google.com/rss/search?q=ai%20assistant%20self-hosted%20OR%20chatbot&hl=en-US&gl=US&ceid=US:en',
-  },
-  {
-    id: 'google-news-openclaw',
-    name: 'Google News: Openclaw',
-    category: 'news' as const,
-    url: 'https://news.google.com/rss/search?q=openclaw%20OR%20clawdbot%20OR%20moltbot&hl=en-US&gl=US&ceid=US:en',
-  },
-  // GitHub Topics (may timeout)
-  {
-    id: 'github-ai-automation',
-    name: 'GitHub Topics: AI automation',
-    category: 'community' as const,
-    url: 'https://github.com/topics/ai-automation.atom',
-  },
-];
+/**
+ * Latin keywords must start at a word boundary ('rag' should not match
+ * 'storage'); CJK has no word separators, so those stay substring matches.
+ */
+function matchesKeyword(text: string, keyword: string): boolean {
+  if (CJK_PATTERN.test(keyword)) return text.includes(keyword);
+
+  let pattern = keywordPatterns.get(keyword);
+  if (!pattern) {
+    pattern = new RegExp(`(?<![\\p{L}\\p{N}])${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'u');
+    keywordPatterns.set(keyword, pattern);
+  }
+  return pattern.test(text);
+}
 
 const DATA_DIR = path.join(__dirname, '..', '..', 'data', 'knowledge-base');
-const RSS_ITEM_LIMIT = 20;
-const xmlParser = new XMLParser({
-  ignoreAttributes: false,
-  attributeNamePrefix: '',
-  allowBooleanAttributes: true,
-});
 
 async function ensureDataDir(): Promise<void> {
   await fs.mkdir(DATA_DIR, { recursive: true });
@@ -337,278 +222,66 @@ async function saveKnowledgeBase(kb: KnowledgeBase): Promise<void> {
   await fs.writeFile(filePath, JSON.stringify(kb, null, 2));
 }
 
-function calculateRelevance(title: string, content?: string): number {
-  const text = `${title} ${content || ''}`.toLowerCase();
-  let score = 0;
-
-  for (const keyword of RELEVANT_KEYWORDS) {
-    if (text.includes(keyword)) {
-      score += 10;
-    }
-  }
+/**
+ * Archive lines keep what was collected; score explanations and
+ * first/last-seen times are derived on every run.
+ */
+function toArchiveItem(item: CollectedItem): CollectedItem {
+  const archived = { ...item };
+  delete archived.scoreExplanation;
+  delete archived.firstSeen;
+  delete archived.lastSeen;
+  // Digests live in the summary cache and are reattached every run
+  delete archived.digest;
+  return archived;
+}
 
-  // Bonus for specific high-value terms
-  if (BRAND_KEYWORDS.some((keyword) => text.includes(keyword))) score += 25;
-  if (text.includes('self-hosted')) score += 15;
-  if (text.includes('telegram') || text.includes('discord')) score += 10;
-  if (text.includes('tutorial') || text.includes('guide')) score += 5;
-  if (text.includes('open source') && text.includes('assistant')) score += 10;
+async function buildRelevanceScorer(corpus: CollectedItem[]): Promise<RelevanceScorer> {
+  return createRelevanceScorer(corpus, {
+    seedTerms: keywordsFor,
+    brandTerms: BRAND_KEYWORDS.filter((keyword) => /^[a-z]+$/.test(keyword)),
+  });
+}
 
-  return Math.min(100, score);
+function calculateRelevance(
+  scorer: RelevanceScorer,
+  input: RelevanceInput,
+  sourceWeight = 1
+): { score: number; explanation: RelevanceExplanation } {
+  const explanation = scorer.score(input);
+  return {
+    score: Math.min(100, Math.round(explanation.score * sourceWeight)),
+    explanation: { ...explanation, sourceWeight },
+  };
 }
 
-function extractTopics(title: string, content?: string): string[] {
+const topicTermCache = new WeakMap<Taxonomy, Map<string, Map<string, string[]>>>();
+
+/** Topic id -> the taxonomy terms that put the text in it */
+function matchTopicTerms(taxonomy: Taxonomy, title: string, content?: string, language: string = 'en'): Map<string, string[]> {
   const text = `${title} ${content || ''}`.toLowerCase();
-  const topics: string[] = [];
-
-  const topicMap: Record<string, string | string[]> = {
-    // 品牌词
-    'openclaw': 'brand',
-    'moltbot': 'brand',
-    'clawdbot': 'brand',
-    'clawd-bot': 'brand',
-
-    // 消息平台
-    'telegram': 'messaging',
-    'discord': 'messaging',
-    'slack': 'messaging',
-    'whatsapp': 'messaging',
-
-    // 部署
-    'docker': 'deployment',
-    'kubernetes': 'deployment',
-    'k8s': 'deployment',
-
-    // 自托管
-    'self-hosted': 'self-hosting',
-    'selfhosted': 'self-hosting',
-
-    // RAG
-    'rag': 'rag',
-    'retrieval': 'rag',
-
-    // AI 技术
-    'embeddings': 'ai-techniques',
-    'vector': 'ai-techniques',
-    'fine-tune': 'ai-techniques',
-    'fine tune': 'ai-techniques',
-    'prompt engineering': 'ai-prompts',
-    'prompting': 'ai-prompts',
-
-    // 框架
-    'langchain': 'frameworks',
-    'llamaindex': 'frameworks',
-    'haystack': 'frameworks',
-
-    // 自动化
-    'automation': 'automation',
-    'n8n': 'automation',
-    'zapier': 'automation',
-
-    // 集成
-    'api': 'integration',
-    'webhook': 'integration',
-
-    // 案例与工作流
-    'case study': 'case-study',
-    'use case': 'ai-use-cases',
-    'use-case': 'ai-use-cases',
-    'workflow': 'workflows',
-    'playbook': 'workflows',
-
-    // 使用场景（中文）
-    '使用场景': 'ai-use-cases',
-    '应用场景': 'ai-use-cases',
-    '业务场景': 'ai-use-cases',
-    '场景化': 'ai-use-cases',
-    '落地案例': 'ai-use-cases',
-    '实战案例': 'ai-use-cases',
-    '应用案例': 'ai-use-cases',
-
-    // Use-case themes
-    'customer support': 'use-case-support',
-    'helpdesk': 'use-case-support',
-    'ticket': 'use-case-support',
-    '客服': 'use-case-support',
-    '工单': 'use-case-support',
-
-    'sales ops': 'use-case-sales',
-    'lead qualification': 'use-case-sales',
-    'crm': 'use-case-sales',
-    'pipeline': 'use-case-sales',
-    '销售': 'use-case-sales',
-    '线索': 'use-case-sales',
-
-    'incident': 'use-case-devops',
-    'incident response': 'use-case-devops',
-    'runbook': 'use-case-devops',
-    'on-call': 'use-case-devops',
-    '运维': 'use-case-devops',
-    '故障': 'use-case-devops',
-
-    'marketing': 'use-case-marketing',
-    'content outline': 'use-case-marketing',
-    'content brief': 'use-case-marketing',
-    'marketing automation': 'use-case-marketing',
-    '营销': 'use-case-marketing',
-    '文案': 'use-case-marketing',
-
-    'meeting notes': 'use-case-productivity',
-    'productivity': ['use-case-productivity', 'ai-productivity'],
-    'follow-up': 'use-case-productivity',
-    'task extraction': 'use-case-productivity',
-    '会议纪要': 'use-case-productivity',
-    '待办': 'use-case-productivity',
-
-    'onboarding': 'use-case-hr',
-    'recruiting': 'use-case-hr',
-    'hiring': 'use-case-hr',
-    '人事': 'use-case-hr',
-    '招聘': 'use-case-hr',
-
-    'invoice': 'use-case-finance',
-    'finance': 'use-case-finance',
-    'accounts payable': 'use-case-finance',
-    '财务': 'use-case-finance',
-    '报销': 'use-case-finance',
-
-    'it helpdesk': 'use-case-it',
-    'it support': 'use-case-it',
-    'ticketing': 'use-case-it',
-    'it支持': 'use-case-it',
-
-    'ecommerce': 'use-case-ecommerce',
-    'order': 'use-case-ecommerce',
-    'fulfillment': 'use-case-ecommerce',
-    '电商': 'use-case-ecommerce',
-    '订单': 'use-case-ecommerce',
-    '物流': 'use-case-ecommerce',
-
-    'operations': 'use-case-ops',
-    'ops': 'use-case-ops',
-    'sop': 'use-case-ops',
-    '运营': 'use-case-ops',
-
-    // Agent
-    'agent': 'agents',
-    'multi-agent': 'ai-multi-agent',
-    'agentic': 'agents',
-
-    // 助手
-    'copilot': 'assistants',
-    'assistant': 'assistants',
-
-    // LLM 提供商
-    'claude': 'llm-providers',
-    'gpt-4': 'llm-providers',
-    'gpt4': 'llm-providers',
-    'openai': 'llm-providers',
-    'anthropic': 'llm-providers',
-
-    // 本地 LLM
-    'ollama': 'local-llm',
-    'llama': 'local-llm',
-    'mistral': 'local-llm',
-
-    // 开源
-    'open source': 'open-source',
-
-    // 教程
-    'tutorial': 'tutorials',
-    'guide': 'tutorials',
-    'how to': 'tutorials',
-
-    // === 新增：AI 自动化趋势话题 ===
-
-    // AI 趋势与洞察
-    'trend': 'ai-trends',
-    'future': 'ai-future',
-    'prediction': 'ai-future',
-    '2026': 'ai-trends',
-    '2025': 'ai-trends',
-
-    // 生产力
-    'efficient': 'ai-productivity',
-
-    // 企业
-    'enterprise': 'ai-enterprise',
-    'corporate': 'ai-enterprise',
-    'business': 'ai-small-business',
-    'small business': 'ai-small-business',
-    'startup': 'ai-small-business',
-
-    // 隐私与安全
-    'privacy': 'ai-privacy',
-    'data protection': 'ai-privacy',
-    'gdpr': 'ai-privacy',
-    'security': 'ai-security',
-    'vulnerability': 'ai-security',
-    'secure': 'ai-security',
-
-    // 成本
-    'cost': 'ai-cost',
-    'pricing': 'ai-cost',
-    'roi': 'ai-cost',
-    'budget': 'ai-cost',
-
-    // 错误与最佳实践
-    'mistake': 'ai-mistakes',
-    'pitfall': 'ai-mistakes',
-    'best practice': 'ai-security',
-    'common error': 'ai-mistakes',
-
-    // 开发者
-    'developer': 'ai-developer',
-    'coding': 'ai-developer',
-    'programming': 'ai-developer',
-    'pair programming': 'ai-developer',
-
-    // 记忆与上下文
-    'memory': 'ai-memory',
-    'context': 'ai-memory',
-    'conversation history': 'ai-memory',
-
-    // 语音
-    'voice': 'ai-voice',
-    'speech': 'ai-voice',
-    'text to speech': 'ai-voice',
-    'tts': 'ai-voice',
-
-    // 伦理
-    'ethics': 'ai-ethics',
-    'responsible ai': 'ai-ethics',
-    'ethical': 'ai-ethics',
-
-    // 监控
-    'monitoring': 'ai-monitoring',
-    'logging': 'ai-monitoring',
-    'debugging': 'ai-monitoring',
-    'observability': 'ai-monitoring',
-
-    // 扩展
-    'scaling': 'ai-scaling',
-    'scale': 'ai-scaling',
-    'team': 'ai-scaling',
-  };
+  const matches = new Map<string, string[]>();
+
+  const byLanguage = topicTermCache.get(taxonomy) || new Map<string, Map<string, string[]>>();
+  topicTermCache.set(taxonomy, byLanguage);
+  let terms = byLanguage.get(language);
+  if (!terms) {
+    terms = topicTermsFor(taxonomy, language);
+    byLanguage.set(language, terms);
+  }
 
-  for (const [keyword, topicValue] of Object.entries(topicMap)) {
-    if (!text.includes(keyword)) continue;
-    const topicList = Array.isArray(topicValue) ? topicValue : [topicValue];
-    for (const topic of topicList) {
-      if (!topics.includes(topic)) topics.push(topic);
+  for (const [term, topicIds] of terms) {
+    if (!matchesKeyword(text, term)) continue;
+    for (const topic of topicIds) {
+      matches.set(topic, [...(matches.get(topic) || []), term]);
     }
   }
 
-  return topics;
+  return matches;
 }
 
-function normalizeText(value: unknown): string {
-  if (typeof value === 'string') return value.trim();
-  if (value && typeof value === 'object' && 'value' in (value as Record<string, unknown>)) {
-    const inner = (value as Record<string, unknown>).value;
-    return typeof inner === 'string' ? inner.trim() : '';
-  }
-  return '';
+function extractTopics(taxonomy: Taxonomy, title: string, content?: string, language: string = 'en'): string[] {
+  return Array.from(matchTopicTerms(taxonomy, title, content, language).keys());
 }
 
 function parseDate(value?: string): Date | null {
@@ -654,132 +327,120 @@ function normalizeItemUrl(value: string): string {
   }
 }
 
-function toArray<T>(value: T | T[] | undefined): T[] {
-  if (!value) return [];
-  return Array.isArray(value) ? value : [value];
-}
+async function fetchSource(
+  source: SourceDefinition,
+  stats: SourceRunStats,
+  fetchFn: typeof fetchWithRetry,
+  scorer: RelevanceScorer,
+  taxonomy: Taxonomy,
+  sinks: FetchSinks = {}
+): Promise<CollectedItem[]> {
+  const adapter = getAdapter(source.adapter);
+  if (!adapter) {
+    throw new Error(`Unknown adapter "${source.adapter}"`);
+  }
 
-function resolveEntryLink(entry: Record<string, unknown>): string {
-  const linkValue = entry.link;
-  if (typeof linkValue === 'string') return linkValue;
-  if (Array.isArray(linkValue)) {
-    const first = linkValue[0];
-    if (typeof first === 'string') return first;
-    if (first && typeof first === 'object' && 'href' in first) {
-      const href = (first as Record<string, unknown>).href;
-      return typeof href === 'string' ? href : '';
+  const entries = await adapter.fetchEntries(source, {
+    fetch: instrumentFetch(fetchFn, stats),
+    warn: (warning) => {
+      stats.parseErrors += 1;
+      sinks.parseWarnings?.push({ source: source.id, ...warning });
+    },
+  });
+  const minRelevance = source.minRelevance ?? DEFAULT_MIN_RELEVANCE;
+  const items: CollectedItem[] = [];
+
+  for (const entry of entries) {
+    const title = typeof entry.title === 'string' ? entry.title.trim() : '';
+    if (!title || !entry.url) {
+      stats.parseErrors += 1;
+      continue;
     }
-  }
-  if (linkValue && typeof linkValue === 'object' && 'href' in linkValue) {
-    const href = (linkValue as Record<string, unknown>).href;
-    return typeof href === 'string' ? href : '';
-  }
-  return '';
-}
 
-function resolvePublishedAt(entry: Record<string, unknown>): string {
-  const dateValue = entry.pubDate || entry.published || entry.updated || entry['dc:date'];
-  if (typeof dateValue === 'string') return dateValue;
-  if (dateValue && typeof dateValue === 'object' && 'value' in dateValue) {
-    const inner = (dateValue as Record<string, unknown>).value;
-    if (typeof inner === 'string') return inner;
+    const language = detectLanguage(`${title} ${entry.summary || ''}`).language;
+    const relevance = calculateRelevance(scorer, { title, summary: entry.summary, language }, source.weight);
+    const item: CollectedItem = {
+      id: entry.id,
+      title,
+      url: normalizeItemUrl(entry.url),
+      source: source.id,
+      contentType: source.category,
+      summary: entry.summary ? entry.summary.substring(0, 300) : undefined,
+      publishedAt: entry.publishedAt || new Date().toISOString(),
+      collectedAt: new Date().toISOString(),
+      relevanceScore: relevance.score,
+      scoreExplanation: relevance.explanation,
+      language,
+      topics: extractTopics(taxonomy, title, entry.summary, language),
+      release: entry.release,
+    };
+
+    // --explain also wants the entries that fall below the threshold
+    if (relevance.score >= minRelevance) items.push(item);
+    else sinks.rejected?.push(item);
   }
-  return new Date().toISOString();
-}
 
-function hashIdentifier(input: string): string {
-  return crypto.createHash('sha1').update(input).digest('hex').slice(0, 12);
+  return items;
 }
 
-function extractFeedEntries(parsed: Record<string, unknown>): Record<string, unknown>[] {
-  const rss = parsed.rss as Record<string, unknown> | undefined;
-  const channel = rss?.channel as Record<string, unknown> | undefined;
-  const rssItems = toArray(channel?.item as Record<string, unknown> | Record<string, unknown>[] | undefined);
-  if (rssItems.length > 0) return rssItems;
+async function fetchRegisteredSources(
+  sources: SourceDefinition[],
+  health: SourceHealthFile,
+  fetchFn: typeof fetchWithRetry,
+  scorer: RelevanceScorer,
+  taxonomy: Taxonomy,
+  sinks: FetchSinks = {}
+): Promise<CollectedItem[]> {
+  console.log(`Fetching from ${sources.length} registered sources...`);
+  const items: CollectedItem[] = [];
+  const results: { source: string; count: number; notModified?: boolean; error?: string }[] = [];
 
-  const feed = parsed.feed as Record<string, unknown> | undefined;
-  const atomEntries = toArray(feed?.entry as Record<string, unknown> | Record<string, unknown>[] | undefined);
-  if (atomEntries.length > 0) return atomEntries;
+  const coolingDown = sources.filter((source) => isCoolingDown(health.sources[source.id]));
+  if (coolingDown.length > 0) {
+    console.log(`  Skipping ${coolingDown.length} source(s) in cool-down: ${coolingDown.map((source) => source.id).join(', ')}`);
+  }
 
-  const rdf = parsed['rdf:RDF'] as Record<string, unknown> | undefined;
-  const rdfItems = toArray(rdf?.item as Record<string, unknown> | Record<string, unknown>[] | undefined);
-  if (rdfItems.length > 0) return rdfItems;
+  const activeSources = sources.filter((source) => !coolingDown.includes(source));
 
-  return [];
-}
+  const allResults = await Promise.all(activeSources.map(async (source) => {
+    const stats = createRunStats();
+    const startedAt = Date.now();
+    let sourceItems: CollectedItem[] = [];
 
-async function fetchRSSSources(): Promise<CollectedItem[]> {
-  console.log('Fetching from RSS sources...');
-  const items: CollectedItem[] = [];
-  const results: { source: string; count: number; error?: string }[] = [];
-
-  const fetchPromises = RSS_SOURCES.map(async (source) => {
     try {
-      const response = await fetchWithRetry(source.url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; SEO-Collector/1.0)',
-          'Accept': 'application/rss+xml, application/atom+xml, application/xml, text/xml, */*',
-        },
-      });
-
-      if (!response.ok) {
-        results.push({ source: source.name, count: 0, error: `HTTP ${response.status}` });
-        return [];
-      }
+      sourceItems = await fetchSource(source, stats, fetchFn, scorer, taxonomy, sinks);
+    } catch (error) {
+      stats.error = (error instanceof Error ? error.message : 'Unknown error').substring(0, 200);
+    }
 
-      const xml = await response.text();
-      const parsed = xmlParser.parse(xml) as Record<string, unknown>;
-      const entries = extractFeedEntries(parsed).slice(0, RSS_ITEM_LIMIT);
-      const sourceItems: CollectedItem[] = [];
-
-      for (const entry of entries) {
-        const title = normalizeText(entry.title);
-        if (!title) continue;
-
-        const link = normalizeItemUrl(resolveEntryLink(entry));
-        if (!link) continue;
-
-        const description = normalizeText(entry.summary || entry.description || entry['content:encoded'] || entry.content);
-        const publishedAt = resolvePublishedAt(entry);
-        const relevance = calculateRelevance(title, description);
-
-        if (relevance < 20) continue;
-
-        const stableIdSource = normalizeText(entry.guid || entry.id) || `${title}:${link}:${publishedAt}`;
-        const id = `rss-${source.id}-${hashIdentifier(stableIdSource)}`;
-
-        sourceItems.push({
-          id,
-          title,
-          url: link,
-          source: source.id,
-          contentType: source.category,
-          summary: description ? description.substring(0, 300) : undefined,
-          publishedAt: publishedAt || new Date().toISOString(),
-          collectedAt: new Date().toISOString(),
-          relevanceScore: relevance,
-          topics: extractTopics(title, description),
-        });
-      }
+    stats.latencyMs = Date.now() - startedAt;
+    stats.itemCount = sourceItems.length;
 
-      results.push({ source: source.name, count: sourceItems.length });
-      return sourceItems;
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-      results.push({ source: source.name, count: 0, error: errorMsg.substring(0, 50) });
-      return [];
+    const record = recordSourceRun(health, source, stats);
+    if (isFailedRun(stats)) {
+      results.push({ source: source.name, count: 0, error: (record.lastError || 'Unknown error').substring(0, 50) });
+      if (record.disabledUntil) {
+        console.warn(`  ⚠️ ${source.id} failed ${record.consecutiveFailures} runs in a row, disabled until ${record.disabledUntil}`);
+      }
+    } else {
+      const notModified = stats.notModified > 0 && stats.notModified === stats.requests;
+      results.push({ source: source.name, count: sourceItems.length, notModified });
     }
-  });
 
-  const allResults = await Promise.all(fetchPromises);
+    return sourceItems;
+  }));
+
   for (const sourceItems of allResults) {
     items.push(...sourceItems);
   }
 
-  // Log RSS fetch summary
   const successful = results.filter(r => !r.error);
   const failed = results.filter(r => r.error);
-  console.log(`  RSS: ${successful.length}/${results.length} sources succeeded, ${items.length} items`);
+  const unchanged = results.filter(r => r.notModified);
+  console.log(`  Sources: ${successful.length}/${results.length} succeeded, ${items.length} items`);
+  if (unchanged.length > 0) {
+    console.log(`  Unchanged since last run (304): ${unchanged.length}`);
+  }
   if (failed.length > 0) {
     console.log(`  Failed sources: ${failed.map(f => f.source.split(':')[0]).join(', ')}`);
   }
@@ -787,236 +448,442 @@ async function fetchRSSSources(): Promise<CollectedItem[]> {
   return items;
 }
 
-async function fetchHackerNews(): Promise<CollectedItem[]> {
-  console.log('Fetching from Hacker News...');
-  const items: CollectedItem[] = [];
-
-  try {
-    const searchTerms = ['ai assistant', 'chatbot', 'self-hosted ai', 'llm agent', 'rag'];
-
-    for (const term of searchTerms) {
+/**
+ * Fetch the article body for the most relevant new items and rescore them
+ * against the real content instead of the feed blurb.
+ */
+async function enrichWithFullText(
+  items: CollectedItem[],
+  sources: SourceDefinition[],
+  scorer: RelevanceScorer,
+  taxonomy: Taxonomy,
+  fetchFn: typeof fetchWithRetry
+): Promise<number> {
+  const candidates = items
+    .filter((item) => !item.content && item.relevanceScore >= FULL_TEXT_MIN_RELEVANCE)
+    .sort((a, b) => b.relevanceScore - a.relevanceScore)
+    .slice(0, FULL_TEXT_LIMIT);
+
+  if (candidates.length === 0) return 0;
+
+  console.log(`Fetching full text for ${candidates.length} high-relevance items...`);
+  const weights = new Map(sources.map((source) => [source.id, source.weight]));
+  let enriched = 0;
+
+  for (let i = 0; i < candidates.length; i += 4) {
+    await Promise.all(candidates.slice(i, i + 4).map(async (item) => {
       try {
-        const url = `https://hn.algolia.com/api/v1/search?query=${encodeURIComponent(term)}&tags=story&hitsPerPage=15`;
-        const response = await fetchWithRetry(url);
-
-        if (!response.ok) continue;
-
-        const data = await response.json();
-
-        for (const hit of data.hits || []) {
-          const relevance = calculateRelevance(hit.title, hit.story_text);
-
-          if (relevance >= 20) {
-            items.push({
-              id: `hn-${hit.objectID}`,
-              title: hit.title,
-              url: normalizeItemUrl(hit.url || `https://news.ycombinator.com/item?id=${hit.objectID}`),
-              source: 'hackernews',
-              contentType: 'news',
-              summary: hit.story_text?.substring(0, 300),
-              publishedAt: hit.created_at,
-              collectedAt: new Date().toISOString(),
-              relevanceScore: relevance,
-              topics: extractTopics(hit.title, hit.story_text),
-            });
-          }
+        const content = await fetchFullText(item.url, fetchFn);
+        if (!content) return;
+
+        const weight = weights.get(item.source) ?? 1;
+        const language = detectLanguage(`${item.title} ${content}`).language;
+        const rescored = calculateRelevance(scorer, { title: item.title, summary: item.summary, content, language }, weight);
+        item.content = content;
+        item.language = language;
+        if (rescored.score >= item.relevanceScore) {
+          item.relevanceScore = rescored.score;
+          item.scoreExplanation = rescored.explanation;
         }
+        item.topics = Array.from(new Set([...item.topics, ...extractTopics(taxonomy, item.title, content, language)]));
+        enriched++;
       } catch {
-        // Continue with other search terms
+        // Keep the feed summary when the page cannot be fetched
       }
-    }
-    console.log(`  HN: ${items.length} items`);
-  } catch (error) {
-    console.error('Error fetching from HN:', error instanceof Error ? error.message : error);
+    }));
   }
 
-  return items;
+  console.log(`  Full text extracted for ${enriched}/${candidates.length} items`);
+  return enriched;
 }
 
-async function fetchDevTo(): Promise<CollectedItem[]> {
-  console.log('Fetching from Dev.to...');
-  const items: CollectedItem[] = [];
+async function deduplicateItems(
+  existing: CollectedItem[],
+  newItems: CollectedItem[]
+): Promise<CollectedItem[]> {
+  const knownCopies = existing.flatMap(item => [item, ...(item.alternates || [])]);
+  const existingIds = new Set(knownCopies.map(item => item.id));
+  const existingUrls = new Set(knownCopies.map(item => normalizeItemUrl(item.url)));
 
-  try {
-    const tags = ['ai', 'chatbot', 'automation', 'selfhosted', 'llm', 'openai', 'langchain'];
+  return newItems.filter(item =>
+    !existingIds.has(item.id) && !existingUrls.has(normalizeItemUrl(item.url))
+  );
+}
 
-    for (const tag of tags) {
-      try {
-        const url = `https://dev.to/api/articles?tag=${tag}&per_page=15`;
-        const response = await fetchWithRetry(url);
-
-        if (!response.ok) continue;
-
-        const articles = await response.json();
-
-        for (const article of articles) {
-          const relevance = calculateRelevance(article.title, article.description);
-
-          if (relevance >= 20) {
-            items.push({
-              id: `devto-${article.id}`,
-              title: article.title,
-              url: normalizeItemUrl(article.url),
-              source: 'devto',
-              contentType: 'article',
-              summary: article.description,
-              publishedAt: article.published_at,
-              collectedAt: new Date().toISOString(),
-              relevanceScore: relevance,
-              topics: extractTopics(article.title, article.description),
-            });
-          }
-        }
-      } catch {
-        // Continue with other tags
-      }
+/**
+ * Map fetched items back to the archived items they duplicate, by id or URL
+ * of the item or any of its alternates.
+ */
+function findArchivedIds(archived: CollectedItem[], fetched: CollectedItem[]): string[] {
+  const archivedIds = new Map<string, string>();
+  for (const item of archived) {
+    for (const copy of [item, ...(item.alternates || [])]) {
+      archivedIds.set(copy.id, item.id);
+      archivedIds.set(normalizeItemUrl(copy.url), item.id);
     }
-    console.log(`  Dev.to: ${items.length} items`);
-  } catch (error) {
-    console.error('Error fetching from Dev.to:', error instanceof Error ? error.message : error);
   }
 
-  return items;
+  const ids = new Set<string>();
+  for (const item of fetched) {
+    const id = archivedIds.get(item.id) || archivedIds.get(normalizeItemUrl(item.url));
+    if (id) ids.add(id);
+  }
+  return Array.from(ids);
 }
 
-async function fetchReddit(): Promise<CollectedItem[]> {
-  console.log('Fetching from Reddit...');
-  const items: CollectedItem[] = [];
+function isInWindow(item: CollectedItem, windowStart: Date): boolean {
+  const compareDate = parseDate(item.publishedAt) || parseDate(item.collectedAt);
+  return compareDate ? compareDate >= windowStart : false;
+}
 
-  try {
-    const subreddits = ['selfhosted', 'ChatGPT', 'LocalLLaMA', 'artificial'];
+/** "2026-01-15", a full ISO timestamp or a relative "7d" */
+function parseSince(value: string): string {
+  const days = value.match(/^(\d+)d$/);
+  if (days) {
+    return new Date(Date.now() - Number(days[1]) * 24 * 60 * 60 * 1000).toISOString();
+  }
+  const date = parseDate(value);
+  if (!date) {
+    throw new Error(`--since expects an ISO date or "<N>d", got "${value}"`);
+  }
+  return date.toISOString();
+}
 
-    for (const subreddit of subreddits) {
-      try {
-        const url = `https://www.reddit.com/r/${subreddit}/hot.json?limit=20`;
-        const response = await fetchWithRetry(url, {
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (compatible; SEO-Collector/1.0)',
-          },
-        });
-
-        if (!response.ok) continue;
-
-        const data = await response.json();
-
-        for (const post of data.data?.children || []) {
-          const postData = post.data;
-          const relevance = calculateRelevance(postData.title, postData.selftext);
-
-          if (relevance >= 20 && !postData.over_18) {
-            items.push({
-              id: `reddit-${postData.id}`,
-              title: postData.title,
-              url: normalizeItemUrl(`https://reddit.com${postData.permalink}`),
-              source: 'reddit',
-              contentType: 'feedback',
-              summary: postData.selftext?.substring(0, 300),
-              publishedAt: new Date(postData.created_utc * 1000).toISOString(),
-              collectedAt: new Date().toISOString(),
-              relevanceScore: relevance,
-              topics: extractTopics(postData.title, postData.selftext),
-            });
-          }
-        }
-      } catch {
-        // Continue with other subreddits
+export function parseCollectorArgs(argv: string[]): CollectorOptions {
+  const options: CollectorOptions = { ...DEFAULT_OPTIONS, sources: [] };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = (): string => {
+      const next = argv[i + 1];
+      if (!next || next.startsWith('--')) {
+        throw new Error(`${flag} needs a value`);
       }
+      i++;
+      return next;
+    };
+
+    switch (flag) {
+      case '--source':
+        options.sources.push(...value().split(',').map((id) => id.trim()).filter(Boolean));
+        break;
+      case '--since':
+        options.since = parseSince(value());
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      case '--explain':
+        options.explainUrl = value();
+        break;
+      case '--fixture':
+        options.fixture = value();
+        options.dryRun = true;
+        break;
+      default:
+        throw new Error(`Unknown option "${flag}" (expected --source, --since, --dry-run, --json, --explain or --fixture)`);
     }
-    console.log(`  Reddit: ${items.length} items`);
-  } catch (error) {
-    console.error('Error fetching from Reddit:', error instanceof Error ? error.message : error);
   }
 
-  return items;
+  // Every request gets the same recorded body, so it only makes sense for the sources it was recorded from
+  if (options.fixture && options.sources.length === 0) {
+    throw new Error('--fixture needs --source <id> naming the source it was recorded from');
+  }
+
+  return options;
 }
 
-async function fetchLobsters(): Promise<CollectedItem[]> {
-  console.log('Fetching from Lobsters...');
-  const items: CollectedItem[] = [];
+/**
+ * Sources named with --source are fetched even when muted in the
+ * registry; without the flag every enabled source is.
+ */
+function selectSources(registry: SourceDefinition[], ids: string[]): SourceDefinition[] {
+  if (ids.length === 0) {
+    return registry.filter((source) => source.enabled);
+  }
 
-  try {
-    const response = await fetchWithRetry('https://lobste.rs/hottest.json');
-
-    if (response.ok) {
-      const stories = await response.json();
-
-      for (const story of stories.slice(0, 30)) {
-        const relevance = calculateRelevance(story.title, story.description || '');
-
-        if (relevance >= 15) {
-          items.push({
-            id: `lobsters-${story.short_id}`,
-            title: story.title,
-            url: normalizeItemUrl(story.url || story.comments_url),
-            source: 'lobsters',
-            contentType: 'news',
-            summary: story.description?.substring(0, 300),
-            publishedAt: story.created_at,
-            collectedAt: new Date().toISOString(),
-            relevanceScore: relevance,
-            topics: extractTopics(story.title, story.description || ''),
-          });
-        }
-      }
+  const unknown = ids.filter((id) => !registry.some((source) => source.id === id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown source(s): ${unknown.join(', ')} (known: ${registry.map((source) => source.id).join(', ')})`);
+  }
+  return registry.filter((source) => ids.includes(source.id));
+}
+
+/**
+ * Why an item is or is not in the knowledge base: look it up in the archive
+ * first, otherwise fetch the sources and score the matching feed entry,
+ * including entries below the relevance threshold. Nothing is written.
+ */
+async function explainItem(
+  url: string,
+  archivedItems: CollectedItem[],
+  windowStart: Date,
+  sources: SourceDefinition[],
+  health: SourceHealthFile,
+  fetchFn: typeof fetchWithRetry,
+  scorer: RelevanceScorer,
+  taxonomy: Taxonomy
+): Promise<ItemExplanation> {
+  const normalizedUrl = normalizeItemUrl(url);
+  const matchesUrl = (item: CollectedItem) =>
+    [item, ...(item.alternates || [])].some((copy) => normalizeItemUrl(copy.url) === normalizedUrl);
+  const sourceFor = (item: CollectedItem) => sources.find((source) => source.id === item.source);
+  const describe = (item: CollectedItem, foundIn: 'archive' | 'feed', verdict: string, relevance: ItemExplanation['relevance']): ItemExplanation => ({
+    url,
+    foundIn,
+    verdict,
+    item: {
+      id: item.id,
+      title: item.title,
+      url: item.url,
+      source: item.source,
+      publishedAt: item.publishedAt,
+      language: item.language,
+    },
+    relevance,
+    topics: Array.from(matchTopicTerms(taxonomy, item.title, [item.summary, item.content].filter(Boolean).join(' '), item.language))
+      .map(([topic, terms]) => ({ topic, terms })),
+    archived: foundIn === 'archive' ? { firstSeen: item.firstSeen, lastSeen: item.lastSeen } : undefined,
+  });
+
+  const archived = archivedItems.find(matchesUrl);
+  if (archived) {
+    const source = sourceFor(archived);
+    const relevance = calculateRelevance(scorer, archived, source?.weight ?? 1);
+    const minRelevance = source?.minRelevance ?? DEFAULT_MIN_RELEVANCE;
+    let verdict = isInWindow(archived, windowStart)
+      ? 'Collected and in the active window'
+      : `Collected, but published before the window start (${windowStart.toISOString().split('T')[0]})`;
+    if (BRAND_ONLY && !hasBrandMention(archived.title, archived.summary)) {
+      verdict += '; dropped by SEO_BRAND_ONLY (no brand mention)';
     }
-    console.log(`  Lobsters: ${items.length} items`);
-  } catch (error) {
-    console.error('Error fetching from Lobsters:', error instanceof Error ? error.message : error);
+    return describe(archived, 'archive', verdict, { score: relevance.score, minRelevance, explanation: relevance.explanation });
   }
 
-  return items;
+  const rejected: CollectedItem[] = [];
+  const fetched = await fetchRegisteredSources(sources, health, fetchFn, scorer, taxonomy, { rejected });
+  const entry = [...fetched, ...rejected].find(matchesUrl);
+  if (!entry) {
+    return {
+      url,
+      foundIn: null,
+      verdict: `Not in the archive and not in any of the ${sources.length} fetched sources (try --source for a muted one)`,
+      topics: [],
+    };
+  }
+
+  const minRelevance = sourceFor(entry)?.minRelevance ?? DEFAULT_MIN_RELEVANCE;
+  let verdict = entry.relevanceScore >= minRelevance
+    ? 'Would be collected as a new item on the next run'
+    : `Dropped: relevance ${entry.relevanceScore} is below ${entry.source}'s minimum of ${minRelevance}`;
+  if (entry.relevanceScore >= minRelevance && !isInWindow(entry, windowStart)) {
+    verdict = `Fetched, but published before the window start (${windowStart.toISOString().split('T')[0]})`;
+  }
+  return describe(entry, 'feed', verdict, { score: entry.relevanceScore, minRelevance, explanation: entry.scoreExplanation });
 }
 
-async function deduplicateItems(
-  existing: CollectedItem[],
-  newItems: CollectedItem[]
-): Promise<CollectedItem[]> {
-  const existingIds = new Set(existing.map(item => item.id));
-  const existingUrls = new Set(existing.map(item => normalizeItemUrl(item.url)));
+function printExplanation(explanation: ItemExplanation): void {
+  console.log(`\n🔎 ${explanation.url}`);
+  console.log(`   ${explanation.verdict}`);
+  if (!explanation.item) return;
 
-  return newItems.filter(item =>
-    !existingIds.has(item.id) && !existingUrls.has(normalizeItemUrl(item.url))
-  );
+  const { item, relevance, archived } = explanation;
+  console.log(`   Title: ${item.title}`);
+  console.log(`   Source: ${item.source} | Published: ${item.publishedAt} | Language: ${item.language || 'und'}`);
+  if (archived) {
+    console.log(`   First seen: ${archived.firstSeen || '-'} | Last seen: ${archived.lastSeen || '-'}`);
+  }
+  if (relevance) {
+    const detail = relevance.explanation;
+    console.log(`   Relevance: ${relevance.score} (minimum ${relevance.minRelevance})`);
+    if (detail) {
+      console.log(`     BM25F raw ${detail.raw.toFixed(2)}, calibrated ${detail.score}, source weight ${detail.sourceWeight ?? 1}`);
+      console.log(`     Fields: title ${detail.fields.title.toFixed(2)}, summary ${detail.fields.summary.toFixed(2)}, content ${detail.fields.content.toFixed(2)}`);
+      detail.topTerms.forEach((term) => console.log(`     + ${term.term} (${term.contribution.toFixed(2)})`));
+    }
+  }
+  if (explanation.topics.length === 0) {
+    console.log('   Topics: none matched');
+  } else {
+    console.log('   Topics:');
+    explanation.topics.forEach(({ topic, terms }) => console.log(`     - ${topic}: ${terms.join(', ')}`));
+  }
 }
 
-async function collectAll(): Promise<void> {
-  console.log('Starting daily data collection...');
+export async function collectAll(options: CollectorOptions = DEFAULT_OPTIONS): Promise<void> {
+  console.log(`Starting ${options.explainUrl ? 'item explanation' : options.dryRun ? 'dry-run data collection' : 'daily data collection'}...`);
   console.log('Date:', new Date().toISOString());
 
-  await ensureDataDir();
+  const writeData = !options.dryRun && !options.explainUrl;
+  if (writeData) {
+    await ensureDataDir();
+  }
+
+  const registry = await loadSourceRegistry();
+  const sources = selectSources(registry, options.sources);
+  if (options.sources.length > 0) {
+    console.log(`Source filter: ${sources.map((source) => source.id).join(', ')}`);
+  } else {
+    const muted = registry.length - sources.length;
+    console.log(`Source registry: ${sources.length} enabled${muted > 0 ? `, ${muted} muted` : ''}`);
+  }
+
+  const windowDays = Number.isFinite(WINDOW_DAYS) && WINDOW_DAYS > 0 ? WINDOW_DAYS : 30;
+  const windowStart = options.since ? new Date(options.since) : new Date();
+  if (!options.since) {
+    windowStart.setDate(windowStart.getDate() - windowDays);
+  }
+
+  // The archive holds every item ever collected; the knowledge base is its active window
+  let archive = await loadArchive<CollectedItem>();
+  let unarchivedItems: CollectedItem[] = [];
+  if (archive.entries.size === 0) {
+    const previous = await loadKnowledgeBase();
+    if (previous.items.length > 0 && writeData) {
+      await appendToArchive(itemRecords(previous.items.map(toArchiveItem)));
+      archive = await loadArchive<CollectedItem>();
+      console.log(`📦 Archive seeded with ${archive.entries.size} items from collected-articles.json`);
+    } else {
+      // Dry runs and --explain read the old knowledge base without seeding the archive
+      unarchivedItems = previous.items;
+    }
+  }
+  if (archive.malformedLines > 0) {
+    console.warn(`⚠️ Skipped ${archive.malformedLines} malformed archive lines`);
+  }
+
+  const archivedItems = archive.entries.size > 0
+    ? Array.from(archive.entries.values()).map((entry) => ({
+      ...entry.item,
+      firstSeen: entry.firstSeen,
+      lastSeen: entry.lastSeen,
+    }))
+    : unarchivedItems;
+  const kb: KnowledgeBase = {
+    lastUpdated: '',
+    items: archivedItems.filter((item) => isInWindow(item, windowStart)),
+  };
+  console.log(`Archive: ${archivedItems.length} items in ${archive.partitions} partitions, ${kb.items.length} in the active window`);
+
+  // Items collected before language detection existed
+  for (const item of kb.items) {
+    if (!item.language) {
+      item.language = detectLanguage(`${item.title} ${item.content || item.summary || ''}`).language;
+    }
+  }
+
+  // IDF comes from what we already hold; rescore it so old and new items share one scale
+  const scorer = await buildRelevanceScorer(kb.items);
+  const sourceWeights = new Map(registry.map((source) => [source.id, source.weight]));
+  for (const item of kb.items) {
+    const relevance = calculateRelevance(scorer, item, sourceWeights.get(item.source) ?? 1);
+    item.relevanceScore = relevance.score;
+    item.scoreExplanation = relevance.explanation;
+  }
+
+  // Retag the window too, so taxonomy edits apply without waiting for new items
+  const taxonomy = await loadTaxonomy();
+  for (const item of kb.items) {
+    item.topics = extractTopics(taxonomy, item.title, [item.summary, item.content].filter(Boolean).join(' '), item.language);
+  }
 
-  const kb = await loadKnowledgeBase();
+  const health = await loadSourceHealth();
+  const httpCache = await loadHttpCache();
+  // Feeds and pages share one per-host queue; pages also have to pass robots.txt
+  const fetchPolicy = createFetchPolicy();
+  const fetchFn = options.fixture
+    ? fixtureFetch(options.fixture)
+    : createCachedFetch(fetchPolicy.wrap(fetchWithRetry), httpCache, fetchPolicy.stats);
+  if (options.fixture) {
+    console.log(`📼 Feeds answered from ${options.fixture}`);
+  }
+
+  if (options.explainUrl) {
+    const explanation = await explainItem(options.explainUrl, archivedItems, windowStart, sources, health, fetchFn, scorer, taxonomy);
+    if (options.json) {
+      process.stdout.write(`${JSON.stringify(explanation, null, 2)}\n`);
+    } else {
+      printExplanation(explanation);
+    }
+    return;
+  }
 
   // Fetch from all sources in parallel
-  const [hnItems, devtoItems, redditItems, lobstersItems, rssItems] = await Promise.all([
-    fetchHackerNews(),
-    fetchDevTo(),
-    fetchReddit(),
-    fetchLobsters(),
-    fetchRSSSources(),
-  ]);
-
-  const allNewItems = [...hnItems, ...devtoItems, ...redditItems, ...lobstersItems, ...rssItems];
+  const parseWarnings: SourceParseWarning[] = [];
+  const allNewItems = await fetchRegisteredSources(sources, health, fetchFn, scorer, taxonomy, { parseWarnings });
+  if (writeData) {
+    await saveSourceHealth(health);
+    await saveHttpCache(httpCache);
+  }
   console.log(`Fetched ${allNewItems.length} items from all sources`);
 
-  // Deduplicate
-  const uniqueItems = await deduplicateItems(kb.items, allNewItems);
+  const malformedBySource: Record<string, number> = {};
+  for (const warning of parseWarnings) {
+    malformedBySource[warning.source] = (malformedBySource[warning.source] || 0) + 1;
+  }
+  if (parseWarnings.length > 0) {
+    const skipped = parseWarnings.filter((warning) => warning.skipped).length;
+    console.warn(`⚠️ Malformed entries: ${Object.entries(malformedBySource).map(([source, count]) => `${source} ${count}`).join(', ')} (${skipped} skipped)`);
+    for (const warning of parseWarnings.slice(0, PARSE_WARNING_SAMPLES)) {
+      console.warn(`   ${warning.source} #${warning.index}${warning.id ? ` (${warning.id})` : ''}: ${warning.problems.join('; ')}`);
+    }
+  }
+
+  // Release notes are refreshed on every fetch: maintainers edit them after publishing
+  const releaseNotes = await loadReleaseNotes();
+  const newReleases = mergeReleaseNotes(releaseNotes, allNewItems.flatMap((item) => (item.release ? [item.release] : [])));
+  if (newReleases.length > 0) {
+    console.log(`🏷️ New releases: ${newReleases.join(', ')}`);
+  }
+  if (writeData && allNewItems.some((item) => item.release)) {
+    await saveReleaseNotes(releaseNotes);
+  }
+
+  // Deduplicate against everything ever collected, not just the active window
+  const uniqueItems = await deduplicateItems(archivedItems, allNewItems);
   console.log(`${uniqueItems.length} new unique items`);
 
-  // Add to knowledge base
-  kb.items = [...uniqueItems, ...kb.items];
+  // A fixture run stays offline, so article pages are not fetched
+  const fullTextCount = FULL_TEXT_ENABLED && !options.fixture
+    ? await enrichWithFullText(uniqueItems, sources, scorer, taxonomy, fetchPolicy.wrap(fetchWithRetry, { robots: true }))
+    : 0;
+
+  const { requests, delayed, skippedByRobots, skippedRateLimited } = fetchPolicy.stats;
+  console.log(`🤝 Fetch policy: ${requests} requests (${delayed} delayed), ${skippedByPolicy(fetchPolicy.stats)} skipped (robots.txt: ${skippedByRobots}, rate limits: ${skippedRateLimited})`);
+
+  const runAt = new Date().toISOString();
+  const resightedIds = findArchivedIds(archivedItems, allNewItems.filter((item) => !uniqueItems.includes(item)));
+  if (writeData) {
+    await appendToArchive([...itemRecords(uniqueItems.map(toArchiveItem), runAt), ...seenRecord<CollectedItem>(resightedIds, runAt)]);
+  }
+
+  const resighted = new Set(resightedIds);
+  for (const item of kb.items) {
+    if (resighted.has(item.id)) item.lastSeen = runAt;
+  }
+  for (const item of uniqueItems) {
+    item.firstSeen = runAt;
+    item.lastSeen = runAt;
+  }
+
+  // Add to knowledge base, folding syndicated copies into one story
+  const existingIds = new Set(kb.items.flatMap((item) => [item.id, ...(item.alternates || []).map((copy) => copy.id)]));
+  const uniqueIds = new Set(uniqueItems.map((item) => item.id));
+  const nearDuplicates = mergeNearDuplicates([...uniqueItems, ...kb.items]);
+  kb.items = nearDuplicates.items;
+  // One new story per cluster; a re-post of a story already in the knowledge base is not new
+  const newStories = nearDuplicates.items.filter((item) => (
+    uniqueIds.has(item.id) && !(item.alternates || []).some((copy) => existingIds.has(copy.id))
+  ));
+  if (nearDuplicates.merged > 0) {
+    console.log(`Merged ${nearDuplicates.merged} near-duplicate items into ${nearDuplicates.clusters} stories`);
+  }
 
   // Keep only items from the configured window (default 30 days)
-  const windowDays = Number.isFinite(WINDOW_DAYS) && WINDOW_DAYS > 0 ? WINDOW_DAYS : 30;
-  const windowStart = new Date();
-  windowStart.setDate(windowStart.getDate() - windowDays);
-
-  kb.items = kb.items.filter((item) => {
-    const publishedAt = parseDate(item.publishedAt);
-    const collectedAt = parseDate(item.collectedAt);
-    const compareDate = publishedAt || collectedAt;
-    return compareDate ? compareDate >= windowStart : false;
-  });
+  kb.items = kb.items.filter((item) => isInWindow(item, windowStart));
 
   // Optional brand-only filter
   if (BRAND_ONLY) {
@@ -1038,17 +905,82 @@ async function collectAll(): Promise<void> {
   // Limit to 500 items max
   kb.items = kb.items.slice(0, 500);
 
+  // Digests for article prompts; cached ones are reattached, only new top items cost a call
+  let summaryStats: SummaryStats | null = null;
+  if (SUMMARIES_ENABLED && writeData) {
+    const summaryCache = await loadSummaryCache();
+    // Provider calls count toward SEO_MAX_COST_USD like article generation
+    const costTracker = createCostTracker();
+    summaryStats = await summarizeItems(kb.items, summaryCache, createLlmClient(resolveProviders(), { costs: costTracker }));
+    await saveSummaryCache(summaryCache);
+    console.log(`🧾 Summaries (${summaryStats.provider}): ${summaryStats.fromCache} cached, ${summaryStats.llm} written by the provider, ${summaryStats.extractive} extractive${summaryStats.failed > 0 ? `, ${summaryStats.failed} provider failures` : ''}`);
+    if (summaryStats.skippedByBudget > 0) {
+      console.log(`💸 Budget reached; ${summaryStats.skippedByBudget} summaries fell back to extractive`);
+    }
+    if (summaryStats.cost && summaryStats.cost.calls > 0) {
+      console.log(`💰 Summary LLM usage: ${formatCostTotals(summaryStats.cost, costTracker.maxCostUsd)}`);
+    }
+  }
+
   kb.lastUpdated = new Date().toISOString();
 
-  await saveKnowledgeBase(kb);
+  if (writeData) {
+    await saveKnowledgeBase(kb);
+    console.log(`Knowledge base updated. Total items: ${kb.items.length}`);
+  } else {
+    console.log(`Dry run: knowledge base not written. Would hold ${kb.items.length} items`);
+  }
 
-  console.log(`Knowledge base updated. Total items: ${kb.items.length}`);
+  // Brand monitoring: every mention is kept, the last 24 hours are compared with the trailing days
+  const brandMentions = await loadBrandMentions();
+  const newBrandMentions = recordBrandMentions(brandMentions, kb.items, BRAND_KEYWORDS);
+  const brandMonitor = analyzeBrandMentions(brandMentions, newBrandMentions);
+  if (writeData) {
+    await saveBrandMentions(brandMentions);
+    await writeBrandAlerts(brandMonitor);
+  }
+  for (const alert of brandMonitor.alerts) {
+    console.warn(`🚨 Brand alert (${alert.type}): ${alert.message}`);
+  }
+
+  // Daily topic snapshot; an empty history is seeded from publish dates
+  const topicHistory = await loadTopicHistory();
+  if (topicHistory.snapshots.length === 0) {
+    topicHistory.snapshots = seedTopicHistory(archivedItems);
+  }
+  recordTopicSnapshot(topicHistory, newStories, kb.items);
+  if (writeData) {
+    await saveTopicHistory(topicHistory);
+  }
+
+  const risingTopics = Array.from(computeTopicVelocity(topicHistory.snapshots).values())
+    .filter((topic) => topic.recentStories > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 10);
+  const breakouts = risingTopics.filter((topic) => topic.breakout);
+  if (breakouts.length > 0) {
+    console.log(`🚀 Breakout topics: ${breakouts.map((topic) => `${topic.topic} (${topic.velocity}x)`).join(', ')}`);
+  }
+
+  // Phrases rising over the whole archive; uncovered ones are proposed as new topics
+  const emergingPhrases = findEmergingPhrases([...archivedItems, ...uniqueItems], taxonomy);
+  const taxonomyProposals = await loadTaxonomyProposals();
+  const proposedTopics = proposeTaxonomyAdditions(taxonomyProposals, emergingPhrases);
+  if (writeData) {
+    await saveTaxonomyProposals(taxonomyProposals);
+  }
+  if (proposedTopics.length > 0) {
+    console.log(`🌱 Proposed taxonomy topics: ${proposedTopics.join(', ')} (review with npm run seo:taxonomy-proposals)`);
+  }
 
   // Generate summary
   const bySource: Record<string, number> = {};
   const byCategory: Record<string, number> = {};
+  const byLanguage: Record<string, number> = {};
 
   for (const item of kb.items) {
+    const language = item.language || 'und';
+    byLanguage[language] = (byLanguage[language] || 0) + 1;
     bySource[item.source] = (bySource[item.source] || 0) + 1;
     const category = item.contentType || 'uncategorized';
     byCategory[category] = (byCategory[category] || 0) + 1;
@@ -1060,11 +992,94 @@ async function collectAll(): Promise<void> {
     totalItems: kb.items.length,
     bySource,
     byCategory,
+    byLanguage,
     topTopics: getTopTopics(kb.items),
+    risingTopics: risingTopics.map(({ topic, recentStories, velocity, acceleration, breakout }) => ({
+      topic,
+      recentStories,
+      velocity,
+      acceleration,
+      breakout,
+    })),
+    emergingPhrases: emergingPhrases.map(({ phrase, recentItems, baselineItems, sources, lift, knownTopics }) => ({
+      phrase,
+      recentItems,
+      baselineItems,
+      sources,
+      lift,
+      knownTopics,
+    })),
+    taxonomyProposals: {
+      pending: taxonomyProposals.proposals.length,
+      added: proposedTopics,
+    },
     brandMentions: countBrandMentions(kb.items),
+    brandMonitor: {
+      today: brandMonitor.today,
+      yesterday: brandMonitor.yesterday,
+      delta: brandMonitor.delta,
+      weeklyAverage: brandMonitor.weeklyAverage,
+      averageSentiment: brandMonitor.averageSentiment,
+      newMentions: brandMonitor.newMentions,
+      totalMentions: brandMonitor.totalMentions,
+      alerts: brandMonitor.alerts.map(({ type, message }) => ({ type, message })),
+      notable: brandMonitor.notable.map(({ title, url, source, alias, sentiment, publishedAt }) => ({
+        title,
+        url,
+        source,
+        alias,
+        sentiment,
+        publishedAt,
+      })),
+    },
+    sourceHealth: buildHealthRows(health, sources),
+    parseWarnings: {
+      malformedBySource,
+      skipped: parseWarnings.filter((warning) => warning.skipped).length,
+      samples: parseWarnings.slice(0, PARSE_WARNING_SAMPLES).map(({ source, format, index, id, problems, skipped }) => ({
+        source,
+        format,
+        index,
+        id,
+        problems,
+        skipped,
+      })),
+    },
+    fetchPolicy: {
+      ...fetchPolicy.stats,
+      skipped: skippedByPolicy(fetchPolicy.stats),
+    },
+    summaries: {
+      enabled: SUMMARIES_ENABLED,
+      ...summaryStats,
+      itemsWithDigest: kb.items.filter((item) => item.digest).length,
+    },
+    fullText: {
+      enabled: FULL_TEXT_ENABLED,
+      extracted: fullTextCount,
+      itemsWithContent: kb.items.filter((item) => item.content).length,
+    },
+    releases: {
+      latest: releaseNotes.releases[0]?.version || null,
+      added: newReleases,
+    },
+    archive: {
+      totalItems: archivedItems.length + uniqueItems.length,
+      partitions: archive.partitions,
+      appended: uniqueItems.length,
+      resighted: resightedIds.length,
+    },
+    nearDuplicates: {
+      clusters: nearDuplicates.clusters,
+      merged: nearDuplicates.merged,
+      widelySpread: kb.items.filter((item) => (item.spread || 1) > 1).length,
+    },
     filters: {
-      windowDays: Number.isFinite(WINDOW_DAYS) && WINDOW_DAYS > 0 ? WINDOW_DAYS : 30,
+      windowDays: options.since ? null : windowDays,
+      since: windowStart.toISOString(),
+      sources: options.sources.length > 0 ? options.sources : null,
       brandOnly: BRAND_ONLY,
+      dryRun: options.dryRun,
     },
   };
 
@@ -1072,8 +1087,14 @@ async function collectAll(): Promise<void> {
   console.log(JSON.stringify(summary, null, 2));
 
   // Save summary
-  const summaryPath = path.join(DATA_DIR, 'collection-summary.json');
-  await fs.writeFile(summaryPath, JSON.stringify(summary, null, 2));
+  if (writeData) {
+    const summaryPath = path.join(DATA_DIR, 'collection-summary.json');
+    await fs.writeFile(summaryPath, JSON.stringify(summary, null, 2));
+  }
+
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(uniqueItems, null, 2)}\n`);
+  }
 }
 
 function getTopTopics(items: CollectedItem[]): Record<string, number> {
@@ -1100,5 +1121,26 @@ function countBrandMentions(items: CollectedItem[]): number {
   }).length;
 }
 
-// Run
-collectAll().catch(console.error);
+async function main(): Promise<void> {
+  let options: CollectorOptions;
+  try {
+    options = parseCollectorArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  if (options.json) {
+    // Progress stays visible on stderr; stdout carries only the JSON
+    console.log = console.error;
+  }
+  await collectAll(options);
+}
+
+// Run only when executed directly, so importing the module has no side effects
+if (process.argv[1] && path.resolve(process.argv[1]) === __filename) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,446 @@
+/**
+ * Source adapters - turn a registry entry into raw feed entries
+ *
+ * Adapters only know how to talk to one kind of endpoint; parsers.ts checks
+ * the shape of what comes back. Relevance scoring, topic extraction and URL
+ * normalization stay in the collector so every source goes through the same
+ * pipeline.
+ */
+
+import crypto from 'crypto';
+import { XMLParser } from 'fast-xml-parser';
+import { isNotModified } from '../http/cache.ts';
+import { COLLECTOR_USER_AGENT } from '../http/polite.ts';
+import {
+  parseBlueskySearch,
+  parseDevtoArticles,
+  parseFeedDocument,
+  parseHnSearch,
+  parseLobstersStories,
+  parseMastodonStatuses,
+  parseRedditListing,
+  type FeedEntry,
+  type ParseResult,
+  type ParseWarning,
+} from './parsers.ts';
+import type { SourceDefinition } from './registry.ts';
+import { parseReleaseNotes, summarizeRelease } from './releases.ts';
+import type { ReleaseNote } from '../types.ts';
+
+export interface FetchedEntry {
+  id: string;
+  title: string;
+  url: string;
+  summary?: string;
+  publishedAt: string;
+  release?: ReleaseNote;
+}
+
+export interface AdapterContext {
+  fetch: (url: string, options?: RequestInit) => Promise<Response>;
+  // Receives one warning per malformed entry (or response) the parsers saw
+  warn?: (warning: ParseWarning) => void;
+}
+
+export interface SourceAdapter {
+  type: string;
+  fetchEntries(source: SourceDefinition, context: AdapterContext): Promise<FetchedEntry[]>;
+}
+
+const FEED_ITEM_LIMIT = 20;
+const POST_TITLE_LENGTH = 120;
+// Self-labels and moderation labels that keep a post out, like Reddit's over_18
+const EXCLUDED_POST_LABELS = new Set(['porn', 'sexual', 'nudity', 'graphic-media', 'gore', 'spam', '!hide', '!warn']);
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  allowBooleanAttributes: true,
+});
+
+function stringListOption(source: SourceDefinition, key: string): string[] {
+  const value = source.options?.[key];
+  if (!Array.isArray(value)) return [];
+  return value.filter((entry): entry is string => typeof entry === 'string' && entry.trim().length > 0);
+}
+
+function numberOption(source: SourceDefinition, key: string, fallback: number): number {
+  const value = source.options?.[key];
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Plain text of a post: paragraphs and line breaks become newlines, links
+ * keep their text, the few entities Mastodon emits are decoded.
+ */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/p>\s*<p[^>]*>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * Posts have no title: use the first line without links and the trailing
+ * hashtag block, cut at a word boundary.
+ */
+function postTitle(text: string): string {
+  const firstLine = text.split('\n').map((line) => line.trim()).find((line) => line.replace(/https?:\/\/\S+|#[\p{L}\p{N}_]+/gu, '').trim()) || '';
+  const plain = firstLine
+    .replace(/https?:\/\/\S+/g, '')
+    .replace(/(\s*#[\p{L}\p{N}_]+)+\s*$/u, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (plain.length <= POST_TITLE_LENGTH) return plain;
+  const cut = plain.slice(0, POST_TITLE_LENGTH);
+  const boundary = cut.lastIndexOf(' ');
+  return `${(boundary > POST_TITLE_LENGTH / 2 ? cut.slice(0, boundary) : cut).trim()}…`;
+}
+
+export function hashIdentifier(input: string): string {
+  return crypto.createHash('sha1').update(input).digest('hex').slice(0, 12);
+}
+
+/** Forward a parser's warnings to the collector and keep its entries */
+function collectParsed<T>(context: AdapterContext, result: ParseResult<T>): T[] {
+  for (const warning of result.warnings) context.warn?.(warning);
+  return result.entries;
+}
+
+async function fetchFeedDocument(source: SourceDefinition, context: AdapterContext): Promise<FeedEntry[]> {
+  const response = await context.fetch(source.url, {
+    headers: {
+      'User-Agent': COLLECTOR_USER_AGENT,
+      'Accept': 'application/rss+xml, application/atom+xml, application/xml, text/xml, */*',
+    },
+  });
+
+  // Feed unchanged since the last run: nothing new to collect
+  if (isNotModified(response)) return [];
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const xml = await response.text();
+  return collectParsed(context, parseFeedDocument(xmlParser.parse(xml))).slice(0, numberOption(source, 'limit', FEED_ITEM_LIMIT));
+}
+
+function createFeedAdapter(type: string, idPrefix: string): SourceAdapter {
+  return {
+    type,
+    async fetchEntries(source, context) {
+      const entries = await fetchFeedDocument(source, context);
+      const results: FetchedEntry[] = [];
+
+      for (const entry of entries) {
+        const stableIdSource = entry.guid || `${entry.title}:${entry.link}:${entry.publishedAt}`;
+
+        results.push({
+          id: `${idPrefix}-${source.id}-${hashIdentifier(stableIdSource)}`,
+          title: entry.title,
+          url: entry.link,
+          summary: entry.summary || entry.content,
+          publishedAt: entry.publishedAt,
+        });
+      }
+
+      return results;
+    },
+  };
+}
+
+const hnAlgoliaAdapter: SourceAdapter = {
+  type: 'hn-algolia',
+  async fetchEntries(source, context) {
+    const results: FetchedEntry[] = [];
+    const hitsPerPage = numberOption(source, 'hitsPerPage', 15);
+
+    for (const term of stringListOption(source, 'queries')) {
+      try {
+        const url = `${source.url}?query=${encodeURIComponent(term)}&tags=story&hitsPerPage=${hitsPerPage}`;
+        const response = await context.fetch(url);
+
+        if (!response.ok) continue;
+
+        for (const hit of collectParsed(context, parseHnSearch(await response.json()))) {
+          results.push({
+            id: `hn-${hit.objectId}`,
+            title: hit.title,
+            url: hit.url || `https://news.ycombinator.com/item?id=${hit.objectId}`,
+            summary: hit.storyText,
+            publishedAt: hit.createdAt,
+          });
+        }
+      } catch {
+        // Continue with other search terms
+      }
+    }
+
+    return results;
+  },
+};
+
+const devtoAdapter: SourceAdapter = {
+  type: 'devto',
+  async fetchEntries(source, context) {
+    const results: FetchedEntry[] = [];
+    const perPage = numberOption(source, 'perPage', 15);
+
+    for (const tag of stringListOption(source, 'tags')) {
+      try {
+        const url = `${source.url}?tag=${encodeURIComponent(tag)}&per_page=${perPage}`;
+        const response = await context.fetch(url);
+
+        if (!response.ok) continue;
+
+        for (const article of collectParsed(context, parseDevtoArticles(await response.json()))) {
+          results.push({
+            id: `devto-${article.id}`,
+            title: article.title,
+            url: article.url,
+            summary: article.description,
+            publishedAt: article.publishedAt,
+          });
+        }
+      } catch {
+        // Continue with other tags
+      }
+    }
+
+    return results;
+  },
+};
+
+const redditAdapter: SourceAdapter = {
+  type: 'reddit',
+  async fetchEntries(source, context) {
+    const results: FetchedEntry[] = [];
+    const limit = numberOption(source, 'limit', 20);
+    const baseUrl = source.url.replace(/\/$/, '');
+
+    for (const subreddit of stringListOption(source, 'subreddits')) {
+      try {
+        const url = `${baseUrl}/r/${subreddit}/hot.json?limit=${limit}`;
+        const response = await context.fetch(url, {
+          headers: {
+            'User-Agent': COLLECTOR_USER_AGENT,
+          },
+        });
+
+        if (!response.ok) continue;
+
+        for (const post of collectParsed(context, parseRedditListing(await response.json()))) {
+          if (post.over18) continue;
+
+          results.push({
+            id: `reddit-${post.id}`,
+            title: post.title,
+            url: `https://reddit.com${post.permalink}`,
+            summary: post.selftext,
+            publishedAt: post.createdAt,
+          });
+        }
+      } catch {
+        // Continue with other subreddits
+      }
+    }
+
+    return results;
+  },
+};
+
+const lobstersAdapter: SourceAdapter = {
+  type: 'lobsters',
+  async fetchEntries(source, context) {
+    const response = await context.fetch(source.url);
+
+    if (isNotModified(response)) return [];
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const stories = collectParsed(context, parseLobstersStories(await response.json()));
+
+    return stories.slice(0, numberOption(source, 'limit', 30)).map((story) => ({
+      id: `lobsters-${story.shortId}`,
+      title: story.title,
+      url: story.url,
+      summary: story.description,
+      publishedAt: story.createdAt,
+    }));
+  },
+};
+
+/**
+ * Mastodon hashtag timelines of one instance (source.url), e.g.
+ * https://fosstodon.org/api/v1/timelines/tag/selfhosted. Ids hash the
+ * post's ActivityPub URI, so a post federated to several instances is one item.
+ */
+const mastodonAdapter: SourceAdapter = {
+  type: 'mastodon',
+  async fetchEntries(source, context) {
+    const results: FetchedEntry[] = [];
+    const limit = Math.min(numberOption(source, 'limit', 20), 40);
+    const baseUrl = source.url.replace(/\/$/, '');
+    const hashtags = stringListOption(source, 'hashtags');
+    // A post tagged #selfhosted and #localllm shows up in both timelines
+    const seen = new Set<string>();
+    let failures = 0;
+    let lastError = '';
+
+    for (const hashtag of hashtags) {
+      try {
+        const url = `${baseUrl}/api/v1/timelines/tag/${encodeURIComponent(hashtag.replace(/^#/, ''))}?limit=${limit}`;
+        const response = await context.fetch(url, { headers: { 'Accept': 'application/json' } });
+
+        if (isNotModified(response)) continue;
+        if (!response.ok) {
+          failures++;
+          lastError = `HTTP ${response.status}`;
+          continue;
+        }
+
+        for (const status of collectParsed(context, parseMastodonStatuses(await response.json()))) {
+          if (status.sensitive || status.visibility === 'direct' || status.visibility === 'private') continue;
+
+          const text = htmlToText(`${status.spoilerText ? `${status.spoilerText}\n` : ''}${status.content}`);
+          const title = postTitle(text);
+          if (!title || seen.has(status.uri)) continue;
+          seen.add(status.uri);
+
+          const card = status.card ? `\n\n${status.card.title}${status.card.description ? ` - ${status.card.description}` : ''}` : '';
+          results.push({
+            id: `mastodon-${hashIdentifier(status.uri)}`,
+            title,
+            url: status.url || status.uri,
+            summary: `${text}${card}`,
+            publishedAt: status.createdAt,
+          });
+        }
+      } catch (error) {
+        failures++;
+        lastError = error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
+
+    // One dead hashtag is noise; every hashtag failing means the instance is down or blocks us
+    if (hashtags.length > 0 && failures === hashtags.length) {
+      throw new Error(lastError);
+    }
+    return results;
+  },
+};
+
+/**
+ * Bluesky post search through the public AppView (source.url is the
+ * app.bsky.feed.searchPosts endpoint). Items link to the post on bsky.app.
+ */
+const blueskyAdapter: SourceAdapter = {
+  type: 'bluesky',
+  async fetchEntries(source, context) {
+    const results: FetchedEntry[] = [];
+    const limit = Math.min(numberOption(source, 'limit', 25), 100);
+    const queries = stringListOption(source, 'queries');
+    const seen = new Set<string>();
+    let failures = 0;
+    let lastError = '';
+
+    for (const query of queries) {
+      try {
+        const url = `${source.url}?q=${encodeURIComponent(query)}&limit=${limit}&sort=latest`;
+        const response = await context.fetch(url, { headers: { 'Accept': 'application/json' } });
+
+        if (isNotModified(response)) continue;
+        if (!response.ok) {
+          failures++;
+          lastError = `HTTP ${response.status}`;
+          continue;
+        }
+
+        for (const post of collectParsed(context, parseBlueskySearch(await response.json()))) {
+          if (post.labels.some((label) => EXCLUDED_POST_LABELS.has(label))) continue;
+
+          const title = postTitle(post.text);
+          if (!title || seen.has(post.uri)) continue;
+          seen.add(post.uri);
+
+          const linked = post.external ? `\n\n${post.external.title}${post.external.description ? ` - ${post.external.description}` : ''}` : '';
+          results.push({
+            id: `bluesky-${hashIdentifier(post.uri)}`,
+            title,
+            url: `https://bsky.app/profile/${post.handle}/post/${post.uri.split('/').pop()}`,
+            summary: `${post.text}${linked}`,
+            publishedAt: post.createdAt,
+          });
+        }
+      } catch (error) {
+        failures++;
+        lastError = error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
+
+    if (queries.length > 0 && failures === queries.length) {
+      throw new Error(lastError);
+    }
+    return results;
+  },
+};
+
+const githubReleasesAdapter: SourceAdapter = {
+  type: 'github-releases',
+  async fetchEntries(source, context) {
+    const entries = await fetchFeedDocument(source, context);
+    const results: FetchedEntry[] = [];
+
+    for (const entry of entries) {
+      const { title, link, publishedAt } = entry;
+      const release = parseReleaseNotes({ title, url: link, html: entry.content || entry.summary || '', publishedAt });
+      const stableIdSource = entry.guid || `${title}:${link}:${publishedAt}`;
+
+      results.push({
+        id: `release-${source.id}-${hashIdentifier(stableIdSource)}`,
+        title,
+        url: link,
+        summary: summarizeRelease(release) || undefined,
+        publishedAt,
+        release,
+      });
+    }
+
+    return results;
+  },
+};
+
+const adapters = new Map<string, SourceAdapter>();
+
+export function registerAdapter(adapter: SourceAdapter): void {
+  adapters.set(adapter.type, adapter);
+}
+
+export function getAdapter(type: string): SourceAdapter | undefined {
+  return adapters.get(type);
+}
+
+export function listAdapterTypes(): string[] {
+  return Array.from(adapters.keys());
+}
+
+registerAdapter(createFeedAdapter('rss', 'rss'));
+registerAdapter(createFeedAdapter('atom', 'rss'));
+registerAdapter(githubReleasesAdapter);
+registerAdapter(hnAlgoliaAdapter);
+registerAdapter(devtoAdapter);
+registerAdapter(redditAdapter);
+registerAdapter(lobstersAdapter);
+registerAdapter(mastodonAdapter);
+registerAdapter(blueskyAdapter);
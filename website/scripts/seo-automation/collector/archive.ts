@@ -0,0 +1,127 @@
+/**
+ * Archive - Append-only history of every collected item
+ *
+ * Items are written once, the first time they are collected, to a
+ * month-partitioned JSONL file (data/knowledge-base/archive/YYYY-MM.jsonl).
+ * Later runs that fetch a known item again append a single "seen" line with
+ * the ids instead of rewriting anything. Folding the partitions in order
+ * yields every item ever collected with its first-seen and last-seen time;
+ * collected-articles.json is only the active-window view derived from it.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const ARCHIVE_DIR = process.env.SEO_ARCHIVE_DIR
+  || path.join(__dirname, '..', '..', '..', 'data', 'knowledge-base', 'archive');
+
+const PARTITION_PATTERN = /^\d{4}-\d{2}\.jsonl$/;
+
+interface ArchivableItem {
+  id: string;
+  collectedAt: string;
+}
+
+export type ArchiveRecord<T extends ArchivableItem> =
+  | { kind: 'item'; at: string; item: T }
+  | { kind: 'seen'; at: string; ids: string[] };
+
+export interface ArchivedEntry<T extends ArchivableItem> {
+  item: T;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface ArchiveLoadResult<T extends ArchivableItem> {
+  entries: Map<string, ArchivedEntry<T>>;
+  partitions: number;
+  malformedLines: number;
+}
+
+function partitionFor(at: string): string {
+  const date = new Date(at);
+  const month = Number.isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+  return `${month.slice(0, 7)}.jsonl`;
+}
+
+function laterOf(a: string, b: string): string {
+  return a > b ? a : b;
+}
+
+export async function loadArchive<T extends ArchivableItem>(dir = ARCHIVE_DIR): Promise<ArchiveLoadResult<T>> {
+  const entries = new Map<string, ArchivedEntry<T>>();
+  let files: string[] = [];
+  let malformedLines = 0;
+
+  try {
+    files = (await fs.readdir(dir)).filter((file) => PARTITION_PATTERN.test(file)).sort();
+  } catch {
+    return { entries, partitions: 0, malformedLines };
+  }
+
+  for (const file of files) {
+    const content = await fs.readFile(path.join(dir, file), 'utf-8');
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+
+      let record: ArchiveRecord<T>;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // A run killed mid-append leaves a truncated last line; skip it
+        malformedLines++;
+        continue;
+      }
+
+      if (record.kind === 'item' && record.item?.id) {
+        const existing = entries.get(record.item.id);
+        if (existing) {
+          existing.lastSeen = laterOf(existing.lastSeen, record.at);
+        } else {
+          entries.set(record.item.id, { item: record.item, firstSeen: record.at, lastSeen: record.at });
+        }
+      } else if (record.kind === 'seen' && Array.isArray(record.ids)) {
+        for (const id of record.ids) {
+          const existing = entries.get(id);
+          if (existing) existing.lastSeen = laterOf(existing.lastSeen, record.at);
+        }
+      } else {
+        malformedLines++;
+      }
+    }
+  }
+
+  return { entries, partitions: files.length, malformedLines };
+}
+
+/**
+ * Append records to the partition of the month each record happened in.
+ */
+export async function appendToArchive<T extends ArchivableItem>(records: ArchiveRecord<T>[], dir = ARCHIVE_DIR): Promise<void> {
+  if (records.length === 0) return;
+
+  const byPartition = new Map<string, string[]>();
+  for (const record of records) {
+    const file = partitionFor(record.at);
+    const lines = byPartition.get(file) || [];
+    lines.push(JSON.stringify(record));
+    byPartition.set(file, lines);
+  }
+
+  await fs.mkdir(dir, { recursive: true });
+  for (const [file, lines] of byPartition) {
+    await fs.appendFile(path.join(dir, file), `${lines.join('\n')}\n`);
+  }
+}
+
+export function itemRecords<T extends ArchivableItem>(items: T[], at?: string): ArchiveRecord<T>[] {
+  return items.map((item) => ({ kind: 'item', at: at || item.collectedAt, item }));
+}
+
+export function seenRecord<T extends ArchivableItem>(ids: string[], at: string): ArchiveRecord<T>[] {
+  return ids.length > 0 ? [{ kind: 'seen', at, ids }] : [];
+}
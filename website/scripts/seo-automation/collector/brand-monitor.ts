@@ -0,0 +1,286 @@
+/**
+ * Brand monitor - Every OpenClaw/Moltbot/Clawdbot mention with its sentiment
+ *
+ * Mentions are kept forever in data/knowledge-base/brand-mentions.json with
+ * the source, the alias that matched and a lexicon sentiment score in
+ * [-1, 1] (AFINN-style word weights, a negation flips the next weighted word,
+ * VADER-style normalization). The 24 hours before the run are compared with
+ * the 24 hours before that and with the daily average of the week before, so
+ * a run early in the UTC day still compares full days; spikes and negative
+ * stretches are written to data/knowledge-base/brand-alerts.json so someone
+ * can respond.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DATA_DIR = path.join(__dirname, '..', '..', '..', 'data', 'knowledge-base');
+export const BRAND_MENTIONS_FILE = path.join(DATA_DIR, 'brand-mentions.json');
+export const BRAND_ALERTS_FILE = path.join(DATA_DIR, 'brand-alerts.json');
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseFloat(value || '');
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+const SPIKE_RATIO = parseNumber(process.env.SEO_BRAND_SPIKE_RATIO, 2);
+const SPIKE_MIN_MENTIONS = parseNumber(process.env.SEO_BRAND_SPIKE_MIN, 5);
+const NEGATIVE_THRESHOLD = parseNumber(process.env.SEO_BRAND_NEGATIVE_THRESHOLD, -0.25);
+const NEGATIVE_MENTION_THRESHOLD = -0.5;
+const NEUTRAL_BAND = 0.05;
+const NEGATION_SCOPE = 3;
+const BASELINE_DAYS = 7;
+
+const SENTIMENT_LEXICON: Record<string, number> = {
+  // positive
+  love: 3, loved: 3, amazing: 3, awesome: 3, excellent: 3, fantastic: 3, brilliant: 3, impressive: 3,
+  great: 3, best: 3, perfect: 3, wonderful: 3, 'game-changer': 3,
+  good: 2, nice: 2, useful: 2, helpful: 2, easy: 2, fast: 2, solid: 2, reliable: 2, stable: 2, clean: 2,
+  recommend: 2, recommended: 2, works: 1, working: 1, improved: 2, improvement: 2, powerful: 2, secure: 2,
+  cool: 1, promising: 2, smooth: 2, simple: 1, thanks: 2, thank: 2, happy: 3, glad: 2, win: 2, wins: 2, fixed: 1,
+  // negative
+  hate: -3, terrible: -3, awful: -3, horrible: -3, worst: -3, useless: -3, scam: -3, malware: -3,
+  dangerous: -3, disaster: -3, garbage: -3, abandoned: -2, dead: -2,
+  bad: -2, broken: -2, breaks: -2, buggy: -2, bug: -1, bugs: -1, crash: -2, crashes: -2, crashed: -2,
+  slow: -2, confusing: -2, annoying: -2, frustrating: -2, frustrated: -2, disappointed: -2, disappointing: -2,
+  fail: -2, fails: -2, failed: -2, failing: -2, failure: -2, error: -1, errors: -1, issue: -1, issues: -1,
+  problem: -1, problems: -1, insecure: -3, vulnerability: -3, vulnerable: -3, leak: -3, leaked: -3,
+  exploit: -3, exploited: -3, breach: -3, compromised: -3, warning: -1, risk: -1, risky: -2,
+  expensive: -1, overpriced: -2, hype: -1, overhyped: -2, unusable: -3, avoid: -2, stolen: -3,
+  complaint: -2, complaints: -2, outage: -2, drama: -2, lawsuit: -2,
+};
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'none', 'nothing', 'without', "don't", "doesn't", "didn't", "isn't", "wasn't", "can't", "won't", 'cannot']);
+
+export type SentimentLabel = 'positive' | 'neutral' | 'negative';
+
+export interface SentimentResult {
+  score: number; // -1 (negative) to 1 (positive)
+  label: SentimentLabel;
+  terms: string[];
+}
+
+export interface BrandMention {
+  id: string;
+  title: string;
+  url: string;
+  source: string;
+  alias: string;
+  publishedAt: string;
+  recordedAt: string;
+  sentiment: number;
+  sentimentLabel: SentimentLabel;
+  sentimentTerms: string[];
+  spread?: number;
+}
+
+export interface BrandMentionsFile {
+  lastUpdated: string;
+  mentions: BrandMention[];
+}
+
+export interface BrandAlert {
+  type: 'spike' | 'negative';
+  message: string;
+  mentions: BrandMention[];
+}
+
+export interface BrandMonitorReport {
+  date: string;
+  today: number; // mentions published in the 24 hours before the run
+  yesterday: number; // the 24 hours before those
+  delta: number;
+  weeklyAverage: number; // per 24 hours, over the 7×24 hours before `today`
+  averageSentiment: number | null;
+  negativeToday: number;
+  totalMentions: number;
+  newMentions: number;
+  alerts: BrandAlert[];
+  notable: BrandMention[];
+}
+
+interface MentionItem {
+  id: string;
+  title: string;
+  url: string;
+  source: string;
+  summary?: string;
+  publishedAt: string;
+  collectedAt: string;
+  spread?: number;
+}
+
+export function scoreSentiment(text: string): SentimentResult {
+  const tokens = text.toLowerCase().replace(/<[^>]*>/g, ' ').replace(/[‘’]/g, "'").match(/[a-z]+(?:['-][a-z]+)*/g) || [];
+  let sum = 0;
+  let negateFor = 0;
+  const terms: string[] = [];
+
+  for (const token of tokens) {
+    if (NEGATIONS.has(token)) {
+      negateFor = NEGATION_SCOPE;
+      continue;
+    }
+
+    // A negation flips (and dampens) only the next sentiment word in scope
+    const weight = SENTIMENT_LEXICON[token];
+    if (weight) {
+      sum += negateFor > 0 ? -weight * 0.5 : weight;
+      terms.push(negateFor > 0 ? `not ${token}` : token);
+      negateFor = 0;
+    } else if (negateFor > 0) {
+      negateFor--;
+    }
+  }
+
+  const score = Number((sum / Math.sqrt(sum * sum + 15)).toFixed(2));
+  const label: SentimentLabel = score > NEUTRAL_BAND ? 'positive' : score < -NEUTRAL_BAND ? 'negative' : 'neutral';
+  return { score, label, terms };
+}
+
+/** Longest alias first, so "openclaw.build" wins over "openclaw" */
+export function matchBrandAlias(text: string, aliases: string[]): string | null {
+  const lower = text.toLowerCase();
+  const sorted = [...aliases].sort((a, b) => b.length - a.length);
+  return sorted.find((alias) => lower.includes(alias)) || null;
+}
+
+export async function loadBrandMentions(filePath = BRAND_MENTIONS_FILE): Promise<BrandMentionsFile> {
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const parsed = JSON.parse(content) as BrandMentionsFile;
+    return { lastUpdated: parsed.lastUpdated || '', mentions: parsed.mentions || [] };
+  } catch {
+    return { lastUpdated: '', mentions: [] };
+  }
+}
+
+export async function saveBrandMentions(file: BrandMentionsFile, filePath = BRAND_MENTIONS_FILE): Promise<void> {
+  file.lastUpdated = new Date().toISOString();
+  file.mentions.sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
+  await fs.writeFile(filePath, JSON.stringify(file, null, 2));
+}
+
+/**
+ * Add mentions for items not seen before and refresh the rest (titles and
+ * spread change as near-duplicates merge). Returns the number added.
+ */
+export function recordBrandMentions(file: BrandMentionsFile, items: MentionItem[], aliases: string[]): number {
+  const byId = new Map(file.mentions.map((mention) => [mention.id, mention]));
+  let added = 0;
+
+  for (const item of items) {
+    const text = `${item.title} ${item.summary || ''}`;
+    const alias = matchBrandAlias(text, aliases);
+    if (!alias) continue;
+
+    const sentiment = scoreSentiment(text);
+    const existing = byId.get(item.id);
+    const mention: BrandMention = {
+      id: item.id,
+      title: item.title,
+      url: item.url,
+      source: item.source,
+      alias,
+      publishedAt: item.publishedAt,
+      recordedAt: existing?.recordedAt || item.collectedAt,
+      sentiment: sentiment.score,
+      sentimentLabel: sentiment.label,
+      sentimentTerms: sentiment.terms,
+      spread: item.spread,
+    };
+
+    if (!existing) added++;
+    byId.set(item.id, mention);
+  }
+
+  file.mentions = Array.from(byId.values());
+  return added;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function publishedTime(mention: BrandMention): number | null {
+  const time = new Date(mention.publishedAt).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+export function analyzeBrandMentions(file: BrandMentionsFile, newMentions: number, now = new Date()): BrandMonitorReport {
+  const end = now.getTime();
+  // Mentions published in the `days` × 24 hours that end `from` × 24 hours before the run
+  const inWindow = (from: number, days = 1) => file.mentions.filter((mention) => {
+    const time = publishedTime(mention);
+    return time !== null && time <= end - from * DAY_MS && time > end - (from + days) * DAY_MS;
+  });
+
+  const todayMentions = inWindow(0);
+  const yesterdayCount = inWindow(1).length;
+  const weeklyAverage = inWindow(1, BASELINE_DAYS).length / BASELINE_DAYS;
+
+  const averageSentiment = todayMentions.length > 0
+    ? Number((todayMentions.reduce((sum, mention) => sum + mention.sentiment, 0) / todayMentions.length).toFixed(2))
+    : null;
+  const negativeToday = todayMentions.filter((mention) => mention.sentimentLabel === 'negative');
+
+  const alerts: BrandAlert[] = [];
+  if (todayMentions.length >= SPIKE_MIN_MENTIONS && todayMentions.length >= SPIKE_RATIO * Math.max(1, weeklyAverage)) {
+    alerts.push({
+      type: 'spike',
+      message: `${todayMentions.length} brand mentions in the last 24h vs ${weeklyAverage.toFixed(1)}/day over the ${BASELINE_DAYS} days before`,
+      mentions: todayMentions,
+    });
+  }
+
+  const strongNegatives = negativeToday.filter((mention) => mention.sentiment <= NEGATIVE_MENTION_THRESHOLD);
+  if ((averageSentiment !== null && averageSentiment <= NEGATIVE_THRESHOLD && todayMentions.length >= 2) || strongNegatives.length > 0) {
+    alerts.push({
+      type: 'negative',
+      message: averageSentiment !== null && averageSentiment <= NEGATIVE_THRESHOLD
+        ? `Average sentiment ${averageSentiment} across ${todayMentions.length} mentions in the last 24h (threshold ${NEGATIVE_THRESHOLD})`
+        : `${strongNegatives.length} strongly negative mention(s) in the last 24h`,
+      mentions: negativeToday.sort((a, b) => a.sentiment - b.sentiment),
+    });
+  }
+
+  // Notable threads: this week's most negative first, then the most widely spread
+  const weekStart = end - BASELINE_DAYS * DAY_MS;
+  const notable = file.mentions
+    .filter((mention) => (publishedTime(mention) ?? 0) > weekStart)
+    .sort((a, b) => Math.min(a.sentiment, 0) - Math.min(b.sentiment, 0) || (b.spread || 1) - (a.spread || 1))
+    .slice(0, 10);
+
+  return {
+    date: now.toISOString().split('T')[0],
+    today: todayMentions.length,
+    yesterday: yesterdayCount,
+    delta: todayMentions.length - yesterdayCount,
+    weeklyAverage: Number(weeklyAverage.toFixed(1)),
+    averageSentiment,
+    negativeToday: negativeToday.length,
+    totalMentions: file.mentions.length,
+    newMentions,
+    alerts,
+    notable,
+  };
+}
+
+/**
+ * Write the alert file when there is something to respond to; remove a
+ * stale one otherwise so its presence always means "act on this".
+ */
+export async function writeBrandAlerts(report: BrandMonitorReport, filePath = BRAND_ALERTS_FILE): Promise<void> {
+  if (report.alerts.length === 0) {
+    await fs.rm(filePath, { force: true });
+    return;
+  }
+
+  await fs.writeFile(filePath, JSON.stringify({
+    generatedAt: new Date().toISOString(),
+    date: report.date,
+    alerts: report.alerts,
+  }, null, 2));
+}
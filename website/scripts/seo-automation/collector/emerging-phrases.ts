@@ -0,0 +1,276 @@
+/**
+ * Emerging phrases - Topics the taxonomy does not know about yet
+ *
+ * Titles and summaries are cut into 1-3 word phrases (no leading or trailing
+ * stop word). A phrase's lift is its share of this week's items over its
+ * smoothed share of everything older in the archive, so a new framework or
+ * app name stands out while perennial vocabulary sits near 1. Phrases that
+ * no taxonomy term covers become proposals in
+ * data/knowledge-base/taxonomy-proposals.json, which an editor accepts or
+ * rejects with `npm run seo:taxonomy-proposals`.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { STOP_WORDS } from './relevance.ts';
+import { topicTermsFor, type Taxonomy } from './taxonomy.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const TAXONOMY_PROPOSALS_FILE = path.join(__dirname, '..', '..', '..', 'data', 'knowledge-base', 'taxonomy-proposals.json');
+
+function parsePositive(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseFloat(value || '');
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const RECENT_DAYS = parsePositive(process.env.SEO_EMERGING_RECENT_DAYS, 7);
+const MIN_ITEMS = parsePositive(process.env.SEO_EMERGING_MIN_ITEMS, 3);
+const MIN_LIFT = parsePositive(process.env.SEO_EMERGING_MIN_LIFT, 3);
+const MAX_PHRASES = Math.round(parsePositive(process.env.SEO_EMERGING_LIMIT, 20));
+const MIN_SOURCES = 2;
+const MAX_WORDS = 3;
+const MAX_EXAMPLES = 3;
+// A shorter phrase is dropped when a longer one containing it covers this share of its items
+const SUBSUMED_SHARE = 0.8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface PhraseItem {
+  title: string;
+  url: string;
+  source: string;
+  summary?: string;
+  language?: string;
+  publishedAt: string;
+  collectedAt: string;
+  topics: string[];
+}
+
+export interface EmergingPhrase {
+  phrase: string;
+  recentItems: number;
+  baselineItems: number;
+  sources: number;
+  lift: number;
+  score: number;
+  knownTopics: string[];
+  suggestedParent?: string;
+  examples: { title: string; url: string }[];
+}
+
+export interface TaxonomyProposal {
+  id: string;
+  phrase: string;
+  label: string;
+  parent?: string;
+  lift: number;
+  recentItems: number;
+  examples: { title: string; url: string }[];
+  firstProposed: string;
+  lastProposed: string;
+}
+
+export interface TaxonomyProposalsFile {
+  lastUpdated: string;
+  proposals: TaxonomyProposal[];
+  rejected: string[];
+}
+
+/**
+ * Single words only count when they look like a name (MCP, LangGraph,
+ * node.js, gpt-5): plain vocabulary swings too much week to week.
+ */
+function isNameLike(word: string): boolean {
+  return /\p{Lu}/u.test(word.slice(1)) || /[\d.+#-]/.test(word);
+}
+
+/** Every 1-3 word phrase in Latin-script text, once per text */
+export function extractPhrases(text: string): Set<string> {
+  const phrases = new Set<string>();
+  const plain = text
+    // Summaries are cut at 300 characters, often inside a tag
+    .replace(/&lt;[\s\S]*?(&gt;|$)|<[^>]*(>|$)/g, ' ')
+    .replace(/&[#\w]+;/g, ' ')
+    .replace(/['’]s\b/g, '')
+    .replace(/https?:\/\/\S+/g, ' ');
+
+  // Punctuation ends a run so phrases never span sentences or list items
+  for (const run of plain.split(/[,;:!?()[\]{}"|/]+|\.(?=\s|$)|\s[-–—]\s/)) {
+    const words = run.split(/[^\p{L}\p{N}.+#-]+/u)
+      .map((word) => word.replace(/^[.-]+|[.-]+$/g, ''))
+      .filter(Boolean);
+
+    for (let start = 0; start < words.length; start++) {
+      for (let length = 1; length <= MAX_WORDS && start + length <= words.length; length++) {
+        const gram = words.slice(start, start + length).map((word) => word.toLowerCase());
+        const first = gram[0];
+        const last = gram[gram.length - 1];
+        if (STOP_WORDS.has(first) || STOP_WORDS.has(last)) continue;
+        if (gram.some((word) => word.length < 2 || /^\d+$/.test(word) || !/\p{Script=Latin}/u.test(word))) continue;
+        if (length === 1 && !isNameLike(words[start])) continue;
+        phrases.add(gram.join(' '));
+      }
+    }
+  }
+
+  return phrases;
+}
+
+function containsPhrase(longer: string, shorter: string): boolean {
+  return ` ${longer} `.includes(` ${shorter} `);
+}
+
+function itemTime(item: PhraseItem): number {
+  const published = new Date(item.publishedAt).getTime();
+  return Number.isNaN(published) ? new Date(item.collectedAt).getTime() : published;
+}
+
+/**
+ * Rank phrases by lift of this week's items over the archive before it.
+ * Non-English items are skipped: the baseline would be too thin to judge.
+ */
+export function findEmergingPhrases(items: PhraseItem[], taxonomy: Taxonomy, now = new Date()): EmergingPhrase[] {
+  const recentStart = now.getTime() - RECENT_DAYS * DAY_MS;
+  const recent = new Map<string, PhraseItem[]>();
+  const baseline = new Map<string, number>();
+  let recentTotal = 0;
+  let baselineTotal = 0;
+  const counted = new Set<string>();
+
+  for (const item of items) {
+    if (item.language && item.language !== 'en') continue;
+    const time = itemTime(item);
+    if (Number.isNaN(time) || time > now.getTime()) continue;
+
+    // One story reaches us through several tag feeds; count it once
+    const titleKey = item.title.toLowerCase().replace(/\W+/g, ' ').trim();
+    if (counted.has(item.url) || counted.has(titleKey)) continue;
+    counted.add(item.url);
+    counted.add(titleKey);
+
+    const phrases = extractPhrases(`${item.title}. ${item.summary || ''}`);
+    if (time >= recentStart) {
+      recentTotal++;
+      for (const phrase of phrases) {
+        const bucket = recent.get(phrase) || [];
+        bucket.push(item);
+        recent.set(phrase, bucket);
+      }
+    } else {
+      baselineTotal++;
+      for (const phrase of phrases) baseline.set(phrase, (baseline.get(phrase) || 0) + 1);
+    }
+  }
+
+  if (recentTotal === 0) return [];
+
+  const candidates: EmergingPhrase[] = [];
+  for (const [phrase, phraseItems] of recent) {
+    if (phraseItems.length < MIN_ITEMS) continue;
+    const sources = new Set(phraseItems.map((item) => item.source)).size;
+    if (sources < MIN_SOURCES) continue;
+
+    // Add-one smoothing keeps phrases never seen before finite
+    const baselineItems = baseline.get(phrase) || 0;
+    const lift = (phraseItems.length / recentTotal) / ((baselineItems + 1) / (baselineTotal + 1));
+    if (lift < MIN_LIFT) continue;
+
+    candidates.push({
+      phrase,
+      recentItems: phraseItems.length,
+      baselineItems,
+      sources,
+      lift: Number(lift.toFixed(2)),
+      score: Number((Math.log2(lift) * Math.log2(1 + phraseItems.length)).toFixed(3)),
+      knownTopics: [],
+      examples: phraseItems.slice(0, MAX_EXAMPLES).map(({ title, url }) => ({ title, url })),
+    });
+  }
+
+  // "model context protocol" makes "model context" and "context protocol" redundant
+  const kept = candidates.filter((candidate) => !candidates.some((other) =>
+    other.phrase !== candidate.phrase
+    && containsPhrase(other.phrase, candidate.phrase)
+    && other.recentItems >= candidate.recentItems * SUBSUMED_SHARE));
+
+  const terms = Array.from(topicTermsFor(taxonomy, 'en'));
+  for (const candidate of kept) {
+    const known = new Set<string>();
+    for (const [term, topicIds] of terms) {
+      // A generic one-word term ("context") does not cover "model context protocol"
+      const covers = containsPhrase(term, candidate.phrase) || (term.includes(' ') && containsPhrase(candidate.phrase, term));
+      if (covers) {
+        topicIds.forEach((id) => known.add(id));
+      }
+    }
+    if (taxonomy.byId.has(toTopicId(candidate.phrase))) known.add(toTopicId(candidate.phrase));
+    candidate.knownTopics = Array.from(known);
+
+    // The topic its items are most often already tagged with
+    const topicCounts = new Map<string, number>();
+    for (const item of recent.get(candidate.phrase) || []) {
+      for (const topic of item.topics) topicCounts.set(topic, (topicCounts.get(topic) || 0) + 1);
+    }
+    candidate.suggestedParent = Array.from(topicCounts).sort((a, b) => b[1] - a[1])[0]?.[0];
+  }
+
+  return kept.sort((a, b) => b.score - a.score).slice(0, MAX_PHRASES);
+}
+
+export function toTopicId(phrase: string): string {
+  return phrase.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function toLabel(phrase: string): string {
+  return phrase.replace(/\b\p{L}/gu, (letter) => letter.toUpperCase());
+}
+
+export async function loadTaxonomyProposals(filePath = TAXONOMY_PROPOSALS_FILE): Promise<TaxonomyProposalsFile> {
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const parsed = JSON.parse(content) as TaxonomyProposalsFile;
+    return { lastUpdated: parsed.lastUpdated || '', proposals: parsed.proposals || [], rejected: parsed.rejected || [] };
+  } catch {
+    return { lastUpdated: '', proposals: [], rejected: [] };
+  }
+}
+
+export async function saveTaxonomyProposals(file: TaxonomyProposalsFile, filePath = TAXONOMY_PROPOSALS_FILE): Promise<void> {
+  file.lastUpdated = new Date().toISOString();
+  await fs.writeFile(filePath, JSON.stringify(file, null, 2));
+}
+
+/**
+ * Propose every emerging phrase no taxonomy topic covers, unless an editor
+ * rejected it before. Known proposals get fresh numbers. Returns the ids added.
+ */
+export function proposeTaxonomyAdditions(file: TaxonomyProposalsFile, phrases: EmergingPhrase[], now = new Date()): string[] {
+  const byId = new Map(file.proposals.map((proposal) => [proposal.id, proposal]));
+  const rejected = new Set(file.rejected);
+  const added: string[] = [];
+  const at = now.toISOString();
+
+  for (const phrase of phrases) {
+    const id = toTopicId(phrase.phrase);
+    if (phrase.knownTopics.length > 0 || rejected.has(id)) continue;
+
+    const existing = byId.get(id);
+    if (!existing) added.push(id);
+    byId.set(id, {
+      id,
+      phrase: phrase.phrase,
+      label: existing?.label || toLabel(phrase.phrase),
+      parent: phrase.suggestedParent,
+      lift: phrase.lift,
+      recentItems: phrase.recentItems,
+      examples: phrase.examples,
+      firstProposed: existing?.firstProposed || at,
+      lastProposed: at,
+    });
+  }
+
+  file.proposals = Array.from(byId.values()).sort((a, b) => b.lastProposed.localeCompare(a.lastProposed) || b.lift - a.lift);
+  return added;
+}
@@ -0,0 +1,136 @@
+/**
+ * Full-text extraction - Readability-style main-content extraction for collected items
+ *
+ * Opt-in with SEO_FULL_TEXT=true. Only items at or above
+ * SEO_FULL_TEXT_MIN_RELEVANCE are fetched, at most SEO_FULL_TEXT_LIMIT per run.
+ * Pages are reduced to their main content: scripts, navigation, headers,
+ * footers, sidebars and link-heavy blocks are dropped and the remaining
+ * paragraphs are kept as plain text. The collector fetches pages through its
+ * robots.txt-aware fetch policy (http/polite.ts).
+ */
+
+import { COLLECTOR_USER_AGENT } from '../http/polite.ts';
+
+export const FULL_TEXT_ENABLED = process.env.SEO_FULL_TEXT === 'true';
+export const FULL_TEXT_MIN_RELEVANCE = Number.parseInt(process.env.SEO_FULL_TEXT_MIN_RELEVANCE || '', 10) || 40;
+export const FULL_TEXT_LIMIT = Number.parseInt(process.env.SEO_FULL_TEXT_LIMIT || '', 10) || 20;
+export const FULL_TEXT_MAX_CHARS = Number.parseInt(process.env.SEO_FULL_TEXT_MAX_CHARS || '', 10) || 4000;
+
+const MIN_PARAGRAPH_CHARS = 40;
+const MAX_LINK_DENSITY = 0.5;
+
+const BOILERPLATE_TAGS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'nav', 'header', 'footer', 'aside', 'form', 'button', 'select'];
+const BLOCK_PATTERN = /<(p|h[1-4]|li|pre|blockquote)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+const BOILERPLATE_ATTR = /\b(class|id|role)\s*=\s*["'][^"']*\b(nav|menu|sidebar|footer|header|share|social|promo|advert|ads|cookie|banner|newsletter|subscribe|related|comments?)\b[^"']*["']/i;
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) return String.fromCodePoint(Number.parseInt(code.slice(2), 16));
+    if (code.startsWith('#')) return String.fromCodePoint(Number.parseInt(code.slice(1), 10));
+    return ENTITIES[code.toLowerCase()] ?? match;
+  });
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+function removeBoilerplate(html: string): string {
+  let cleaned = html.replace(/<!--[\s\S]*?-->/g, ' ');
+  for (const tag of BOILERPLATE_TAGS) {
+    cleaned = cleaned.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, 'gi'), ' ');
+  }
+  return cleaned;
+}
+
+/**
+ * Narrow the document to its <article> (or <main>) element when present.
+ * Picks the candidate with the most paragraph text.
+ */
+function selectMainContainer(html: string): string {
+  for (const tag of ['article', 'main']) {
+    const candidates = Array.from(html.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'gi')))
+      .map((match) => match[1]);
+    if (candidates.length === 0) continue;
+
+    const scored = candidates
+      .map((candidate) => ({ candidate, length: stripTags((candidate.match(/<p\b[\s\S]*?<\/p>/gi) || []).join(' ')).length }))
+      .sort((a, b) => b.length - a.length);
+    if (scored[0].length >= MIN_PARAGRAPH_CHARS) return scored[0].candidate;
+  }
+
+  const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i);
+  return body ? body[1] : html;
+}
+
+function linkDensity(blockHtml: string, text: string): number {
+  if (!text) return 1;
+  const linkText = Array.from(blockHtml.matchAll(/<a\b[^>]*>([\s\S]*?)<\/a>/gi))
+    .map((match) => stripTags(match[1]))
+    .join('');
+  return linkText.length / text.length;
+}
+
+export function extractMainText(html: string, maxChars = FULL_TEXT_MAX_CHARS): string {
+  const container = selectMainContainer(removeBoilerplate(html));
+  const blocks: string[] = [];
+  const seen = new Set<string>();
+
+  for (const match of container.matchAll(BLOCK_PATTERN)) {
+    const [fullMatch, tag, inner] = match;
+    if (BOILERPLATE_ATTR.test(fullMatch.slice(0, fullMatch.indexOf('>') + 1))) continue;
+
+    const text = stripTags(inner);
+    const isHeading = /^h[1-4]$/i.test(tag);
+    if (!text || seen.has(text)) continue;
+    if (!isHeading && text.length < MIN_PARAGRAPH_CHARS && tag.toLowerCase() !== 'pre') continue;
+    if (linkDensity(inner, text) > MAX_LINK_DENSITY) continue;
+
+    seen.add(text);
+    blocks.push(text);
+  }
+
+  const joined = blocks.join('\n\n');
+  if (joined.length <= maxChars) return joined;
+
+  // Cut at a sentence or word boundary inside the limit
+  const cut = joined.slice(0, maxChars);
+  const boundary = Math.max(cut.lastIndexOf('. '), cut.lastIndexOf('\n'));
+  return `${(boundary > maxChars * 0.6 ? cut.slice(0, boundary + 1) : cut.slice(0, cut.lastIndexOf(' '))).trim()}…`;
+}
+
+export async function fetchFullText(
+  url: string,
+  fetchFn: (url: string, options?: RequestInit) => Promise<Response>
+): Promise<string | null> {
+  const response = await fetchFn(url, {
+    headers: {
+      'User-Agent': COLLECTOR_USER_AGENT,
+      'Accept': 'text/html,application/xhtml+xml',
+    },
+  });
+
+  if (!response.ok) return null;
+
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType && !/html/i.test(contentType)) return null;
+
+  const text = extractMainText(await response.text());
+  return text.length >= MIN_PARAGRAPH_CHARS ? text : null;
+}
@@ -0,0 +1,209 @@
+/**
+ * Source Health - Per-source run stats and circuit breaker for the collector
+ *
+ * Every run records status, latency and item counts per source in
+ * data/knowledge-base/source-health.json. A source that fails
+ * SEO_SOURCE_MAX_FAILURES runs in a row is skipped until its cool-down
+ * expires, then gets a single trial run before it is disabled again.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { SourceDefinition } from './registry.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const SOURCE_HEALTH_FILE = path.join(__dirname, '..', '..', '..', 'data', 'knowledge-base', 'source-health.json');
+
+function parsePositive(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const MAX_CONSECUTIVE_FAILURES = parsePositive(process.env.SEO_SOURCE_MAX_FAILURES, 3);
+const COOLDOWN_HOURS = parsePositive(process.env.SEO_SOURCE_COOLDOWN_HOURS, 72);
+
+export interface SourceRunStats {
+  requests: number;
+  failedRequests: number;
+  lastStatus: number | null;
+  latencyMs: number;
+  itemCount: number;
+  parseErrors: number;
+  notModified: number;
+  error?: string;
+}
+
+export interface SourceHealthRecord {
+  id: string;
+  name: string;
+  lastRunAt: string;
+  lastSuccessAt: string | null;
+  lastStatus: number | null;
+  lastLatencyMs: number;
+  lastItemCount: number;
+  lastParseErrors: number;
+  lastError: string | null;
+  consecutiveFailures: number;
+  totalRuns: number;
+  totalFailures: number;
+  disabledUntil: string | null;
+}
+
+export interface SourceHealthFile {
+  lastUpdated: string;
+  sources: Record<string, SourceHealthRecord>;
+}
+
+export type SourceHealthStatus = 'ok' | 'failing' | 'cooling-down' | 'never-run';
+
+export interface SourceHealthRow {
+  id: string;
+  name: string;
+  status: SourceHealthStatus;
+  lastStatus: number | null;
+  latencyMs: number;
+  items: number;
+  parseErrors: number;
+  consecutiveFailures: number;
+  disabledUntil: string | null;
+  lastError: string | null;
+}
+
+export function createRunStats(): SourceRunStats {
+  return {
+    requests: 0,
+    failedRequests: 0,
+    lastStatus: null,
+    latencyMs: 0,
+    itemCount: 0,
+    parseErrors: 0,
+    notModified: 0,
+  };
+}
+
+/**
+ * Wrap a fetch function so every request made on behalf of a source is
+ * counted in its run stats.
+ */
+export function instrumentFetch(
+  fetchFn: (url: string, options?: RequestInit) => Promise<Response>,
+  stats: SourceRunStats
+): (url: string, options?: RequestInit) => Promise<Response> {
+  return async (url, options) => {
+    stats.requests += 1;
+    try {
+      const response = await fetchFn(url, options);
+      stats.lastStatus = response.status;
+      if (response.status === 304) stats.notModified += 1;
+      else if (!response.ok) stats.failedRequests += 1;
+      return response;
+    } catch (error) {
+      stats.failedRequests += 1;
+      throw error;
+    }
+  };
+}
+
+/**
+ * A run fails when the adapter threw or when every request it made failed.
+ */
+export function isFailedRun(stats: SourceRunStats): boolean {
+  if (stats.error) return true;
+  return stats.requests > 0 && stats.failedRequests >= stats.requests;
+}
+
+export async function loadSourceHealth(filePath = SOURCE_HEALTH_FILE): Promise<SourceHealthFile> {
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const parsed = JSON.parse(content) as SourceHealthFile;
+    return { lastUpdated: parsed.lastUpdated || '', sources: parsed.sources || {} };
+  } catch {
+    return { lastUpdated: '', sources: {} };
+  }
+}
+
+export async function saveSourceHealth(health: SourceHealthFile, filePath = SOURCE_HEALTH_FILE): Promise<void> {
+  health.lastUpdated = new Date().toISOString();
+  await fs.writeFile(filePath, JSON.stringify(health, null, 2));
+}
+
+export function isCoolingDown(record: SourceHealthRecord | undefined, now = new Date()): boolean {
+  if (!record?.disabledUntil) return false;
+  return new Date(record.disabledUntil).getTime() > now.getTime();
+}
+
+export function recordSourceRun(
+  health: SourceHealthFile,
+  source: SourceDefinition,
+  stats: SourceRunStats,
+  now = new Date()
+): SourceHealthRecord {
+  const previous = health.sources[source.id];
+  const failed = isFailedRun(stats);
+  const consecutiveFailures = failed ? (previous?.consecutiveFailures || 0) + 1 : 0;
+
+  let disabledUntil: string | null = null;
+  if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+    disabledUntil = new Date(now.getTime() + COOLDOWN_HOURS * 60 * 60 * 1000).toISOString();
+  }
+
+  const record: SourceHealthRecord = {
+    id: source.id,
+    name: source.name,
+    lastRunAt: now.toISOString(),
+    lastSuccessAt: failed ? previous?.lastSuccessAt || null : now.toISOString(),
+    lastStatus: stats.lastStatus,
+    lastLatencyMs: stats.latencyMs,
+    lastItemCount: stats.itemCount,
+    lastParseErrors: stats.parseErrors,
+    lastError: stats.error || (failed && stats.lastStatus ? `HTTP ${stats.lastStatus}` : null),
+    consecutiveFailures,
+    totalRuns: (previous?.totalRuns || 0) + 1,
+    totalFailures: (previous?.totalFailures || 0) + (failed ? 1 : 0),
+    disabledUntil,
+  };
+
+  health.sources[source.id] = record;
+  return record;
+}
+
+export function buildHealthRows(
+  health: SourceHealthFile,
+  sources: SourceDefinition[],
+  now = new Date()
+): SourceHealthRow[] {
+  const statusOrder: Record<SourceHealthStatus, number> = {
+    'cooling-down': 0,
+    failing: 1,
+    'never-run': 2,
+    ok: 3,
+  };
+
+  return sources
+    .map((source) => {
+      const record = health.sources[source.id];
+      let status: SourceHealthStatus = 'never-run';
+      if (record) {
+        if (isCoolingDown(record, now)) status = 'cooling-down';
+        else if (record.consecutiveFailures > 0) status = 'failing';
+        else status = 'ok';
+      }
+
+      return {
+        id: source.id,
+        name: source.name,
+        status,
+        lastStatus: record?.lastStatus ?? null,
+        latencyMs: record?.lastLatencyMs ?? 0,
+        items: record?.lastItemCount ?? 0,
+        parseErrors: record?.lastParseErrors ?? 0,
+        consecutiveFailures: record?.consecutiveFailures ?? 0,
+        disabledUntil: record?.disabledUntil ?? null,
+        lastError: record?.lastError ?? null,
+      };
+    })
+    .sort((a, b) => statusOrder[a.status] - statusOrder[b.status] || a.id.localeCompare(b.id));
+}
@@ -0,0 +1,162 @@
+/**
+ * Language detection - Small local n-gram detector for collected items
+ *
+ * Non-Latin scripts are decided by their Unicode ranges (Han, Kana, Hangul,
+ * Cyrillic). Latin-script text is scored on function words first and on
+ * the most frequent character trigrams of each language second,
+ * Cavnar-Trenkle style. Headlines are short and full of English tech terms,
+ * so a weak trigram signal falls back to English.
+ * Returns 'und' when the text is too short or carries no signal.
+ */
+
+export type LanguageCode = 'en' | 'de' | 'fr' | 'es' | 'pt' | 'it' | 'zh' | 'ja' | 'ko' | 'ru' | 'und';
+
+export interface LanguageGuess {
+  language: LanguageCode;
+  confidence: number;
+}
+
+const MIN_LATIN_LETTERS = 12;
+const MIN_SCRIPT_CHARS = 2;
+const MIN_TRIGRAM_CONFIDENCE = 0.5;
+
+type LatinLanguage = 'en' | 'de' | 'fr' | 'es' | 'pt' | 'it';
+
+const FUNCTION_WORDS: Record<LatinLanguage, string[]> = {
+  en: [
+    'the', 'and', 'of', 'to', 'in', 'is', 'for', 'with', 'how', 'you', 'your', 'an', 'on', 'that', 'this', 'what',
+    'why', 'it', 'are', 'from', 'at', 'by', 'its', 'can', 'be', 'not', 'we', 'our', 'my', 'when', 'than', 'without',
+    'about', 'into', 'using', 'just', 'own', 'every', 'who', 'was', 'will',
+  ],
+  de: [
+    'der', 'die', 'das', 'und', 'ist', 'mit', 'für', 'ein', 'eine', 'einen', 'wie', 'nicht', 'auf', 'den', 'dem',
+    'zu', 'von', 'sich', 'auch', 'man', 'ich', 'wir', 'bei', 'oder', 'aus', 'im', 'über', 'warum',
+  ],
+  fr: [
+    'le', 'les', 'des', 'et', 'est', 'une', 'pour', 'avec', 'dans', 'qui', 'du', 'sur', 'pas', 'au', 'aux', 'ce',
+    'vous', 'nous', 'son', 'ses', 'par', 'comment', 'pourquoi', 'votre',
+  ],
+  es: [
+    'el', 'los', 'las', 'del', 'y', 'es', 'una', 'para', 'con', 'en', 'por', 'cómo', 'se', 'su', 'tu', 'más', 'lo',
+    'al', 'sus', 'qué', 'porqué', 'tus',
+  ],
+  pt: [
+    'o', 'os', 'do', 'da', 'dos', 'das', 'e', 'é', 'um', 'uma', 'para', 'com', 'em', 'não', 'seu', 'sua', 'como',
+    'mais', 'ao', 'no', 'na', 'você',
+  ],
+  it: [
+    'il', 'lo', 'gli', 'della', 'del', 'di', 'e', 'è', 'una', 'un', 'per', 'con', 'che', 'non', 'come', 'sono',
+    'tua', 'nel', 'alla', 'al', 'perché',
+  ],
+};
+
+// Most frequent trigrams per language, highest first ('_' marks a word boundary)
+const TRIGRAM_PROFILES: Record<LatinLanguage, string[]> = {
+  en: [
+    '_th', 'the', 'he_', 'and', '_an', 'nd_', '_of', 'of_', '_to', 'to_', 'ing', 'ng_', '_in', 'ion', 'is_',
+    '_is', 'ed_', 'for', '_fo', 'or_', 'tio', 'you', '_yo', 'ou_', 'ith', '_wi', 'wit', 'hat', 'th_', 'ers',
+    '_ho', 'how', 'ow_', '_wh', 'are', '_ar', 'al_', 'es_', 'ent', 'ter',
+  ],
+  de: [
+    'en_', 'er_', '_de', 'der', 'ie_', 'ch_', '_di', 'die', 'ein', 'ich', 'sch', 'und', '_un', 'nd_', 'cht',
+    'den', '_ei', 'gen', 'ung', 'che', 'ist', '_is', 'mit', '_mi', 'auf', '_au', 'für', '_fü', 'ine', 'ver',
+    '_ve', 'das', '_da', 'ter', 'eit', 'sie', '_si', 'nen', 'bei', 'ach',
+  ],
+  fr: [
+    'es_', '_de', 'de_', 'le_', '_le', 'ent', 'les', '_la', 'la_', 'ion', 're_', 'que', '_qu', 'ue_', '_et',
+    'et_', 'des', 'ne_', '_un', 'une', 'our', '_po', 'pou', 'ans', '_da', 'dan', 'est', '_pa', 'par', 'eur',
+    'ait', '_co', 'tio', '_ce', 'ces', 'ous', '_vo', 'vou', '_en', 'ell',
+  ],
+  es: [
+    '_de', 'de_', 'os_', 'la_', '_la', 'el_', 'es_', '_el', 'que', '_qu', 'ue_', 'ión', 'ció', 'aci', '_en',
+    'as_', 'ara', '_pa', 'par', 'con', '_co', 'los', '_lo', 'del', 'ado', 'una', '_un', 'por', '_po', 'ra_',
+    'ent', 'nte', '_es', 'est', 'ada', 'ien', 'las', '_se', 'mos', 'cóm',
+  ],
+  pt: [
+    '_de', 'de_', 'os_', 'ão_', 'ção', '_co', 'do_', '_do', 'da_', '_da', 'que', '_qu', 'ue_', 'com', 'par',
+    '_pa', 'ões', 'uma', '_um', 'em_', '_em', 'nte', 'ado', 'não', '_nã', 'ara', 'ent', '_se', 'ra_', 'as_',
+    'es_', 'men', 'ica', 'ais', '_pr', 'seu', 'mos', 'vel', 'est', '_es',
+  ],
+  it: [
+    '_di', 'di_', 'la_', '_la', 'che', '_ch', 'to_', 're_', 'ell', 'del', 'ion', 'zio', 'ne_', 'ent', 'le_',
+    'per', '_pe', '_co', 'con', '_il', 'il_', 'lla', 'ato', 'are', 'no_', 'una', '_un', 'gli', '_gl', 'ono',
+    '_so', 'son', 'ere', 'ano', 'nte', 'tto', 'sta', 'ia_', '_in', 'ame',
+  ],
+};
+
+function countMatches(text: string, pattern: RegExp): number {
+  return (text.match(pattern) || []).length;
+}
+
+function detectScript(text: string): LanguageCode | null {
+  const kana = countMatches(text, /[぀-ヿ]/g);
+  const hangul = countMatches(text, /[가-힯]/g);
+  const han = countMatches(text, /[㐀-鿿]/g);
+  const cyrillic = countMatches(text, /[Ѐ-ӿ]/g);
+
+  if (kana >= MIN_SCRIPT_CHARS) return 'ja';
+  if (hangul >= MIN_SCRIPT_CHARS) return 'ko';
+  if (han >= MIN_SCRIPT_CHARS) return 'zh';
+  if (cyrillic >= MIN_SCRIPT_CHARS * 2) return 'ru';
+  return null;
+}
+
+function trigramCounts(text: string): Map<string, number> {
+  const normalized = `_${text.toLowerCase().replace(/[^\p{L}]+/gu, '_')}_`;
+  const counts = new Map<string, number>();
+  for (let i = 0; i <= normalized.length - 3; i++) {
+    const gram = normalized.slice(i, i + 3);
+    if (gram.includes('__')) continue;
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+}
+
+export function detectLanguage(text: string): LanguageGuess {
+  const plain = text.replace(/<[^>]*>/g, ' ').replace(/https?:\/\/\S+/g, ' ');
+
+  const script = detectScript(plain);
+  if (script) return { language: script, confidence: 1 };
+
+  const letters = countMatches(plain, /\p{L}/gu);
+  if (letters < MIN_LATIN_LETTERS) return { language: 'und', confidence: 0 };
+
+  // Function words decide when one language clearly leads
+  const words = plain.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  const hits = (Object.keys(FUNCTION_WORDS) as LatinLanguage[])
+    .map((language) => ({
+      language,
+      hits: words.filter((word) => FUNCTION_WORDS[language].includes(word)).length,
+    }))
+    .sort((a, b) => b.hits - a.hits);
+
+  if (hits[0].hits > 0 && hits[0].hits > hits[1].hits) {
+    const confidence = Number(((hits[0].hits - hits[1].hits) / hits[0].hits).toFixed(2));
+    return { language: hits[0].language, confidence };
+  }
+
+  // Otherwise rank the tied languages (or all of them) by trigram profile
+  const candidates = hits[0].hits > 0
+    ? hits.filter((entry) => entry.hits === hits[0].hits).map((entry) => entry.language)
+    : (Object.keys(TRIGRAM_PROFILES) as LatinLanguage[]);
+
+  const counts = trigramCounts(plain);
+  const scores = candidates.map((language) => {
+    const profile = TRIGRAM_PROFILES[language];
+    let score = 0;
+    profile.forEach((gram, rank) => {
+      const count = counts.get(gram);
+      if (count) score += count * (profile.length - rank);
+    });
+    return { language, score };
+  }).sort((a, b) => b.score - a.score);
+
+  const [best, second] = scores;
+  if (!best || best.score === 0) return { language: 'und', confidence: 0 };
+
+  const confidence = Number(((best.score - (second?.score || 0)) / best.score).toFixed(2));
+  if (confidence < MIN_TRIGRAM_CONFIDENCE && candidates.includes('en')) {
+    return { language: 'en', confidence };
+  }
+  return { language: best.language, confidence };
+}
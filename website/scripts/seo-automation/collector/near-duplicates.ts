@@ -0,0 +1,215 @@
+/**
+ * Near-duplicate clustering - Merges syndicated copies of the same story
+ *
+ * Exact id/URL dedup misses the same post on Dev.to, Hashnode and Google
+ * News. Title+summary are shingled, a 64-bit SimHash prunes the candidate
+ * pairs, and the Jaccard similarity of the shingle sets confirms a match.
+ * Each cluster collapses into its most relevant item, which keeps the other
+ * copies as `alternates` so trend counts see one story with a known spread.
+ */
+
+import crypto from 'crypto';
+import type { CollectedItemAlternate } from '../types.ts';
+
+export interface ClusterableItem {
+  id: string;
+  title: string;
+  url: string;
+  source: string;
+  summary?: string;
+  publishedAt: string;
+  relevanceScore: number;
+  topics: string[];
+  alternates?: CollectedItemAlternate[];
+  spread?: number;
+}
+
+export interface NearDuplicateResult<T> {
+  items: T[];
+  clusters: number;
+  merged: number;
+}
+
+const SIMILARITY_THRESHOLD = Number.parseFloat(process.env.SEO_NEAR_DUP_SIMILARITY || '') || 0.6;
+const MAX_HAMMING_DISTANCE = 16;
+const SHINGLE_SIZE = 2;
+const MIN_TITLE_TOKENS = 4;
+const MIN_TITLE_SIMILARITY = 0.5;
+const CJK_PATTERN = /[぀-ヿ㐀-鿿가-힯]/;
+
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  // Feed summaries often carry raw HTML; markup and image URLs are shared boilerplate
+  const plain = text.replace(/<[^>]*>/g, ' ').replace(/https?:\/\/\S+/g, ' ');
+  for (const word of plain.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+    if (!word) continue;
+    // CJK text has no spaces; fall back to single characters
+    if (CJK_PATTERN.test(word)) tokens.push(...Array.from(word));
+    else tokens.push(word);
+  }
+  return tokens;
+}
+
+function shingle(tokens: string[]): Set<string> {
+  if (tokens.length < SHINGLE_SIZE) return new Set(tokens);
+  const shingles = new Set<string>();
+  for (let i = 0; i <= tokens.length - SHINGLE_SIZE; i++) {
+    shingles.add(tokens.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return shingles;
+}
+
+function hash64(value: string): bigint {
+  return crypto.createHash('sha1').update(value).digest().readBigUInt64BE(0);
+}
+
+export function simhash(shingles: Set<string>): bigint {
+  const weights = new Array<number>(64).fill(0);
+  for (const value of shingles) {
+    const hash = hash64(value);
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (hash >> BigInt(bit)) & 1n ? 1 : -1;
+    }
+  }
+
+  let signature = 0n;
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) signature |= 1n << BigInt(bit);
+  }
+  return signature;
+}
+
+function hammingDistance(a: bigint, b: bigint): number {
+  let diff = a ^ b;
+  let count = 0;
+  while (diff) {
+    diff &= diff - 1n;
+    count++;
+  }
+  return count;
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let intersection = 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  for (const value of small) {
+    if (large.has(value)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+interface Fingerprint {
+  title: string;
+  titleTokens: number;
+  titleSet: Set<string>;
+  shingles: Set<string>;
+  signature: bigint;
+}
+
+function fingerprint(item: ClusterableItem): Fingerprint {
+  const titleTokens = tokenize(item.title);
+  const shingles = shingle([...titleTokens, ...tokenize(item.summary || '')]);
+  return {
+    title: titleTokens.join(' '),
+    titleTokens: titleTokens.length,
+    titleSet: new Set(titleTokens),
+    shingles,
+    signature: simhash(shingles),
+  };
+}
+
+function isNearDuplicate(a: Fingerprint, b: Fingerprint): boolean {
+  // Syndicated copies often keep the headline but rewrite the teaser
+  if (a.title === b.title && a.titleTokens >= MIN_TITLE_TOKENS) return true;
+  if (hammingDistance(a.signature, b.signature) > MAX_HAMMING_DISTANCE) return false;
+  // Shared templates and boilerplate teasers must not merge unrelated headlines
+  if (jaccard(a.titleSet, b.titleSet) < MIN_TITLE_SIMILARITY) return false;
+  return jaccard(a.shingles, b.shingles) >= SIMILARITY_THRESHOLD;
+}
+
+function pickCanonical<T extends ClusterableItem>(cluster: T[]): T {
+  return cluster.reduce((best, item) => {
+    if (item.relevanceScore !== best.relevanceScore) {
+      return item.relevanceScore > best.relevanceScore ? item : best;
+    }
+    // Prefer the earliest copy as the original publication
+    return new Date(item.publishedAt).getTime() < new Date(best.publishedAt).getTime() ? item : best;
+  });
+}
+
+function mergeCluster<T extends ClusterableItem>(cluster: T[]): T {
+  const canonical = pickCanonical(cluster);
+  const alternates = new Map<string, CollectedItemAlternate>();
+
+  for (const item of cluster) {
+    const copies: CollectedItemAlternate[] = [
+      { id: item.id, url: item.url, source: item.source, publishedAt: item.publishedAt },
+      ...(item.alternates || []),
+    ];
+    for (const copy of copies) {
+      if (copy.url === canonical.url || alternates.has(copy.url)) continue;
+      alternates.set(copy.url, copy);
+    }
+  }
+
+  const summaries = cluster.map((item) => item.summary || '').filter(Boolean);
+
+  return {
+    ...canonical,
+    summary: canonical.summary || summaries.sort((a, b) => b.length - a.length)[0] || undefined,
+    topics: Array.from(new Set(cluster.flatMap((item) => item.topics))),
+    alternates: alternates.size > 0 ? Array.from(alternates.values()) : undefined,
+    spread: 1 + alternates.size,
+  };
+}
+
+/**
+ * Collapse near-duplicate items into one canonical item per story.
+ * Order follows the first member of each cluster in the input.
+ */
+export function mergeNearDuplicates<T extends ClusterableItem>(items: T[]): NearDuplicateResult<T> {
+  const fingerprints = items.map(fingerprint);
+  const parent = items.map((_, index) => index);
+
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (find(i) === find(j)) continue;
+      if (isNearDuplicate(fingerprints[i], fingerprints[j])) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const clusters = new Map<number, T[]>();
+  items.forEach((item, index) => {
+    const root = find(index);
+    const cluster = clusters.get(root) || [];
+    cluster.push(item);
+    clusters.set(root, cluster);
+  });
+
+  const merged: T[] = [];
+  let mergedCount = 0;
+  let clusterCount = 0;
+
+  for (const cluster of clusters.values()) {
+    if (cluster.length === 1) {
+      merged.push(cluster[0]);
+      continue;
+    }
+    clusterCount++;
+    mergedCount += cluster.length - 1;
+    merged.push(mergeCluster(cluster));
+  }
+
+  return { items: merged, clusters: clusterCount, merged: mergedCount };
+}
@@ -0,0 +1,419 @@
+/**
+ * Response parsers - Typed, validated views of third-party API responses
+ *
+ * Each parser takes the decoded JSON (or parsed XML) of one response and
+ * returns typed entries plus one warning per malformed entry, naming the
+ * fields that were wrong. Entries without an id, title, link or a usable
+ * date are skipped; entries with a bad optional field are kept without it.
+ * Adapters forward the warnings so the collector can count them per source.
+ */
+
+export type ResponseFormat = 'hn-algolia' | 'devto' | 'reddit' | 'lobsters' | 'feed' | 'mastodon' | 'bluesky';
+
+export interface ParseWarning {
+  format: ResponseFormat;
+  // Position of the entry in the response; -1 when the response itself has the wrong shape
+  index: number;
+  id?: string;
+  problems: string[];
+  skipped: boolean;
+}
+
+export interface ParseResult<T> {
+  entries: T[];
+  warnings: ParseWarning[];
+}
+
+export interface HnHit {
+  objectId: string;
+  title: string;
+  url?: string;
+  storyText?: string;
+  createdAt: string;
+}
+
+export interface DevtoArticle {
+  id: number;
+  title: string;
+  url: string;
+  description?: string;
+  publishedAt: string;
+}
+
+export interface RedditPost {
+  id: string;
+  title: string;
+  permalink: string;
+  selftext?: string;
+  createdAt: string;
+  over18: boolean;
+}
+
+export interface LobstersStory {
+  shortId: string;
+  title: string;
+  url: string;
+  description?: string;
+  createdAt: string;
+}
+
+export interface FeedEntry {
+  kind: 'rss' | 'atom' | 'rdf';
+  title: string;
+  link: string;
+  guid?: string;
+  summary?: string;
+  content?: string;
+  // Missing or unparseable dates fall back to the collection time
+  publishedAt: string;
+}
+
+export interface MastodonStatus {
+  uri: string;
+  url?: string;
+  content: string;
+  spoilerText: string;
+  sensitive: boolean;
+  visibility: string;
+  createdAt: string;
+  card?: { title: string; description?: string };
+}
+
+export interface BlueskyPost {
+  uri: string;
+  handle: string;
+  text: string;
+  createdAt: string;
+  labels: string[];
+  external?: { title: string; description?: string };
+}
+
+type JsonRecord = Record<string, unknown>;
+
+const MAX_QUOTED_VALUE = 40;
+
+function isRecord(value: unknown): value is JsonRecord {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function quote(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+  return `"${text.length > MAX_QUOTED_VALUE ? `${text.slice(0, MAX_QUOTED_VALUE)}…` : text}"`;
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function requiredString(record: JsonRecord, key: string, problems: string[]): string | undefined {
+  const value = record[key];
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  problems.push(isMissing(value) || typeof value === 'string' ? `missing ${key}` : `${key} is not a string`);
+  return undefined;
+}
+
+function optionalString(record: JsonRecord, key: string, problems: string[]): string | undefined {
+  const value = record[key];
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (!isMissing(value)) problems.push(`${key} is not a string`);
+  return undefined;
+}
+
+function optionalBoolean(record: JsonRecord, key: string, problems: string[]): boolean {
+  const value = record[key];
+  if (typeof value === 'boolean') return value;
+  if (!isMissing(value)) problems.push(`${key} is not a boolean`);
+  return false;
+}
+
+/** ISO timestamps, RFC 822 dates and Unix seconds, normalized to ISO */
+function toIsoDate(value: unknown): string | undefined {
+  if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+    return new Date(value * 1000).toISOString();
+  }
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const date = new Date(value.trim());
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function requiredDate(record: JsonRecord, key: string, problems: string[]): string | undefined {
+  const value = record[key];
+  const date = toIsoDate(value);
+  if (!date) problems.push(isMissing(value) ? `missing ${key}` : `invalid ${key} ${quote(value)}`);
+  return date;
+}
+
+function httpUrl(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function requiredUrl(record: JsonRecord, key: string, problems: string[]): string | undefined {
+  const value = record[key];
+  const url = httpUrl(value);
+  if (!url) problems.push(isMissing(value) ? `missing ${key}` : `invalid ${key} ${quote(value)}`);
+  return url;
+}
+
+function optionalUrl(record: JsonRecord, key: string, problems: string[]): string | undefined {
+  const value = record[key];
+  const url = httpUrl(value);
+  if (!url && !isMissing(value)) problems.push(`invalid ${key} ${quote(value)}`);
+  return url;
+}
+
+function shapeWarning<T>(format: ResponseFormat, expected: string, payload: unknown): ParseResult<T> {
+  const actual = Array.isArray(payload) ? 'an array' : payload === null ? 'null' : typeof payload === 'object' ? 'an object' : typeof payload;
+  return {
+    entries: [],
+    warnings: [{ format, index: -1, problems: [`expected ${expected}, got ${actual}`], skipped: true }],
+  };
+}
+
+/**
+ * Run an entry parser over a list. It returns null to skip the entry and
+ * adds a problem for every field it had to drop or could not read.
+ */
+function parseEntries<T>(
+  format: ResponseFormat,
+  list: unknown[],
+  idKey: string,
+  parseEntry: (record: JsonRecord, problems: string[]) => T | null
+): ParseResult<T> {
+  const result: ParseResult<T> = { entries: [], warnings: [] };
+
+  list.forEach((raw, index) => {
+    const problems: string[] = [];
+    const entry = isRecord(raw) ? parseEntry(raw, problems) : null;
+    if (!isRecord(raw)) problems.push('entry is not an object');
+
+    if (problems.length > 0) {
+      const id = isRecord(raw) && (typeof raw[idKey] === 'string' || typeof raw[idKey] === 'number') ? String(raw[idKey]) : undefined;
+      result.warnings.push({ format, index, id, problems, skipped: entry === null });
+    }
+    if (entry) result.entries.push(entry);
+  });
+
+  return result;
+}
+
+/** HN Algolia search: { hits: [...] } */
+export function parseHnSearch(payload: unknown): ParseResult<HnHit> {
+  if (!isRecord(payload) || !Array.isArray(payload.hits)) return shapeWarning('hn-algolia', '{ hits: [...] }', payload);
+
+  return parseEntries('hn-algolia', payload.hits, 'objectID', (hit, problems) => {
+    const objectId = requiredString(hit, 'objectID', problems);
+    const title = requiredString(hit, 'title', problems);
+    const createdAt = hit.created_at === undefined && typeof hit.created_at_i === 'number'
+      ? toIsoDate(hit.created_at_i)
+      : requiredDate(hit, 'created_at', problems);
+    // Ask HN and Show HN posts have no url; the discussion page stands in
+    const url = optionalUrl(hit, 'url', problems);
+    const storyText = optionalString(hit, 'story_text', problems);
+
+    if (!objectId || !title || !createdAt) return null;
+    return { objectId, title, url, storyText, createdAt };
+  });
+}
+
+/** Dev.to articles: [...] */
+export function parseDevtoArticles(payload: unknown): ParseResult<DevtoArticle> {
+  if (!Array.isArray(payload)) return shapeWarning('devto', 'an array of articles', payload);
+
+  return parseEntries('devto', payload, 'id', (article, problems) => {
+    const id = typeof article.id === 'number' && Number.isInteger(article.id) ? article.id : undefined;
+    if (id === undefined) problems.push(isMissing(article.id) ? 'missing id' : `invalid id ${quote(article.id)}`);
+    const title = requiredString(article, 'title', problems);
+    const url = requiredUrl(article, 'url', problems);
+    const publishedAt = requiredDate(article, 'published_at', problems);
+    const description = optionalString(article, 'description', problems);
+
+    if (id === undefined || !title || !url || !publishedAt) return null;
+    return { id, title, url, description, publishedAt };
+  });
+}
+
+/** Reddit listing: { data: { children: [{ kind, data }] } } */
+export function parseRedditListing(payload: unknown): ParseResult<RedditPost> {
+  const children = isRecord(payload) && isRecord(payload.data) ? payload.data.children : undefined;
+  if (!Array.isArray(children)) return shapeWarning('reddit', '{ data: { children: [...] } }', payload);
+
+  // Unwrap { kind, data } so the warnings name the post's own fields
+  const posts = children.map((child) => (isRecord(child) && isRecord(child.data) ? child.data : child));
+  return parseEntries('reddit', posts, 'id', (post, problems) => {
+    const id = requiredString(post, 'id', problems);
+    const title = requiredString(post, 'title', problems);
+    const permalink = requiredString(post, 'permalink', problems);
+    if (permalink && !permalink.startsWith('/')) problems.push(`invalid permalink ${quote(permalink)}`);
+    const createdAt = requiredDate(post, 'created_utc', problems);
+    const selftext = optionalString(post, 'selftext', problems);
+    const over18 = optionalBoolean(post, 'over_18', problems);
+
+    if (!id || !title || !permalink?.startsWith('/') || !createdAt) return null;
+    return { id, title, permalink, selftext, createdAt, over18 };
+  });
+}
+
+/** Lobsters story list: [...] */
+export function parseLobstersStories(payload: unknown): ParseResult<LobstersStory> {
+  if (!Array.isArray(payload)) return shapeWarning('lobsters', 'an array of stories', payload);
+
+  return parseEntries('lobsters', payload, 'short_id', (story, problems) => {
+    const shortId = requiredString(story, 'short_id', problems);
+    const title = requiredString(story, 'title', problems);
+    const createdAt = requiredDate(story, 'created_at', problems);
+    const description = optionalString(story, 'description', problems);
+    // Text posts link to their comments page
+    const url = optionalUrl(story, 'url', problems) || requiredUrl(story, 'comments_url', problems);
+
+    if (!shortId || !title || !url || !createdAt) return null;
+    return { shortId, title, url, description, createdAt };
+  });
+}
+
+/** Text of a feed element; elements with attributes keep it under '#text' */
+export function normalizeText(value: unknown): string {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number') return String(value);
+  if (isRecord(value)) {
+    const inner = 'value' in value ? value.value : value['#text'];
+    return typeof inner === 'string' ? inner.trim() : '';
+  }
+  return '';
+}
+
+function toArray(value: unknown): unknown[] {
+  if (value === undefined || value === null || value === '') return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/** RSS <link>text</link> or the Atom <link href> with rel="alternate" (or no rel) */
+function resolveEntryLink(entry: JsonRecord): string {
+  const links = toArray(entry.link);
+  const hrefs = links.map((link) => {
+    if (typeof link === 'string') return { href: link, rel: 'alternate' };
+    if (isRecord(link)) return { href: typeof link.href === 'string' ? link.href : normalizeText(link), rel: typeof link.rel === 'string' ? link.rel : 'alternate' };
+    return { href: '', rel: '' };
+  }).filter((link) => link.href);
+  return (hrefs.find((link) => link.rel === 'alternate') || hrefs[0])?.href.trim() || '';
+}
+
+/**
+ * An RSS 2.0, Atom or RSS 1.0 (RDF) document as parsed by fast-xml-parser.
+ * The root element decides the format instead of guessing from the entries.
+ */
+export function parseFeedDocument(document: unknown, collectedAt = new Date().toISOString()): ParseResult<FeedEntry> {
+  if (!isRecord(document)) return shapeWarning('feed', 'an RSS, Atom or RDF document', document);
+
+  let kind: FeedEntry['kind'];
+  let rawEntries: unknown[];
+  if (isRecord(document.rss)) {
+    kind = 'rss';
+    rawEntries = isRecord(document.rss.channel) ? toArray(document.rss.channel.item) : [];
+  } else if (isRecord(document.feed)) {
+    kind = 'atom';
+    rawEntries = toArray(document.feed.entry);
+  } else if (isRecord(document['rdf:RDF'])) {
+    kind = 'rdf';
+    rawEntries = toArray(document['rdf:RDF'].item);
+  } else {
+    const root = Object.keys(document).filter((key) => key !== '?xml')[0];
+    return {
+      entries: [],
+      warnings: [{ format: 'feed', index: -1, problems: [`expected <rss>, <feed> or <rdf:RDF>, got ${root ? `<${root}>` : 'an empty document'}`], skipped: true }],
+    };
+  }
+
+  return parseEntries('feed', rawEntries, kind === 'atom' ? 'id' : 'guid', (entry, problems) => {
+    const title = normalizeText(entry.title);
+    if (!title) problems.push('missing title');
+
+    const rawLink = resolveEntryLink(entry);
+    const link = httpUrl(rawLink);
+    if (!link) problems.push(rawLink ? `invalid link ${quote(rawLink)}` : 'missing link');
+
+    const rawDate = entry.pubDate ?? entry.published ?? entry.updated ?? entry['dc:date'];
+    let publishedAt = toIsoDate(normalizeText(rawDate));
+    if (!publishedAt) {
+      problems.push(isMissing(rawDate) ? 'missing date, using the collection time' : `invalid date ${quote(normalizeText(rawDate) || rawDate)}, using the collection time`);
+      publishedAt = collectedAt;
+    }
+
+    if (!title || !link) return null;
+    return {
+      kind,
+      title,
+      link,
+      guid: normalizeText(entry.guid ?? entry.id) || undefined,
+      summary: normalizeText(entry.summary ?? entry.description) || undefined,
+      content: normalizeText(entry['content:encoded'] ?? entry.content) || undefined,
+      publishedAt,
+    };
+  });
+}
+
+/** Mastodon statuses: [...]; reblogs are unwrapped to the original post */
+export function parseMastodonStatuses(payload: unknown): ParseResult<MastodonStatus> {
+  if (!Array.isArray(payload)) return shapeWarning('mastodon', 'an array of statuses', payload);
+
+  const statuses = payload.map((status) => (isRecord(status) && isRecord(status.reblog) ? status.reblog : status));
+  return parseEntries('mastodon', statuses, 'id', (status, problems) => {
+    const uri = requiredString(status, 'uri', problems);
+    const createdAt = requiredDate(status, 'created_at', problems);
+    const url = optionalUrl(status, 'url', problems);
+    const content = optionalString(status, 'content', problems) || '';
+    const spoilerText = optionalString(status, 'spoiler_text', problems) || '';
+    const sensitive = optionalBoolean(status, 'sensitive', problems);
+    const visibility = optionalString(status, 'visibility', problems) || 'public';
+
+    let card: MastodonStatus['card'];
+    if (isRecord(status.card)) {
+      const title = optionalString(status.card, 'title', problems);
+      if (title) card = { title, description: optionalString(status.card, 'description', problems) };
+    }
+
+    if (!uri || !createdAt) return null;
+    return { uri, url, content, spoilerText, sensitive, visibility, createdAt, card };
+  });
+}
+
+/** Bluesky app.bsky.feed.searchPosts: { posts: [...] } */
+export function parseBlueskySearch(payload: unknown): ParseResult<BlueskyPost> {
+  if (!isRecord(payload) || !Array.isArray(payload.posts)) return shapeWarning('bluesky', '{ posts: [...] }', payload);
+
+  return parseEntries('bluesky', payload.posts, 'uri', (post, problems) => {
+    const uri = requiredString(post, 'uri', problems);
+    if (uri && !uri.startsWith('at://')) problems.push(`invalid uri ${quote(uri)}`);
+
+    const author = isRecord(post.author) ? post.author : {};
+    const handle = optionalString(author, 'handle', problems) || optionalString(author, 'did', problems);
+    if (!handle) problems.push('missing author.handle');
+
+    const record = isRecord(post.record) ? post.record : {};
+    if (!isRecord(post.record)) problems.push('missing record');
+    const text = optionalString(record, 'text', problems) || '';
+    // Clients set createdAt themselves; the AppView's indexedAt is the fallback
+    const createdAt = toIsoDate(record.createdAt) || requiredDate(post, 'indexedAt', problems);
+
+    const labelValues = [
+      ...toArray(post.labels),
+      ...(isRecord(record.labels) ? toArray(record.labels.values) : []),
+    ];
+    const labels = labelValues.flatMap((label) => (isRecord(label) && typeof label.val === 'string' ? [label.val] : []));
+
+    const embed = isRecord(post.embed) ? post.embed : isRecord(record.embed) ? record.embed : undefined;
+    let external: BlueskyPost['external'];
+    if (embed && isRecord(embed.external)) {
+      const title = optionalString(embed.external, 'title', problems);
+      if (title) external = { title, description: optionalString(embed.external, 'description', problems) };
+    }
+
+    if (!uri?.startsWith('at://') || !handle || !createdAt) return null;
+    return { uri, handle, text, createdAt, labels, external };
+  });
+}
@@ -0,0 +1,108 @@
+/**
+ * Source Registry - Loads collector sources from data/config/sources.json
+ *
+ * Editors add, mute or re-weight feeds by editing the JSON file; the
+ * collector never needs a code change for a new feed of a known adapter type.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { CollectedArticle } from '../types.ts';
+import { getAdapter, listAdapterTypes } from './adapters.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export type SourceCategory = NonNullable<CollectedArticle['contentType']>;
+
+export interface SourceDefinition {
+  id: string;
+  name: string;
+  adapter: string;
+  url: string;
+  category: SourceCategory;
+  weight: number;
+  enabled: boolean;
+  minRelevance?: number;
+  options?: Record<string, unknown>;
+}
+
+interface SourceRegistryFile {
+  sources: unknown[];
+}
+
+export const SOURCES_FILE = process.env.SEO_SOURCES_FILE
+  || path.join(__dirname, '..', '..', '..', 'data', 'config', 'sources.json');
+
+const CATEGORIES: SourceCategory[] = ['news', 'article', 'case-study', 'feedback', 'community'];
+
+function validateSource(raw: unknown, index: number): { source?: SourceDefinition; error?: string } {
+  if (!raw || typeof raw !== 'object') {
+    return { error: `entry #${index} is not an object` };
+  }
+
+  const entry = raw as Record<string, unknown>;
+  const label = typeof entry.id === 'string' && entry.id ? entry.id : `#${index}`;
+
+  if (typeof entry.id !== 'string' || !entry.id.trim()) {
+    return { error: `entry ${label} is missing "id"` };
+  }
+  if (typeof entry.adapter !== 'string' || !getAdapter(entry.adapter)) {
+    return { error: `entry ${label} has unknown adapter "${String(entry.adapter)}" (known: ${listAdapterTypes().join(', ')})` };
+  }
+  if (typeof entry.url !== 'string' || !/^https?:\/\//.test(entry.url)) {
+    return { error: `entry ${label} needs an http(s) "url"` };
+  }
+  if (typeof entry.category !== 'string' || !CATEGORIES.includes(entry.category as SourceCategory)) {
+    return { error: `entry ${label} has invalid category "${String(entry.category)}"` };
+  }
+  if (entry.weight !== undefined && (typeof entry.weight !== 'number' || entry.weight < 0)) {
+    return { error: `entry ${label} has invalid weight` };
+  }
+  if (entry.options !== undefined && (typeof entry.options !== 'object' || entry.options === null || Array.isArray(entry.options))) {
+    return { error: `entry ${label} has invalid options` };
+  }
+
+  return {
+    source: {
+      id: entry.id,
+      name: typeof entry.name === 'string' && entry.name ? entry.name : entry.id,
+      adapter: entry.adapter,
+      url: entry.url,
+      category: entry.category as SourceCategory,
+      weight: typeof entry.weight === 'number' ? entry.weight : 1,
+      enabled: entry.enabled !== false,
+      minRelevance: typeof entry.minRelevance === 'number' ? entry.minRelevance : undefined,
+      options: entry.options as Record<string, unknown> | undefined,
+    },
+  };
+}
+
+export async function loadSourceRegistry(filePath = SOURCES_FILE): Promise<SourceDefinition[]> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  const parsed = JSON.parse(content) as SourceRegistryFile;
+
+  if (!parsed || !Array.isArray(parsed.sources)) {
+    throw new Error(`Source registry ${filePath} must contain a "sources" array`);
+  }
+
+  const sources: SourceDefinition[] = [];
+  const seenIds = new Set<string>();
+
+  parsed.sources.forEach((raw, index) => {
+    const { source, error } = validateSource(raw, index);
+    if (!source) {
+      console.warn(`⚠️ Skipping source registry ${error}`);
+      return;
+    }
+    if (seenIds.has(source.id)) {
+      console.warn(`⚠️ Skipping duplicate source id "${source.id}"`);
+      return;
+    }
+    seenIds.add(source.id);
+    sources.push(source);
+  });
+
+  return sources;
+}
@@ -0,0 +1,191 @@
+/**
+ * Release notes - Structured notes from the project's GitHub releases feed
+ *
+ * The github-releases adapter hands every feed entry to parseReleaseNotes,
+ * which reads the rendered notes section by section: list items under a
+ * "Breaking" heading (or tagged BREAKING) become breaking changes, CLI
+ * invocations in code spans on "added"/"new" lines become new commands.
+ * Notes are kept per version in data/knowledge-base/releases.json so the
+ * trending generator can write "What's new in OpenClaw vX.Y" articles.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { ReleaseNote } from '../types.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const RELEASES_FILE = path.join(__dirname, '..', '..', '..', 'data', 'knowledge-base', 'releases.json');
+
+const CLI_NAMES = ['openclaw', 'clawdbot', 'moltbot'];
+const MAX_HIGHLIGHTS = 8;
+
+const VERSION_PATTERN = /\bv?(\d+\.\d+(?:\.\d+)?(?:-[0-9A-Za-z.]+)?)\b/;
+const BREAKING_HEADING = /breaking|migration|upgrade notes|⚠/i;
+const BREAKING_MARKER = /^(?:⚠️?\s*)?(?:\*\*)?breaking(?: change)?s?(?:\*\*)?\s*[:!-]\s*/i;
+const ADDED_HEADING = /\b(added|new|features?|highlights?|what's new)\b/i;
+const ADDED_LINE = /\b(add(?:ed|s)?|new|introduc\w*)\b/i;
+const HIGHLIGHT_HEADING = /\b(added|new|features?|highlights?|what's new|changed|changes|improvements?|fixe[sd]|bug ?fixes)\b/i;
+
+export interface ReleaseNotesFile {
+  lastUpdated: string;
+  releases: ReleaseNote[];
+}
+
+interface ReleaseEntry {
+  title: string;
+  url: string;
+  html: string;
+  publishedAt: string;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Flatten rendered release HTML (or markdown) into markdown-like lines:
+ * headings keep a "#" prefix, list items a "-" prefix, code spans backticks.
+ */
+function toLines(body: string): string[] {
+  const text = body
+    .replace(/<code[^>]*>([\s\S]*?)<\/code>/gi, '`$1`')
+    .replace(/<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/gi, '\n# $1\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(li|p|div|pre|ul|ol)>|<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+export function parseVersion(text: string): string | null {
+  const match = text.match(VERSION_PATTERN);
+  return match ? match[1] : null;
+}
+
+/** "1.4.2" -> "1.4", the granularity of a "What's new" article */
+export function minorVersion(version: string): string {
+  return version.split(/[.-]/).slice(0, 2).join('.');
+}
+
+function extractCommands(line: string): string[] {
+  const commands: string[] = [];
+  for (const match of line.matchAll(/`([^`]+)`/g)) {
+    const words = match[1].trim().split(/\s+/);
+    if (!CLI_NAMES.includes(words[0]?.toLowerCase())) continue;
+
+    // Keep the command path, drop flags and arguments
+    const commandPath = [words[0].toLowerCase()];
+    for (const word of words.slice(1, 3)) {
+      if (!/^[a-z][\w:-]*$/.test(word)) break;
+      commandPath.push(word);
+    }
+    if (commandPath.length > 1) commands.push(commandPath.join(' '));
+  }
+  return commands;
+}
+
+export function parseReleaseNotes(entry: ReleaseEntry): ReleaseNote {
+  const tagFromUrl = entry.url.match(/\/releases\/tag\/([^/?#]+)/)?.[1];
+  const tag = tagFromUrl ? decodeURIComponent(tagFromUrl) : entry.title;
+  const version = parseVersion(tag) || parseVersion(entry.title) || tag;
+
+  const breakingChanges: string[] = [];
+  const newCommands = new Set<string>();
+  const highlights: string[] = [];
+  let section = '';
+
+  for (const line of toLines(entry.html)) {
+    if (line.startsWith('#')) {
+      section = line.replace(/^#+\s*/, '');
+      continue;
+    }
+
+    const isListItem = line.startsWith('- ') || line.startsWith('* ');
+    const text = line.replace(/^[-*]\s+/, '');
+
+    const isBreaking = BREAKING_MARKER.test(text) || (isListItem && BREAKING_HEADING.test(section));
+    if (isBreaking) {
+      breakingChanges.push(text.replace(BREAKING_MARKER, ''));
+    }
+
+    if (ADDED_HEADING.test(section) || ADDED_LINE.test(text)) {
+      for (const command of extractCommands(text)) newCommands.add(command);
+    }
+
+    if (isListItem && !isBreaking && HIGHLIGHT_HEADING.test(section) && highlights.length < MAX_HIGHLIGHTS) {
+      highlights.push(text);
+    }
+  }
+
+  return {
+    version,
+    tag,
+    title: entry.title,
+    url: entry.url,
+    publishedAt: entry.publishedAt,
+    breakingChanges,
+    newCommands: Array.from(newCommands),
+    highlights,
+    prerelease: /-(alpha|beta|rc|pre|canary|next)/i.test(version),
+  };
+}
+
+// Release-note bullets usually end in a period; drop it before joining them
+function withoutTrailingPunctuation(text: string): string {
+  return text.replace(/[\s.;:,]+$/, '');
+}
+
+export function summarizeRelease(note: ReleaseNote): string {
+  const parts: string[] = [];
+  if (note.breakingChanges.length > 0) {
+    parts.push(`Breaking: ${note.breakingChanges.slice(0, 2).map(withoutTrailingPunctuation).join('; ')}`);
+  }
+  if (note.newCommands.length > 0) parts.push(`New commands: ${note.newCommands.join(', ')}`);
+  if (note.highlights.length > 0) parts.push(note.highlights.slice(0, 3).map(withoutTrailingPunctuation).join('; '));
+  return parts.join('. ');
+}
+
+export async function loadReleaseNotes(filePath = RELEASES_FILE): Promise<ReleaseNotesFile> {
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const parsed = JSON.parse(content) as ReleaseNotesFile;
+    return { lastUpdated: parsed.lastUpdated || '', releases: parsed.releases || [] };
+  } catch {
+    return { lastUpdated: '', releases: [] };
+  }
+}
+
+/**
+ * Add or refresh notes by version (release notes get edited after
+ * publishing) and keep the newest release first. Returns the versions
+ * that were not known before.
+ */
+export function mergeReleaseNotes(file: ReleaseNotesFile, notes: ReleaseNote[]): string[] {
+  const byVersion = new Map(file.releases.map((note) => [note.version, note]));
+  const added: string[] = [];
+
+  for (const note of notes) {
+    if (!byVersion.has(note.version)) added.push(note.version);
+    byVersion.set(note.version, note);
+  }
+
+  file.releases = Array.from(byVersion.values())
+    .sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
+  return added;
+}
+
+export async function saveReleaseNotes(file: ReleaseNotesFile, filePath = RELEASES_FILE): Promise<void> {
+  file.lastUpdated = new Date().toISOString();
+  await fs.writeFile(filePath, JSON.stringify(file, null, 2));
+}
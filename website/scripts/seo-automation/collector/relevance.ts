@@ -0,0 +1,312 @@
+/**
+ * Relevance scoring - BM25F against an "ideal document" profile
+ *
+ * The profile is built from our own published articles plus
+ * CLAWDBOT_KNOWLEDGE: terms we write about often, weighted by how rare they
+ * are in the collected corpus, so "workflow" and "automation" count for
+ * little while "gateway", "telegram bot" or "openclaw" count for a lot.
+ * Collected items are scored with BM25F (per-field length normalization and
+ * configurable title/summary/content weights) and calibrated so that a
+ * typical article of ours lands at 80.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { CLAWDBOT_KNOWLEDGE } from '../../clawdbot-knowledge-base.js';
+import type { RelevanceExplanation } from '../types.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const ARTICLES_DIR = path.join(__dirname, '..', '..', '..', 'src', 'content', 'articles');
+
+function parseWeight(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseFloat(value || '');
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export const FIELD_WEIGHTS = {
+  title: parseWeight(process.env.SEO_RELEVANCE_TITLE_WEIGHT, 3),
+  summary: parseWeight(process.env.SEO_RELEVANCE_SUMMARY_WEIGHT, 1),
+  content: parseWeight(process.env.SEO_RELEVANCE_CONTENT_WEIGHT, 0.5),
+};
+
+type Field = keyof typeof FIELD_WEIGHTS;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const PROFILE_SIZE = 200;
+const MIN_PROFILE_SHARE = 0.02;
+const SEED_TERM_WEIGHT = 0.5;
+const BRAND_TERM_WEIGHT = 2;
+const CALIBRATION_SCORE = 80;
+const EXPLANATION_TERMS = 5;
+
+// Typical field lengths in tokens, used for BM25 length normalization
+const AVERAGE_FIELD_LENGTH: Record<Field, number> = {
+  title: 10,
+  summary: 40,
+  content: 400,
+};
+
+export const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did',
+  'will', 'would', 'could', 'should', 'may', 'might', 'can', 'to', 'of', 'in', 'for', 'on', 'with', 'at', 'by',
+  'from', 'as', 'into', 'about', 'than', 'then', 'so', 'if', 'or', 'and', 'but', 'not', 'no', 'it', 'its', 'this',
+  'that', 'these', 'those', 'you', 'your', 'we', 'our', 'they', 'their', 'i', 'my', 'me', 'he', 'she', 'his', 'her',
+  'what', 'which', 'who', 'when', 'where', 'why', 'how', 'all', 'any', 'each', 'more', 'most', 'other', 'some',
+  'such', 'only', 'own', 'same', 'too', 'very', 'just', 'also', 'via', 'up', 'out', 'over', 'new', 'use', 'using',
+  'get', 'one', 'two', 'like', 'make', 'need', 'want', 'here', 'there', 'now', 'even', 'every', 'without',
+]);
+
+const CJK_PATTERN = /[぀-ヿ㐀-鿿가-힯]/;
+
+export interface RelevanceInput {
+  title: string;
+  summary?: string;
+  content?: string;
+  language?: string;
+}
+
+export interface RelevanceScorerOptions {
+  // Curated keywords per language, added to the query at a fixed weight
+  seedTerms?: (language: string) => string[];
+  // Our own product names; the ideal document is about these above all
+  brandTerms?: string[];
+}
+
+export interface RelevanceScorer {
+  score(input: RelevanceInput): RelevanceExplanation;
+  profileTerms(limit?: number): { term: string; weight: number }[];
+}
+
+/**
+ * Unigrams plus adjacent bigrams for Latin text; CJK runs become character
+ * bigrams since they carry no word separators.
+ */
+export function tokenize(text: string): string[] {
+  const plain = text.toLowerCase().replace(/<[^>]*>/g, ' ').replace(/https?:\/\/\S+/g, ' ');
+  const tokens: string[] = [];
+  let previous: string | null = null;
+
+  for (const word of plain.split(/[^\p{L}\p{N}]+/u)) {
+    if (!word) {
+      continue;
+    }
+    if (CJK_PATTERN.test(word)) {
+      const chars = Array.from(word);
+      if (chars.length === 1) tokens.push(word);
+      for (let i = 0; i < chars.length - 1; i++) tokens.push(chars[i] + chars[i + 1]);
+      previous = null;
+      continue;
+    }
+    if (STOP_WORDS.has(word) || word.length < 2 || /^\d+$/.test(word)) {
+      previous = null;
+      continue;
+    }
+    tokens.push(word);
+    if (previous) tokens.push(`${previous} ${word}`);
+    previous = word;
+  }
+
+  return tokens;
+}
+
+function termFrequencies(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) counts.set(token, (counts.get(token) || 0) + 1);
+  return counts;
+}
+
+function collectStrings(value: unknown, output: string[]): void {
+  if (typeof value === 'string') output.push(value);
+  else if (Array.isArray(value)) value.forEach((entry) => collectStrings(entry, output));
+  else if (value && typeof value === 'object') Object.values(value).forEach((entry) => collectStrings(entry, output));
+}
+
+interface ArticleProfile {
+  title: string;
+  description: string;
+  keywords: string;
+}
+
+function frontmatterField(frontmatter: string, key: string): string {
+  const value = frontmatter.match(new RegExp(`^${key}:\\s*(.+)$`, 'm'))?.[1] || '';
+  return value.replace(/^["']|["']$/g, '').replace(/[[\]"]/g, ' ');
+}
+
+/**
+ * Article bodies share a lot of template prose, so only the frontmatter
+ * (what each article is about) feeds the profile.
+ */
+async function loadArticleProfiles(): Promise<ArticleProfile[]> {
+  try {
+    const files = (await fs.readdir(ARTICLES_DIR)).filter((file) => /\.(md|mdx)$/.test(file));
+    const profiles: ArticleProfile[] = [];
+    for (const file of files) {
+      const raw = await fs.readFile(path.join(ARTICLES_DIR, file), 'utf-8');
+      const frontmatter = raw.match(/^---\n([\s\S]*?)\n---/)?.[1] || '';
+      const title = frontmatterField(frontmatter, 'title');
+      if (!title) continue;
+      profiles.push({
+        title,
+        description: frontmatterField(frontmatter, 'description'),
+        keywords: `${frontmatterField(frontmatter, 'keywords')} ${frontmatterField(frontmatter, 'tags')}`,
+      });
+    }
+    return profiles;
+  } catch {
+    return [];
+  }
+}
+
+function knowledgeDocuments(): string[] {
+  // One document per top-level section so the knowledge base does not count as a single vote
+  return Object.values(CLAWDBOT_KNOWLEDGE).map((section) => {
+    const strings: string[] = [];
+    collectStrings(section, strings);
+    return strings.join(' ');
+  });
+}
+
+/**
+ * Build a scorer whose IDF comes from the collected corpus (what is common
+ * out there) and whose query comes from our own writing (what we care about).
+ */
+export async function createRelevanceScorer(
+  corpus: RelevanceInput[],
+  options: RelevanceScorerOptions = {}
+): Promise<RelevanceScorer> {
+  const { seedTerms = () => [], brandTerms = [] } = options;
+  const articles = await loadArticleProfiles();
+  const profileDocuments = [
+    ...articles.map((article) => `${article.title} ${article.description} ${article.keywords}`),
+    ...knowledgeDocuments(),
+  ].map((text) => termFrequencies(tokenize(text)));
+  const corpusDocuments = corpus.map((item) => new Set(tokenize(`${item.title} ${item.summary || ''} ${item.content || ''}`)));
+
+  const documentCount = Math.max(1, corpusDocuments.length);
+  const documentFrequency = new Map<string, number>();
+  for (const terms of corpusDocuments) {
+    for (const term of terms) documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+  }
+
+  const idf = (term: string): number => {
+    const df = documentFrequency.get(term) || 0;
+    return Math.log(1 + (documentCount - df + 0.5) / (df + 0.5));
+  };
+
+  // Profile weight: share of our documents using the term, times its rarity in the collected corpus
+  const profileDocumentFrequency = new Map<string, number>();
+  for (const counts of profileDocuments) {
+    for (const term of counts.keys()) {
+      profileDocumentFrequency.set(term, (profileDocumentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const minProfileDocuments = Math.max(2, Math.ceil(profileDocuments.length * MIN_PROFILE_SHARE));
+  const ranked = Array.from(profileDocumentFrequency.entries())
+    .filter(([, df]) => df >= minProfileDocuments)
+    .map(([term, df]) => ({ term, weight: Math.sqrt(df / profileDocuments.length) * idf(term) }))
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, PROFILE_SIZE);
+
+  const maxWeight = ranked[0]?.weight || 1;
+  const profile = new Map(ranked.map(({ term, weight }) => [term, weight / maxWeight]));
+
+  const queryFor = (language: string): Map<string, number> => {
+    const query = new Map(profile);
+    for (const seed of seedTerms(language)) {
+      for (const term of tokenize(seed)) {
+        query.set(term, Math.max(query.get(term) || 0, SEED_TERM_WEIGHT));
+      }
+    }
+    for (const brand of brandTerms) {
+      for (const term of tokenize(brand)) query.set(term, BRAND_TERM_WEIGHT);
+    }
+    return query;
+  };
+  const queryCache = new Map<string, Map<string, number>>();
+
+  const rawScore = (input: RelevanceInput) => {
+    const language = input.language || 'en';
+    let query = queryCache.get(language);
+    if (!query) {
+      query = queryFor(language);
+      queryCache.set(language, query);
+    }
+
+    const fieldTokens: Record<Field, string[]> = {
+      title: tokenize(input.title),
+      summary: tokenize(input.summary || ''),
+      content: tokenize(input.content || ''),
+    };
+    const fieldCounts = Object.fromEntries(
+      (Object.keys(fieldTokens) as Field[]).map((field) => [field, termFrequencies(fieldTokens[field])])
+    ) as Record<Field, Map<string, number>>;
+
+    const contributions: { term: string; contribution: number; fields: Record<Field, number> }[] = [];
+
+    for (const [term, queryWeight] of query) {
+      let weightedTf = 0;
+      const perField = { title: 0, summary: 0, content: 0 } as Record<Field, number>;
+
+      for (const field of Object.keys(fieldCounts) as Field[]) {
+        const tf = fieldCounts[field].get(term);
+        if (!tf) continue;
+        const lengthNorm = 1 - BM25_B + BM25_B * (fieldTokens[field].length / AVERAGE_FIELD_LENGTH[field]);
+        const fieldTf = (FIELD_WEIGHTS[field] * tf) / lengthNorm;
+        perField[field] = fieldTf;
+        weightedTf += fieldTf;
+      }
+
+      if (weightedTf === 0) continue;
+      const contribution = queryWeight * idf(term) * (weightedTf / (BM25_K1 + weightedTf));
+      // Split the term's contribution across fields in proportion to their share of tf
+      for (const field of Object.keys(perField) as Field[]) {
+        perField[field] = contribution * (perField[field] / weightedTf);
+      }
+      contributions.push({ term, contribution, fields: perField });
+    }
+
+    return contributions;
+  };
+
+  const total = (contributions: ReturnType<typeof rawScore>) =>
+    contributions.reduce((sum, entry) => sum + entry.contribution, 0);
+
+  // Calibrate on our own article titles: a typical one maps to CALIBRATION_SCORE
+  // on a saturating 0-100 curve, so collected headlines are judged on the same footing
+  const calibrationSamples = articles
+    .map((article) => total(rawScore({ title: article.title })))
+    .filter((value) => value > 0)
+    .sort((a, b) => a - b);
+  const reference = calibrationSamples[Math.floor(calibrationSamples.length / 2)] || 1;
+  const scale = reference / Math.log(100 / (100 - CALIBRATION_SCORE));
+
+  return {
+    score(input) {
+      const contributions = rawScore(input);
+      const raw = total(contributions);
+      const fields = { title: 0, summary: 0, content: 0 } as Record<Field, number>;
+      for (const entry of contributions) {
+        for (const field of Object.keys(fields) as Field[]) fields[field] += entry.fields[field];
+      }
+
+      const round = (value: number) => Number(value.toFixed(2));
+      return {
+        score: Math.round(100 * (1 - Math.exp(-raw / scale))),
+        raw: round(raw),
+        fields: { title: round(fields.title), summary: round(fields.summary), content: round(fields.content) },
+        topTerms: contributions
+          .sort((a, b) => b.contribution - a.contribution)
+          .slice(0, EXPLANATION_TERMS)
+          .map(({ term, contribution }) => ({ term, contribution: round(contribution) })),
+      };
+    },
+    profileTerms(limit = 25) {
+      return ranked.slice(0, limit).map(({ term, weight }) => ({ term, weight: Number((weight / maxWeight).toFixed(3)) }));
+    },
+  };
+}
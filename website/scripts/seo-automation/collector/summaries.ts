@@ -0,0 +1,270 @@
+/**
+ * Item summaries - Short neutral digests of the top knowledge-base items
+ *
+ * Opt-in with SEO_SUMMARIES=true. The SEO_SUMMARY_LIMIT most relevant items
+ * without a digest get a 2-3 sentence summary and a list of key entities,
+ * written by the configured LLM providers (llm/providers.ts) or, without
+ * one, by an extractive lead-sentence summarizer. Digests are cached in
+ * data/knowledge-base/summary-cache.json by a hash of the item's title and
+ * text, so an item is only summarized again when its text changes. Extractive
+ * digests are replaced once a provider is configured. With a cost tracker on
+ * the client, provider calls stop once SEO_MAX_COST_USD is reached and the
+ * remaining items get extractive digests.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { CostTotals } from '../llm/costs.ts';
+import { createLlmClient, type LlmClient } from '../llm/providers.ts';
+import { STOP_WORDS } from './relevance.ts';
+import type { ItemDigest } from '../types.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const SUMMARY_CACHE_FILE = path.join(__dirname, '..', '..', '..', 'data', 'knowledge-base', 'summary-cache.json');
+
+function parsePositive(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export const SUMMARIES_ENABLED = process.env.SEO_SUMMARIES === 'true';
+const SUMMARY_LIMIT = parsePositive(process.env.SEO_SUMMARY_LIMIT, 20);
+// Digests unused this long (their item left the window) are dropped from the cache
+const CACHE_MAX_AGE_DAYS = parsePositive(process.env.SEO_SUMMARY_CACHE_DAYS, 180);
+const MAX_INPUT_CHARS = 3000;
+const MAX_SUMMARY_SENTENCES = 3;
+const MAX_SUMMARY_CHARS = 400;
+const MIN_SENTENCE_CHARS = 20;
+const MAX_ENTITIES = 6;
+const MAX_ENTITY_WORDS = 3;
+// Stop asking the provider after this many failures in one run
+const MAX_PROVIDER_FAILURES = 3;
+
+
+interface SummarizableItem {
+  title: string;
+  source: string;
+  summary?: string;
+  content?: string;
+  relevanceScore: number;
+  digest?: ItemDigest;
+}
+
+interface CachedDigest extends ItemDigest {
+  createdAt: string;
+  lastUsed?: string; // Refreshed on every hit; missing on entries written before it existed
+}
+
+export interface SummaryCache {
+  lastUpdated: string;
+  entries: Record<string, CachedDigest>;
+}
+
+export interface SummaryStats {
+  provider: string;
+  fromCache: number;
+  llm: number;
+  extractive: number;
+  failed: number;
+  skippedByBudget: number;
+  cost?: CostTotals; // Provider spend of this run, when the client tracks costs
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', '#39': "'" };
+
+/** Feed summaries are HTML cut at 300 characters, often inside a tag */
+function itemText(item: SummarizableItem): string {
+  return (item.content || item.summary || '')
+    .replace(/&lt;[\s\S]*?(&gt;|$)|<[^>]*(>|$)/g, ' ')
+    .replace(/&(#39|[a-z]+);/g, (match, name: string) => ENTITIES[name] ?? match)
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([.,!?;:])/g, '$1')
+    .trim();
+}
+
+export function digestHash(item: SummarizableItem): string {
+  return crypto.createHash('sha1').update(`${item.title}\n${itemText(item)}`).digest('hex').slice(0, 16);
+}
+
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?。！？]+(?:[.!?。！？]+|$)/g) || [])
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Capitalized runs of up to three words (Hacker News, Model Context
+ * Protocol) and name-like words (LangGraph, n8n, LLMs). Longer runs are
+ * title-case headings; a lone capitalized word at the start of a sentence
+ * only counts when it also appears elsewhere.
+ */
+export function extractEntities(text: string): string[] {
+  const counts = new Map<string, { count: number; first: number; confirmed: boolean }>();
+  let position = 0;
+
+  for (const sentence of splitSentences(text)) {
+    for (const match of sentence.matchAll(/(?:\b(?:\p{Lu}[\p{L}\p{N}.+#-]*|\p{Ll}+[\p{Lu}\p{N}][\p{L}\p{N}]*)(?:\s+|$))+/gu)) {
+      const words = match[0].trim().split(/\s+/).map((word) => word.replace(/[.-]+$/, ''));
+      // "In 2026", "Why Ollama": leading function words are not part of the name
+      const leadingStopWords = words.findIndex((word) => !STOP_WORDS.has(word.toLowerCase()));
+      if (leadingStopWords < 0 || words.length - leadingStopWords > MAX_ENTITY_WORDS) continue;
+
+      const entity = words.slice(leadingStopWords).join(' ');
+      if (entity.length < 2) continue;
+
+      const nameLike = /\p{Lu}/u.test(entity.slice(1)) || /[\d+#]/.test(entity);
+      const atSentenceStart = (match.index ?? 0) === 0 && leadingStopWords === 0;
+      const existing = counts.get(entity) || { count: 0, first: position++, confirmed: false };
+      existing.count++;
+      existing.confirmed ||= nameLike || !atSentenceStart;
+      counts.set(entity, existing);
+    }
+  }
+
+  return Array.from(counts)
+    .filter(([, entry]) => entry.confirmed || entry.count > 1)
+    .sort((a, b) => b[1].count - a[1].count || a[1].first - b[1].first)
+    .slice(0, MAX_ENTITIES)
+    .map(([entity]) => entity);
+}
+
+/** The first two or three real sentences of the item's text, or its title */
+export function leadSentenceSummary(item: SummarizableItem): { summary: string; entities: string[] } {
+  const text = itemText(item);
+  const sentences = splitSentences(text);
+  // The feed cut the text mid-sentence; the fragment is not worth keeping
+  if (sentences.length > 1 && !/[.!?。！？]$/.test(sentences[sentences.length - 1])) sentences.pop();
+  const lead: string[] = [];
+
+  for (const sentence of sentences) {
+    if (sentence.length < MIN_SENTENCE_CHARS && lead.length === 0 && sentences.length > 1) continue;
+    if (lead.length > 0 && [...lead, sentence].join(' ').length > MAX_SUMMARY_CHARS) break;
+    lead.push(sentence);
+    if (lead.length === MAX_SUMMARY_SENTENCES) break;
+  }
+
+  let summary = lead.join(' ') || item.title;
+  if (summary.length > MAX_SUMMARY_CHARS) {
+    summary = `${summary.slice(0, summary.lastIndexOf(' ', MAX_SUMMARY_CHARS)).trim()}…`;
+  }
+  // Titles are often title case, so they only supply entities when there is no text
+  return { summary, entities: extractEntities(text || item.title) };
+}
+
+function buildSummaryPrompt(item: SummarizableItem): string {
+  return `Summarize this item for an editor who researches articles about AI assistants.
+
+Write 2-3 neutral, factual sentences about what the item says: no opinions, no marketing language, no calls to action.
+List up to ${MAX_ENTITIES} key entities it is about (products, projects, companies, people), as written in the text.
+Answer with JSON only: {"summary": "...", "entities": ["..."]}
+
+Title: ${item.title}
+Source: ${item.source}
+Text:
+${itemText(item).slice(0, MAX_INPUT_CHARS) || '(no text, title only)'}`;
+}
+
+function parseSummaryResponse(text: string): { summary: string; entities: string[] } | null {
+  const json = text.replace(/```(?:json)?/g, '').match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return null;
+
+  try {
+    const parsed = JSON.parse(json) as { summary?: unknown; entities?: unknown };
+    if (typeof parsed.summary !== 'string' || !parsed.summary.trim()) return null;
+    const entities = Array.isArray(parsed.entities)
+      ? parsed.entities.filter((entity): entity is string => typeof entity === 'string' && entity.trim().length > 0).map((entity) => entity.trim())
+      : [];
+    return { summary: parsed.summary.replace(/\s+/g, ' ').trim(), entities: entities.slice(0, MAX_ENTITIES) };
+  } catch {
+    return null;
+  }
+}
+
+export async function loadSummaryCache(filePath = SUMMARY_CACHE_FILE): Promise<SummaryCache> {
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const parsed = JSON.parse(content) as SummaryCache;
+    return { lastUpdated: parsed.lastUpdated || '', entries: parsed.entries || {} };
+  } catch {
+    return { lastUpdated: '', entries: {} };
+  }
+}
+
+export async function saveSummaryCache(cache: SummaryCache, filePath = SUMMARY_CACHE_FILE): Promise<void> {
+  const cutoff = Date.now() - CACHE_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+  for (const [hash, entry] of Object.entries(cache.entries)) {
+    if (new Date(entry.lastUsed || entry.createdAt).getTime() < cutoff) delete cache.entries[hash];
+  }
+  cache.lastUpdated = new Date().toISOString();
+  await fs.writeFile(filePath, JSON.stringify(cache, null, 2));
+}
+
+/**
+ * Attach cached digests to every item, then summarize the most relevant
+ * items still without one. Provider failures fall back to the extractive
+ * digest for that item.
+ */
+export async function summarizeItems(
+  items: SummarizableItem[],
+  cache: SummaryCache,
+  llm: LlmClient = createLlmClient()
+): Promise<SummaryStats> {
+  const provider = llm.providers.length > 0 ? llm : null;
+  const stats: SummaryStats = { provider: provider?.label || 'extractive', fromCache: 0, llm: 0, extractive: 0, failed: 0, skippedByBudget: 0 };
+  const mark = llm.costs ? { ...llm.costs.totals } : null;
+  const now = new Date().toISOString();
+  const pending: { item: SummarizableItem; hash: string }[] = [];
+
+  for (const item of items) {
+    const hash = digestHash(item);
+    const cached = cache.entries[hash];
+    if (cached && (cached.method === 'llm' || !provider)) {
+      // Items that stay in the knowledge base keep their digest however old it is
+      cached.lastUsed = now;
+      const { createdAt: _createdAt, lastUsed: _lastUsed, ...digest } = cached;
+      item.digest = digest;
+      stats.fromCache++;
+    } else {
+      delete item.digest;
+      pending.push({ item, hash });
+    }
+  }
+
+  const candidates = pending
+    .sort((a, b) => b.item.relevanceScore - a.item.relevanceScore)
+    .slice(0, SUMMARY_LIMIT);
+
+  for (const { item, hash } of candidates) {
+    let digest: ItemDigest | null = null;
+
+    if (provider && llm.costs?.budgetExceeded()) {
+      stats.skippedByBudget++;
+    } else if (provider && stats.failed < MAX_PROVIDER_FAILURES) {
+      try {
+        const response = await provider.generate(buildSummaryPrompt(item), { maxTokens: 600, log: false });
+        const parsed = parseSummaryResponse(response.text);
+        if (!parsed) throw new Error('response is not {"summary", "entities"} JSON');
+        digest = { ...parsed, method: 'llm', model: `${response.provider}:${response.model}`, contentHash: hash };
+        stats.llm++;
+      } catch (error) {
+        stats.failed++;
+        console.warn(`  ⚠️ Summary failed for "${item.title.substring(0, 60)}": ${(error instanceof Error ? error.message : String(error)).substring(0, 100)}`);
+      }
+    }
+
+    if (!digest) {
+      digest = { ...leadSentenceSummary(item), method: 'extractive', contentHash: hash };
+      stats.extractive++;
+    }
+
+    item.digest = digest;
+    cache.entries[hash] = { ...digest, createdAt: now, lastUsed: now };
+  }
+
+  if (llm.costs && mark) stats.cost = llm.costs.since(mark);
+  return stats;
+}
@@ -0,0 +1,214 @@
+/**
+ * Topic taxonomy - Loads the shared topic tree from data/config/taxonomy.json
+ *
+ * One file drives topic extraction in the collector, article ideas in the
+ * trending generator and topic overlap in RelatedArticles.astro. Each topic
+ * has English synonyms, optional per-language aliases, an optional parent
+ * and the article templates written for it. A topic without templates falls
+ * back to its nearest ancestor's; validateTaxonomy flags the ones with none.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const TAXONOMY_FILE = process.env.SEO_TAXONOMY_FILE
+  || path.join(__dirname, '..', '..', '..', 'data', 'config', 'taxonomy.json');
+
+export const ARTICLE_CATEGORIES = ['Tutorial', 'Guide', 'Comparison', 'Best Practices', 'News', 'Advanced'] as const;
+export type ArticleCategory = typeof ARTICLE_CATEGORIES[number];
+
+const MAX_TITLE_LENGTH = 60;
+
+export interface ArticleTemplate {
+  title: string;
+  category: ArticleCategory;
+  keywords: string[];
+}
+
+export interface TaxonomyTopic {
+  id: string;
+  label: string;
+  parent?: string;
+  synonyms: string[];
+  aliases: Record<string, string[]>;
+  articles: ArticleTemplate[];
+}
+
+export interface Taxonomy {
+  topics: TaxonomyTopic[];
+  byId: Map<string, TaxonomyTopic>;
+}
+
+export interface TaxonomyIssue {
+  level: 'error' | 'warning';
+  topic: string;
+  message: string;
+}
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((entry): entry is string => typeof entry === 'string' && entry.trim().length > 0);
+}
+
+function normalizeTopic(raw: Record<string, unknown>): TaxonomyTopic {
+  const aliases: Record<string, string[]> = {};
+  if (raw.aliases && typeof raw.aliases === 'object' && !Array.isArray(raw.aliases)) {
+    for (const [language, terms] of Object.entries(raw.aliases as Record<string, unknown>)) {
+      aliases[language] = stringList(terms);
+    }
+  }
+
+  const articles = Array.isArray(raw.articles)
+    ? (raw.articles as Record<string, unknown>[]).map((article) => ({
+      title: typeof article?.title === 'string' ? article.title : '',
+      category: article?.category as ArticleCategory,
+      keywords: stringList(article?.keywords),
+    }))
+    : [];
+
+  const id = String(raw.id);
+  return {
+    id,
+    label: typeof raw.label === 'string' && raw.label ? raw.label : id,
+    parent: typeof raw.parent === 'string' && raw.parent ? raw.parent : undefined,
+    synonyms: stringList(raw.synonyms),
+    aliases,
+    articles,
+  };
+}
+
+export async function loadTaxonomy(filePath = TAXONOMY_FILE): Promise<Taxonomy> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  const parsed = JSON.parse(content) as { topics?: unknown };
+
+  if (!parsed || !Array.isArray(parsed.topics)) {
+    throw new Error(`Taxonomy ${filePath} must contain a "topics" array`);
+  }
+
+  const topics = (parsed.topics as unknown[])
+    .filter((raw): raw is Record<string, unknown> => Boolean(raw) && typeof raw === 'object' && typeof (raw as Record<string, unknown>).id === 'string')
+    .map(normalizeTopic);
+
+  return { topics, byId: new Map(topics.map((topic) => [topic.id, topic])) };
+}
+
+/**
+ * Append a topic to the taxonomy file, keeping every other entry as written.
+ */
+export async function addTaxonomyTopic(
+  topic: { id: string; label: string; parent?: string; synonyms: string[] },
+  filePath = TAXONOMY_FILE
+): Promise<void> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  const parsed = JSON.parse(content) as { topics: Record<string, unknown>[] };
+
+  if (parsed.topics.some((existing) => existing.id === topic.id)) {
+    throw new Error(`Topic "${topic.id}" already exists in ${filePath}`);
+  }
+
+  parsed.topics.push({
+    id: topic.id,
+    label: topic.label,
+    ...(topic.parent ? { parent: topic.parent } : {}),
+    synonyms: topic.synonyms,
+    articles: [],
+  });
+  await fs.writeFile(filePath, `${JSON.stringify(parsed, null, 2)}\n`);
+}
+
+/**
+ * Match terms for one language: English synonyms always apply (tech
+ * vocabulary is rarely translated) plus the language's own aliases.
+ */
+export function topicTermsFor(taxonomy: Taxonomy, language: string): Map<string, string[]> {
+  const terms = new Map<string, string[]>();
+  for (const topic of taxonomy.topics) {
+    const localized = language === 'en' ? [] : topic.aliases[language] || [];
+    for (const term of [...topic.synonyms, ...(topic.aliases.en || []), ...localized]) {
+      const key = term.toLowerCase();
+      const topicIds = terms.get(key) || [];
+      if (!topicIds.includes(topic.id)) topicIds.push(topic.id);
+      terms.set(key, topicIds);
+    }
+  }
+  return terms;
+}
+
+/** Parent first, root last; stops on cycles */
+export function ancestorsOf(taxonomy: Taxonomy, topicId: string): string[] {
+  const ancestors: string[] = [];
+  let parent = taxonomy.byId.get(topicId)?.parent;
+  while (parent && !ancestors.includes(parent) && parent !== topicId) {
+    ancestors.push(parent);
+    parent = taxonomy.byId.get(parent)?.parent;
+  }
+  return ancestors;
+}
+
+export function articleTemplatesFor(taxonomy: Taxonomy, topicId: string): { templates: ArticleTemplate[]; inheritedFrom?: string } {
+  const own = taxonomy.byId.get(topicId)?.articles || [];
+  if (own.length > 0) return { templates: own };
+
+  for (const ancestor of ancestorsOf(taxonomy, topicId)) {
+    const templates = taxonomy.byId.get(ancestor)?.articles || [];
+    if (templates.length > 0) return { templates, inheritedFrom: ancestor };
+  }
+  return { templates: [] };
+}
+
+export function validateTaxonomy(taxonomy: Taxonomy): TaxonomyIssue[] {
+  const issues: TaxonomyIssue[] = [];
+  const seen = new Set<string>();
+  const hasChildren = new Set(taxonomy.topics.map((topic) => topic.parent).filter(Boolean));
+
+  for (const topic of taxonomy.topics) {
+    const issue = (level: TaxonomyIssue['level'], message: string) => issues.push({ level, topic: topic.id, message });
+
+    if (seen.has(topic.id)) issue('error', 'duplicate topic id');
+    seen.add(topic.id);
+
+    if (topic.parent) {
+      if (!taxonomy.byId.has(topic.parent)) issue('error', `unknown parent "${topic.parent}"`);
+      let cursor: string | undefined = topic.parent;
+      const visited = new Set<string>();
+      while (cursor && !visited.has(cursor)) {
+        if (cursor === topic.id) {
+          issue('error', 'parent chain loops back to this topic');
+          break;
+        }
+        visited.add(cursor);
+        cursor = taxonomy.byId.get(cursor)?.parent;
+      }
+    }
+
+    const termCount = topic.synonyms.length + Object.values(topic.aliases).reduce((sum, terms) => sum + terms.length, 0);
+    if (termCount === 0 && !hasChildren.has(topic.id)) {
+      issue('warning', 'no synonyms or aliases, so the collector never assigns it');
+    }
+
+    topic.articles.forEach((article, index) => {
+      const label = `article #${index + 1}`;
+      if (!article.title) issue('error', `${label} has no title`);
+      // Published slugs derive from these titles, so long ones are only
+      // flagged; the generator shortens the article title itself
+      if (article.title.length > MAX_TITLE_LENGTH) issue('warning', `${label} title is ${article.title.length} characters (article titles max ${MAX_TITLE_LENGTH})`);
+      if (!ARTICLE_CATEGORIES.includes(article.category)) issue('error', `${label} has invalid category "${String(article.category)}"`);
+      if (article.keywords.length === 0) issue('warning', `${label} has no keywords`);
+    });
+
+    if (topic.articles.length === 0) {
+      const { inheritedFrom } = articleTemplatesFor(taxonomy, topic.id);
+      if (inheritedFrom) {
+        issue('warning', `no article mapping; falls back to "${inheritedFrom}"`);
+      } else {
+        issue('error', 'no article mapping for this topic or any ancestor');
+      }
+    }
+  }
+
+  return issues;
+}
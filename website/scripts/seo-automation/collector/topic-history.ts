@@ -0,0 +1,188 @@
+/**
+ * Topic History - Daily topic-count snapshots and time-decayed velocity
+ *
+ * Every collection run adds the topics of its new stories to today's
+ * snapshot in data/knowledge-base/topic-history.json. Trending is then
+ * judged by velocity, not volume: the exponentially decayed daily rate over
+ * the recent window divided by the plain daily rate over the trailing
+ * baseline. Perennial topics like "llm" sit near 1.0; a topic that jumps
+ * well above its baseline on enough stories is flagged as a breakout.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const TOPIC_HISTORY_FILE = path.join(__dirname, '..', '..', '..', 'data', 'knowledge-base', 'topic-history.json');
+
+function parsePositive(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseFloat(value || '');
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const RECENT_DAYS = Math.round(parsePositive(process.env.SEO_TREND_RECENT_DAYS, 7));
+const BASELINE_DAYS = Math.round(parsePositive(process.env.SEO_TREND_BASELINE_DAYS, 28));
+const HALF_LIFE_DAYS = parsePositive(process.env.SEO_TREND_HALF_LIFE_DAYS, 3);
+const BREAKOUT_RATIO = parsePositive(process.env.SEO_TREND_BREAKOUT_RATIO, 3);
+const BREAKOUT_MIN_STORIES = parsePositive(process.env.SEO_TREND_BREAKOUT_MIN_STORIES, 3);
+const HISTORY_DAYS = 120;
+const RATE_SMOOTHING = 0.1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TopicSnapshot {
+  date: string;
+  newStories: Record<string, number>;
+  activeStories: Record<string, number>;
+}
+
+export interface TopicHistoryFile {
+  lastUpdated: string;
+  snapshots: TopicSnapshot[];
+}
+
+export interface TopicVelocity {
+  topic: string;
+  recentStories: number;
+  recentRate: number;
+  baselineRate: number;
+  velocity: number;
+  acceleration: number;
+  score: number;
+  breakout: boolean;
+}
+
+interface TopicItem {
+  topics: string[];
+  publishedAt: string;
+  collectedAt?: string;
+}
+
+export async function loadTopicHistory(filePath = TOPIC_HISTORY_FILE): Promise<TopicHistoryFile> {
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const parsed = JSON.parse(content) as TopicHistoryFile;
+    return { lastUpdated: parsed.lastUpdated || '', snapshots: parsed.snapshots || [] };
+  } catch {
+    return { lastUpdated: '', snapshots: [] };
+  }
+}
+
+export async function saveTopicHistory(history: TopicHistoryFile, filePath = TOPIC_HISTORY_FILE): Promise<void> {
+  const cutoff = new Date(Date.now() - HISTORY_DAYS * DAY_MS).toISOString().split('T')[0];
+  history.snapshots = history.snapshots
+    .filter((snapshot) => snapshot.date >= cutoff)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  history.lastUpdated = new Date().toISOString();
+  await fs.writeFile(filePath, JSON.stringify(history, null, 2));
+}
+
+function countTopics(items: TopicItem[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const item of items) {
+    for (const topic of item.topics) counts[topic] = (counts[topic] || 0) + 1;
+  }
+  return counts;
+}
+
+function itemDate(item: TopicItem): string | null {
+  const date = new Date(item.publishedAt || item.collectedAt || '');
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
+}
+
+/**
+ * Record one collection run. Reruns on the same day add to the day's new
+ * stories and replace its active-window counts.
+ */
+export function recordTopicSnapshot(
+  history: TopicHistoryFile,
+  newItems: TopicItem[],
+  activeItems: TopicItem[],
+  date = new Date().toISOString().split('T')[0]
+): TopicSnapshot {
+  let snapshot = history.snapshots.find((entry) => entry.date === date);
+  if (!snapshot) {
+    snapshot = { date, newStories: {}, activeStories: {} };
+    history.snapshots.push(snapshot);
+  }
+
+  for (const [topic, count] of Object.entries(countTopics(newItems))) {
+    snapshot.newStories[topic] = (snapshot.newStories[topic] || 0) + count;
+  }
+  snapshot.activeStories = countTopics(activeItems);
+  return snapshot;
+}
+
+/**
+ * Rebuild daily snapshots from item publish dates. Used to seed an empty
+ * history so velocity is available from the first run.
+ */
+export function seedTopicHistory(items: TopicItem[]): TopicSnapshot[] {
+  const byDate = new Map<string, TopicItem[]>();
+  for (const item of items) {
+    const date = itemDate(item);
+    if (!date) continue;
+    const bucket = byDate.get(date) || [];
+    bucket.push(item);
+    byDate.set(date, bucket);
+  }
+
+  return Array.from(byDate.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, dayItems]) => ({ date, newStories: countTopics(dayItems), activeStories: {} }));
+}
+
+export function computeTopicVelocity(snapshots: TopicSnapshot[], now = new Date()): Map<string, TopicVelocity> {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const dailyCounts = new Map<string, number[]>();
+  const windowDays = RECENT_DAYS + BASELINE_DAYS;
+  let oldestAge = -1;
+
+  for (const snapshot of snapshots) {
+    const age = Math.round((today - Date.parse(`${snapshot.date}T00:00:00Z`)) / DAY_MS);
+    if (age < 0 || age >= windowDays) continue;
+    oldestAge = Math.max(oldestAge, age);
+    for (const [topic, count] of Object.entries(snapshot.newStories)) {
+      const series = dailyCounts.get(topic) || new Array<number>(windowDays).fill(0);
+      series[age] += count;
+      dailyCounts.set(topic, series);
+    }
+  }
+
+  const decay = Array.from({ length: RECENT_DAYS }, (_, age) => Math.pow(0.5, age / HALF_LIFE_DAYS));
+  const decayTotal = decay.reduce((sum, weight) => sum + weight, 0);
+  const halfWindow = Math.max(1, Math.floor(RECENT_DAYS / 2));
+  const round = (value: number) => Number(value.toFixed(2));
+  // Only days the history actually covers count toward the baseline
+  const baselineDays = oldestAge - RECENT_DAYS + 1;
+
+  const velocities = new Map<string, TopicVelocity>();
+  for (const [topic, series] of dailyCounts) {
+    const recent = series.slice(0, RECENT_DAYS);
+    const baseline = series.slice(RECENT_DAYS);
+
+    const recentStories = recent.reduce((sum, count) => sum + count, 0);
+    const recentRate = recent.reduce((sum, count, age) => sum + count * decay[age], 0) / decayTotal;
+    const baselineRate = baselineDays > 0 ? baseline.reduce((sum, count) => sum + count, 0) / baselineDays : 0;
+    const velocity = baselineDays > 0 ? (recentRate + RATE_SMOOTHING) / (baselineRate + RATE_SMOOTHING) : 1;
+
+    // Acceleration: latest half of the recent window against the earlier half
+    const latestRate = recent.slice(0, halfWindow).reduce((sum, count) => sum + count, 0) / halfWindow;
+    const earlierRate = recent.slice(halfWindow).reduce((sum, count) => sum + count, 0) / Math.max(1, RECENT_DAYS - halfWindow);
+
+    velocities.set(topic, {
+      topic,
+      recentStories,
+      recentRate: round(recentRate),
+      baselineRate: round(baselineRate),
+      velocity: round(velocity),
+      acceleration: round(latestRate - earlierRate),
+      score: round(recentRate * Math.log2(1 + velocity)),
+      breakout: recentStories >= BREAKOUT_MIN_STORIES && velocity >= BREAKOUT_RATIO,
+    });
+  }
+
+  return velocities;
+}
@@ -2,6 +2,8 @@ import './load-env.js';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import sharp from 'sharp';
+import { listContentFiles } from './articles/drafts.ts';
+import { httpFetch } from './http/cassette.ts';
 
 type Frontmatter = {
   title?: string;
@@ -24,7 +26,6 @@ type PexelsPhoto = {
 };
 
 const PUBLIC_DIR = path.join(process.cwd(), 'public', 'images', 'articles');
-const ARTICLES_DIR = path.join(process.cwd(), 'src', 'content', 'articles');
 const DATA_DIR = path.join(process.cwd(), 'data', 'knowledge-base');
 const ATTRIBUTION_PATH = path.join(DATA_DIR, 'image-sources.json');
 
@@ -161,7 +162,7 @@ async function fetchPexelsPhoto(query: string): Promise<PexelsPhoto | null> {
   url.searchParams.set('per_page', '5');
   url.searchParams.set('orientation', 'landscape');
 
-  const res = await fetch(url, {
+  const res = await httpFetch(url, {
     headers: { Authorization: PEXELS_API_KEY },
   });
 
@@ -182,7 +183,7 @@ async function downloadAndResize(photo: PexelsPhoto, outPath: string): Promise<v
   const src = photo.src.large2x || photo.src.large || photo.src.medium || photo.src.original;
   if (!src) throw new Error('No image source found in Pexels photo');
 
-  const res = await fetch(src);
+  const res = await httpFetch(src);
   if (!res.ok) throw new Error(`Image download failed (${res.status})`);
   const buf = Buffer.from(await res.arrayBuffer());
 
@@ -199,7 +200,7 @@ function buildPicsumUrl(seed: string): string {
 
 async function downloadPicsumImage(seed: string, outPath: string): Promise<string> {
   const url = buildPicsumUrl(seed);
-  const res = await fetch(url);
+  const res = await httpFetch(url);
   if (!res.ok) throw new Error(`Picsum download failed (${res.status})`);
   const buf = Buffer.from(await res.arrayBuffer());
 
@@ -239,19 +240,17 @@ async function main(): Promise<void> {
   }
 
   await fs.mkdir(PUBLIC_DIR, { recursive: true });
-  const files = await fs.readdir(ARTICLES_DIR);
-  const mdxFiles = files.filter((file) => file.endsWith('.mdx'));
+  const mdxFiles = await listContentFiles();
 
   let processed = 0;
   const attribution = await loadAttribution();
 
   console.log(`🖼️  Fetching images for ${mdxFiles.length} articles...`);
 
-  for (const file of mdxFiles) {
+  for (const articlePath of mdxFiles) {
     if (MAX_IMAGES > 0 && processed >= MAX_IMAGES) break;
 
-    const slug = path.basename(file, '.mdx');
-    const articlePath = path.join(ARTICLES_DIR, file);
+    const slug = path.basename(articlePath, '.mdx');
     const content = await fs.readFile(articlePath, 'utf-8');
     const frontmatter = parseFrontmatter(content) || {};
 
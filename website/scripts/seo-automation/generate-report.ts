@@ -7,18 +7,79 @@ import './load-env.ts';
 import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { DRAFTS_DIR } from './articles/drafts.ts';
+import { formatUsd } from './llm/costs.ts';
+import type { ArticleCost } from './types.ts';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+interface SourceHealthRow {
+  id: string;
+  status: string;
+  lastStatus: number | null;
+  latencyMs: number;
+  items: number;
+  parseErrors: number;
+  consecutiveFailures: number;
+  disabledUntil: string | null;
+}
+
 interface CollectionSummary {
   date: string;
   newItems: number;
   totalItems: number;
   bySource: Record<string, number>;
   byCategory?: Record<string, number>;
+  byLanguage?: Record<string, number>;
   topTopics: Record<string, number>;
+  risingTopics?: { topic: string; recentStories: number; velocity: number; acceleration: number; breakout: boolean }[];
+  emergingPhrases?: { phrase: string; recentItems: number; baselineItems: number; sources: number; lift: number; knownTopics: string[] }[];
+  taxonomyProposals?: { pending: number; added: string[] };
   brandMentions?: number;
+  brandMonitor?: {
+    today: number;
+    yesterday: number;
+    delta: number;
+    weeklyAverage: number;
+    averageSentiment: number | null;
+    newMentions: number;
+    totalMentions: number;
+    alerts: { type: string; message: string }[];
+    notable: { title: string; url: string; source: string; alias: string; sentiment: number; publishedAt: string }[];
+  };
+  sourceHealth?: SourceHealthRow[];
+  parseWarnings?: {
+    malformedBySource: Record<string, number>;
+    skipped: number;
+    samples: { source: string; format: string; index: number; id?: string; problems: string[]; skipped: boolean }[];
+  };
+  nearDuplicates?: { clusters: number; merged: number; widelySpread: number };
+  archive?: { totalItems: number; partitions: number; appended: number; resighted: number };
+  summaries?: {
+    enabled: boolean;
+    provider?: string;
+    fromCache?: number;
+    llm?: number;
+    extractive?: number;
+    failed?: number;
+    skippedByBudget?: number;
+    cost?: { calls: number; inputTokens: number; outputTokens: number; costUsd: number };
+    itemsWithDigest: number;
+  };
+  fetchPolicy?: { requests: number; delayed: number; skippedByRobots: number; skippedRateLimited: number; skipped: number };
+}
+
+interface GeneratedArticles {
+  articles: string[];
+  costs: Record<string, ArticleCost>;
+}
+
+interface GenerationCost {
+  articles: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
 }
 
 const DATA_DIR = path.join(__dirname, '..', '..', 'data');
@@ -43,7 +104,13 @@ function mdRow(values: string[]): string {
   return `| ${values.join(' | ')} |`;
 }
 
-function generateMarkdownReport(date: string, generatedAt: string, kbSummary: CollectionSummary | null, generatedArticles: string[]): string {
+function generateMarkdownReport(
+  date: string,
+  generatedAt: string,
+  kbSummary: CollectionSummary | null,
+  generatedArticles: string[],
+  generationCost: GenerationCost
+): string {
   const lines: string[] = [];
   lines.push(`# SEO Report - ${date}`);
   lines.push('');
@@ -56,22 +123,118 @@ function generateMarkdownReport(date: string, generatedAt: string, kbSummary: Co
     lines.push(mdRow(['---', '---']));
     lines.push(mdRow(['New Items Today', kbSummary.newItems.toString()]));
     lines.push(mdRow(['Total Items', kbSummary.totalItems.toString()]));
+    if (kbSummary.archive) {
+      const { totalItems, appended, resighted } = kbSummary.archive;
+      lines.push(mdRow(['Archive', `${totalItems} items all-time (+${appended} new, ${resighted} seen again)`]));
+    }
+    if (kbSummary.fetchPolicy) {
+      const { requests, skipped, skippedByRobots, skippedRateLimited } = kbSummary.fetchPolicy;
+      lines.push(mdRow(['Requests', `${requests} sent, ${skipped} skipped by policy (robots.txt: ${skippedByRobots}, rate limits: ${skippedRateLimited})`]));
+    }
+    if (kbSummary.summaries?.enabled) {
+      const { provider, llm = 0, extractive = 0, itemsWithDigest, cost } = kbSummary.summaries;
+      const spend = cost && cost.calls > 0 ? `, ${formatUsd(cost.costUsd)}` : '';
+      lines.push(mdRow(['Item Summaries', `${itemsWithDigest} items (${llm} new via ${provider}, ${extractive} extractive${spend})`]));
+    }
     if (typeof kbSummary.brandMentions === 'number') {
       lines.push(mdRow(['Brand Mentions (Openclaw/Moltbot/Clawdbot)', kbSummary.brandMentions.toString()]));
     }
+    if (kbSummary.nearDuplicates) {
+      const { merged, clusters, widelySpread } = kbSummary.nearDuplicates;
+      lines.push(mdRow(['Near-Duplicates Merged', `${merged} copies into ${clusters} stories (${widelySpread} stories seen on 2+ URLs)`]));
+    }
     lines.push(mdRow(['Sources', Object.entries(kbSummary.bySource).map(([source, count]) => `${source}: ${count}`).join(' | ')]));
     if (kbSummary.byCategory) {
       lines.push(mdRow(['Content Types', Object.entries(kbSummary.byCategory).map(([category, count]) => `${category}: ${count}`).join(' | ')]));
     }
+    if (kbSummary.byLanguage) {
+      lines.push(mdRow(['Languages', Object.entries(kbSummary.byLanguage).sort(([, a], [, b]) => b - a).map(([language, count]) => `${language}: ${count}`).join(' | ')]));
+    }
     lines.push(mdRow(['Top Topics', Object.entries(kbSummary.topTopics).slice(0, 5).map(([topic, count]) => `${topic} (${count})`).join(', ')]));
+    if (kbSummary.risingTopics && kbSummary.risingTopics.length > 0) {
+      lines.push(mdRow(['Rising This Week', kbSummary.risingTopics.slice(0, 5).map((t) => `${t.topic} (${t.velocity}x${t.breakout ? ', breakout' : ''})`).join(', ')]));
+    }
+    if (kbSummary.emergingPhrases && kbSummary.emergingPhrases.length > 0) {
+      lines.push(mdRow(['Emerging Phrases', kbSummary.emergingPhrases.slice(0, 8).map((p) => `${p.phrase} (${p.lift}x${p.knownTopics.length === 0 ? ', new' : ''})`).join(', ')]));
+    }
+    if (kbSummary.taxonomyProposals && kbSummary.taxonomyProposals.pending > 0) {
+      lines.push(mdRow(['Taxonomy Proposals', `${kbSummary.taxonomyProposals.pending} pending (+${kbSummary.taxonomyProposals.added.length} new), review with \`npm run seo:taxonomy-proposals\``]));
+    }
+    lines.push('');
+  }
+
+  if (kbSummary?.brandMonitor) {
+    const monitor = kbSummary.brandMonitor;
+    const sign = monitor.delta > 0 ? '+' : '';
+    lines.push('## Brand Mentions');
+    lines.push(`- Last 24h: ${monitor.today} (${sign}${monitor.delta} vs the 24h before, ${monitor.weeklyAverage}/day over the week before)`);
+    lines.push(`- Average sentiment, last 24h: ${monitor.averageSentiment === null ? '-' : monitor.averageSentiment}`);
+    lines.push(`- Tracked mentions: ${monitor.totalMentions} (+${monitor.newMentions} new)`);
+    monitor.alerts.forEach((alert) => {
+      lines.push(`- 🚨 **${alert.type}**: ${alert.message}`);
+    });
+    if (monitor.notable.length > 0) {
+      lines.push('');
+      lines.push(mdRow(['Sentiment', 'Alias', 'Source', 'Published', 'Thread']));
+      lines.push(mdRow(['---', '---', '---', '---', '---']));
+      monitor.notable.forEach((mention) => {
+        lines.push(mdRow([
+          mention.sentiment.toFixed(2),
+          mention.alias,
+          mention.source,
+          mention.publishedAt.split('T')[0],
+          `[${mention.title.replace(/\|/g, '\\|')}](${mention.url})`,
+        ]));
+      });
+    }
+    lines.push('');
+  }
+
+  if (kbSummary?.sourceHealth && kbSummary.sourceHealth.length > 0) {
+    const unhealthy = kbSummary.sourceHealth.filter((row) => row.status !== 'ok');
+    lines.push('## Source Health');
+    lines.push(`- Healthy: ${kbSummary.sourceHealth.length - unhealthy.length}/${kbSummary.sourceHealth.length}`);
+    lines.push('');
+    lines.push(mdRow(['Source', 'Status', 'HTTP', 'Latency', 'Items', 'Parse Errors', 'Consecutive Failures', 'Disabled Until']));
+    lines.push(mdRow(['---', '---', '---', '---', '---', '---', '---', '---']));
+    kbSummary.sourceHealth.forEach((row) => {
+      lines.push(mdRow([
+        row.id,
+        row.status,
+        row.lastStatus === null ? '-' : row.lastStatus.toString(),
+        `${row.latencyMs}ms`,
+        row.items.toString(),
+        row.parseErrors.toString(),
+        row.consecutiveFailures.toString(),
+        row.disabledUntil ? row.disabledUntil.split('T')[0] : '-',
+      ]));
+    });
+    lines.push('');
+  }
+
+  const malformed = Object.entries(kbSummary?.parseWarnings?.malformedBySource || {});
+  if (kbSummary?.parseWarnings && malformed.length > 0) {
+    lines.push('## Malformed Entries');
+    lines.push(`- ${malformed.map(([source, count]) => `${source}: ${count}`).join(' | ')} (${kbSummary.parseWarnings.skipped} skipped)`);
+    kbSummary.parseWarnings.samples.forEach((warning) => {
+      const entry = warning.index < 0 ? 'response' : `entry #${warning.index}${warning.id ? ` (${warning.id})` : ''}`;
+      lines.push(`- ${warning.source} ${entry}: ${warning.problems.join('; ')}${warning.skipped ? ' - skipped' : ''}`);
+    });
     lines.push('');
   }
 
   lines.push('## Generated Articles');
+  const summaryCost = kbSummary?.summaries?.cost;
+  if (summaryCost && summaryCost.calls > 0) {
+    lines.push(`- LLM cost of item summaries: ${formatUsd(summaryCost.costUsd)} (${summaryCost.inputTokens.toLocaleString('en-US')} in / ${summaryCost.outputTokens.toLocaleString('en-US')} out tokens)`);
+  }
   if (generatedArticles.length === 0) {
     lines.push('- No new articles generated today.');
   } else {
     lines.push(`- Total: ${generatedArticles.length}`);
+    if (generationCost.articles > 0) {
+      lines.push(`- LLM cost on ${date}: ${formatUsd(generationCost.costUsd)} for ${generationCost.articles} article(s) (${generationCost.inputTokens.toLocaleString('en-US')} in / ${generationCost.outputTokens.toLocaleString('en-US')} out tokens)`);
+    }
     generatedArticles.forEach((slug) => {
       lines.push(`  - ${slug}`);
     });
@@ -86,31 +249,48 @@ function generateMarkdownReport(date: string, generatedAt: string, kbSummary: Co
 }
 
 
-async function loadGeneratedArticles(): Promise<string[]> {
+async function loadGeneratedArticles(): Promise<GeneratedArticles> {
   const filePath = path.join(DATA_DIR, 'knowledge-base', 'generated-articles.json');
   try {
     const content = await fs.readFile(filePath, 'utf-8');
     const parsed = JSON.parse(content);
-    if (Array.isArray(parsed)) return parsed.filter((item) => typeof item === 'string');
-    return [];
+    // Older logs are a bare slug list
+    const articles = Array.isArray(parsed) ? parsed : (Array.isArray(parsed?.articles) ? parsed.articles : []);
+    return {
+      articles: articles.filter((item: unknown): item is string => typeof item === 'string'),
+      costs: !Array.isArray(parsed) && parsed?.costs ? parsed.costs : {},
+    };
   } catch {
-    return [];
+    return { articles: [], costs: {} };
   }
 }
 
+function formatArticleCost(cost: ArticleCost): string {
+  if (cost.provider === 'offline' && cost.calls === 0) return 'offline template';
+  const tokens = `${cost.inputTokens.toLocaleString('en-US')} in / ${cost.outputTokens.toLocaleString('en-US')} out tokens`;
+  const notes = [
+    cost.cachedCalls > 0 ? `${cost.cachedCalls} cached` : '',
+    cost.unpricedCalls > 0 ? `${cost.unpricedCalls} unpriced` : '',
+  ].filter(Boolean);
+  return `${formatUsd(cost.costUsd)} (${tokens}, ${cost.provider}:${cost.model}${notes.length > 0 ? `, ${notes.join(', ')}` : ''})`;
+}
+
 async function loadGeneratedArticleTitles(slugs: string[]): Promise<Record<string, string>> {
   const titles: Record<string, string> = {};
   for (const slug of slugs) {
-    const filePath = path.join(ARTICLES_DIR, `${slug}.mdx`);
-    try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
-      if (!frontmatterMatch) continue;
-      const titleMatch = frontmatterMatch[1].match(/title:\s*(?:"([^"]+)"|'([^']+)'|(.+))$/m);
-      const title = titleMatch?.[1] || titleMatch?.[2] || titleMatch?.[3];
-      if (title) titles[slug] = title.trim();
-    } catch {
-      // Ignore missing files.
+    // Generated articles stay in drafts until promoted
+    for (const dir of [ARTICLES_DIR, DRAFTS_DIR]) {
+      try {
+        const content = await fs.readFile(path.join(dir, `${slug}.mdx`), 'utf-8');
+        const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
+        if (!frontmatterMatch) break;
+        const titleMatch = frontmatterMatch[1].match(/title:\s*(?:"([^"]+)"|'([^']+)'|(.+))$/m);
+        const title = titleMatch?.[1] || titleMatch?.[2] || titleMatch?.[3];
+        if (title) titles[slug] = dir === DRAFTS_DIR ? `${title.trim()} [draft]` : title.trim();
+        break;
+      } catch {
+        // Ignore missing files.
+      }
     }
   }
   return titles;
@@ -129,12 +309,26 @@ async function generateReport(): Promise<void> {
   const kbSummary = await loadKnowledgeBaseSummary();
 
   // Load generated articles (slugs)
-  const generatedArticles = await loadGeneratedArticles();
-  const titles = await loadGeneratedArticleTitles(generatedArticles);
-  const formattedArticles = generatedArticles.map((slug) => (titles[slug] ? `${titles[slug]} (${slug})` : slug));
+  const generated = await loadGeneratedArticles();
+  const titles = await loadGeneratedArticleTitles(generated.articles);
+  const formattedArticles = generated.articles.map((slug) => {
+    const label = titles[slug] ? `${titles[slug]} (${slug})` : slug;
+    const cost = generated.costs[slug];
+    return cost ? `${label} - ${formatArticleCost(cost)}` : label;
+  });
+
+  // LLM spend of the articles generated on the report date
+  const generationCost: GenerationCost = { articles: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+  for (const cost of Object.values(generated.costs)) {
+    if (!cost.generatedAt?.startsWith(targetDate)) continue;
+    generationCost.articles++;
+    generationCost.inputTokens += cost.inputTokens;
+    generationCost.outputTokens += cost.outputTokens;
+    generationCost.costUsd += cost.costUsd;
+  }
 
   // Generate report markdown
-  const reportContent = generateMarkdownReport(targetDate, generatedAt, kbSummary, formattedArticles);
+  const reportContent = generateMarkdownReport(targetDate, generatedAt, kbSummary, formattedArticles, generationCost);
 
   // Save report
   const reportFileName = `${targetDate}.md`;
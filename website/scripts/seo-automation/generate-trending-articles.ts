@@ -3,30 +3,49 @@
  * Analyzes collected knowledge base data and generates new articles
  * based on trending topics and content gaps
  *
- * Supports multiple AI providers:
- * - AICODECAT (OpenAI-compatible) - preferred
- * - Google Gemini - fallback
- * - Offline templates - last resort
+ * AI providers come from llm/providers.ts in SEO_LLM_PROVIDERS order
+ * (AICODECAT, Gemini, OpenAI-compatible, Ollama); offline templates are the
+ * last resort. Articles are saved to the drafts collection (articles/drafts.ts)
+ * and published with `npm run seo:promote <slug>`.
  */
 
 import './load-env.ts';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { CLAWDBOT_KNOWLEDGE, WRITING_STYLE } from '../clawdbot-knowledge-base.js';
+import { ARTICLES_DIR, DRAFTS_DIR, setFrontmatterFields, withStatus } from './articles/drafts.ts';
+import { buildRepairPrompt, MIN_QUALITY_SCORE, MIN_SEO_SCORE, REPAIR_ROUNDS, reviewDraft } from './articles/review.ts';
+import {
+  describeStructuredOutput,
+  formatViolations,
+  parseStructuredArticle,
+  renderArticleMdx,
+  renderFrontmatter,
+  validateFrontmatter,
+} from './articles/structured.ts';
+import { createResponseCache, formatCacheStats } from './llm/cache.ts';
+import { createCostTracker, formatCostTotals, formatUsd } from './llm/costs.ts';
+import { createLlmClient, LlmUnavailableError, resolveProviders, type LlmResponse } from './llm/providers.ts';
+import {
+  computeTopicVelocity,
+  loadTopicHistory,
+  seedTopicHistory,
+  type TopicSnapshot,
+} from './collector/topic-history.ts';
+import { loadReleaseNotes, minorVersion } from './collector/releases.ts';
+import { articleTemplatesFor, loadTaxonomy, type Taxonomy } from './collector/taxonomy.ts';
+import type { ArticleCost, ItemDigest, ReleaseNote } from './types.ts';
+import type { ArticleStatus } from '../../src/content/schema.ts';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// AI Provider Configuration
-const AICODECAT_API_URL = process.env.AICODECAT_API_URL;
-const AICODECAT_API_KEY = process.env.AICODECAT_API_KEY;
-const AICODECAT_MODEL = process.env.AICODECAT_MODEL || 'gemini-3-flash-preview';
-
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-3-flash-preview';
-const genAI = GEMINI_API_KEY ? new GoogleGenerativeAI(GEMINI_API_KEY) : null;
+// AI provider configuration, in fallback order; --no-cache / --cache-ttl control the response cache
+// SEO_MAX_COST_USD stops the run once its spend reaches the cap
+const responseCache = createResponseCache();
+const costTracker = createCostTracker();
+const llm = createLlmClient(resolveProviders(), { cache: responseCache, costs: costTracker });
 
 const PRIMARY_BRAND = 'OpenClaw';
 const PRIMARY_WEBSITE_URL = 'https://openclaw.ai/';
@@ -46,6 +65,7 @@ const EFFECTIVE_MAX_ARTICLES = Math.max(MAX_ARTICLES_PER_RUN, MIN_ARTICLES_PER_R
 const OFFLINE_MODE = process.env.OFFLINE_ARTICLE_GENERATION === 'true';
 const USE_CASES_ONLY = process.env.SEO_USE_CASES_ONLY === 'true';
 const INCLUDE_USE_CASES = process.env.SEO_INCLUDE_USE_CASES !== 'false';
+const RELEASE_NEWS_DAYS = parseCount(process.env.SEO_RELEASE_NEWS_DAYS, 30);
 const MAX_USE_CASES_PER_RUN = parseCount(
   process.env.SEO_MAX_USE_CASES_PER_RUN,
   Math.min(2, Math.max(1, Math.floor(EFFECTIVE_MAX_ARTICLES / 2)))
@@ -56,41 +76,13 @@ const MIN_DISTINCT_CATEGORIES = parseCount(
 );
 let forceOffline = OFFLINE_MODE;
 
-// Determine which AI provider to use
-const useAicodecat = AICODECAT_API_URL && AICODECAT_API_KEY;
-const AI_PROVIDER = useAicodecat ? 'aicodecat' : (genAI ? 'gemini' : 'offline');
-
-async function callAicodecatAPI(prompt: string): Promise<string> {
-  // Use Anthropic-style /v1/messages endpoint
-  const response = await fetch(`${AICODECAT_API_URL}/v1/messages`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${AICODECAT_API_KEY}`,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: AICODECAT_MODEL,
-      max_tokens: 8000,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    }),
-  });
+// SEO_DATE pins the run to a day, as in collect-analytics and generate-report,
+// so a replayed cassette sees the same dates in its prompts as the recording
+const PINNED_DATE = process.env.SEO_DATE || process.env.ANALYTICS_DATE;
+const RUN_DATE = PINNED_DATE || new Date().toISOString().split('T')[0];
+const RUN_TIME = PINNED_DATE ? new Date(`${PINNED_DATE}T23:59:59Z`).getTime() : Date.now();
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`AICODECAT API error: ${response.status} - ${error}`);
-  }
-
-  const data = await response.json();
-  // Anthropic format: content is an array with text objects
-  const content = data.content?.[0]?.text || '';
-  return content;
-}
+const AI_PROVIDER = llm.providers.length > 0 ? llm.providers.map((provider) => provider.name).join(' → ') : 'offline';
 
 interface CollectedItem {
   id: string;
@@ -99,10 +91,15 @@ interface CollectedItem {
   source: string;
   contentType?: string;
   summary?: string;
+  content?: string;
+  language?: string;
   publishedAt: string;
   collectedAt: string;
   relevanceScore: number;
   topics: string[];
+  alternates?: { id: string; url: string; source: string; publishedAt: string }[];
+  spread?: number;
+  digest?: ItemDigest;
 }
 
 interface KnowledgeBase {
@@ -112,7 +109,12 @@ interface KnowledgeBase {
 
 interface TrendingTopic {
   topic: string;
-  count: number;
+  count: number; // distinct stories
+  spread: number; // URLs those stories appeared under, syndicated copies included
+  velocity: number; // decayed recent daily rate over the trailing baseline rate
+  acceleration: number; // stories/day, latest half of the week vs the earlier half
+  trendScore: number;
+  breakout: boolean;
   recentItems: CollectedItem[];
   suggestedAngle: string;
 }
@@ -126,12 +128,25 @@ interface ArticleIdea {
   sourceItems: CollectedItem[];
   scenario?: string;
   steps?: string[];
+  breakout?: boolean;
+  releases?: ReleaseNote[]; // "What's new" ideas: every release of the minor version, newest first
 }
 
 const DATA_DIR = path.join(__dirname, '..', '..', 'data', 'knowledge-base');
-const ARTICLES_DIR = path.join(__dirname, '..', '..', 'src', 'content', 'articles');
 const GENERATED_LOG = path.join(DATA_DIR, 'generated-articles.json');
 
+interface GeneratedLog {
+  articles: string[];
+  costs: Record<string, ArticleCost>;
+}
+
+interface GeneratedArticle {
+  content: string;
+  provider: string;
+  model: string;
+  status: ArticleStatus; // `review` once the validators passed, `draft` for offline templates
+}
+
 async function loadKnowledgeBase(): Promise<KnowledgeBase> {
   const filePath = path.join(DATA_DIR, 'collected-articles.json');
   try {
@@ -144,59 +159,77 @@ async function loadKnowledgeBase(): Promise<KnowledgeBase> {
 
 async function loadExistingArticles(): Promise<Set<string>> {
   const slugs = new Set<string>();
-  try {
-    const files = await fs.readdir(ARTICLES_DIR);
-    for (const file of files) {
-      if (file.endsWith('.mdx')) {
-        slugs.add(file.replace('.mdx', ''));
+  // Drafts awaiting promotion count as existing, so they are not generated twice
+  for (const dir of [ARTICLES_DIR, DRAFTS_DIR]) {
+    try {
+      const files = await fs.readdir(dir);
+      for (const file of files) {
+        if (file.endsWith('.mdx')) {
+          slugs.add(file.replace('.mdx', ''));
+        }
       }
+    } catch {
+      // Directory might not exist
     }
-  } catch {
-    // Directory might not exist
   }
   return slugs;
 }
 
-async function loadGeneratedLog(): Promise<string[]> {
+async function loadGeneratedLog(): Promise<GeneratedLog> {
   try {
     const content = await fs.readFile(GENERATED_LOG, 'utf-8');
-    return JSON.parse(content);
+    const parsed = JSON.parse(content);
+    // Older logs are a bare slug list
+    if (Array.isArray(parsed)) return { articles: parsed, costs: {} };
+    return { articles: parsed.articles || [], costs: parsed.costs || {} };
   } catch {
-    return [];
+    return { articles: [], costs: {} };
   }
 }
 
-async function saveGeneratedLog(slugs: string[]): Promise<void> {
-  await fs.writeFile(GENERATED_LOG, JSON.stringify(slugs, null, 2));
+async function saveGeneratedLog(log: GeneratedLog): Promise<void> {
+  await fs.writeFile(GENERATED_LOG, JSON.stringify(log, null, 2));
 }
 
-function analyzeTrendingTopics(items: CollectedItem[]): TrendingTopic[] {
-  const topicCounts = new Map<string, { count: number; items: CollectedItem[] }>();
+function analyzeTrendingTopics(items: CollectedItem[], snapshots: TopicSnapshot[]): TrendingTopic[] {
+  const topicCounts = new Map<string, { count: number; spread: number; items: CollectedItem[] }>();
 
-  // Count topics and collect related items
+  // Count topics and collect related items; merged near-duplicates count once
   for (const item of items) {
     for (const topic of item.topics) {
-      const existing = topicCounts.get(topic) || { count: 0, items: [] };
+      const existing = topicCounts.get(topic) || { count: 0, spread: 0, items: [] };
       existing.count++;
-      if (existing.items.length < 5) {
-        existing.items.push(item);
-      }
+      existing.spread += item.spread || 1;
+      existing.items.push(item);
       topicCounts.set(topic, existing);
     }
   }
 
-  // Convert to array and sort by count
+  // Rank by what is rising, not by standing volume; without a persisted
+  // history the series is rebuilt from publish dates
+  const velocities = computeTopicVelocity(snapshots.length > 0 ? snapshots : seedTopicHistory(items), new Date(RUN_TIME));
+  const weekAgo = RUN_TIME - 7 * 24 * 60 * 60 * 1000;
+
   const trends: TrendingTopic[] = [];
   for (const [topic, data] of topicCounts) {
+    const velocity = velocities.get(topic);
+    const thisWeek = data.items.filter((item) => new Date(item.publishedAt || item.collectedAt).getTime() >= weekAgo);
+    const recentItems = [...thisWeek, ...data.items.filter((item) => !thisWeek.includes(item))].slice(0, 5);
+
     trends.push({
       topic,
       count: data.count,
-      recentItems: data.items,
-      suggestedAngle: suggestAngle(data.items),
+      spread: data.spread,
+      velocity: velocity?.velocity ?? 0,
+      acceleration: velocity?.acceleration ?? 0,
+      trendScore: velocity?.score ?? 0,
+      breakout: velocity?.breakout ?? false,
+      recentItems,
+      suggestedAngle: suggestAngle(recentItems),
     });
   }
 
-  return trends.sort((a, b) => b.count - a.count);
+  return trends.sort((a, b) => b.trendScore - a.trendScore || b.count - a.count || b.spread - a.spread);
 }
 
 function suggestAngle(items: CollectedItem[]): string {
@@ -225,257 +258,28 @@ function suggestAngle(items: CollectedItem[]): string {
 function generateArticleIdeas(
   trends: TrendingTopic[],
   existingSlugs: Set<string>,
-  generatedSlugs: string[]
+  generatedSlugs: string[],
+  taxonomy: Taxonomy
 ): ArticleIdea[] {
   const ideas: ArticleIdea[] = [];
   const allExisting = new Set([...existingSlugs, ...generatedSlugs]);
 
-  const topicToArticle: Record<string, { title: string; category: ArticleIdea['category']; keywords: string[] }> = {
-    // === 品牌动态类 ===
-    'brand': {
-      title: "Openclaw Weekly: What's New in Self-Hosted AI Assistants",
-      category: 'News',
-      keywords: ['openclaw', 'moltbot', 'clawdbot', 'self-hosted ai', 'ai assistant news'],
-    },
-
-    // === 操作指南类 ===
-    'agents': {
-      title: 'Building AI Agents with Moltbot: Complete Guide',
-      category: 'Advanced',
-      keywords: ['ai agents', 'moltbot agents', 'autonomous ai', 'agent workflows', 'multi-agent'],
-    },
-    'rag': {
-      title: 'RAG Implementation in Moltbot: Retrieval-Augmented Generation Guide',
-      category: 'Advanced',
-      keywords: ['rag', 'retrieval augmented generation', 'moltbot rag', 'knowledge base', 'embeddings'],
-    },
-    'automation': {
-      title: 'AI Automation Workflows with Moltbot: Practical Examples',
-      category: 'Tutorial',
-      keywords: ['ai automation', 'workflow automation', 'moltbot automation', 'task automation'],
-    },
-    'integration': {
-      title: 'Integrating Moltbot with Your Existing Tools and APIs',
-      category: 'Tutorial',
-      keywords: ['moltbot integration', 'api integration', 'webhook', 'tool integration'],
-    },
-    'local-llm': {
-      title: 'Running Local LLMs with Moltbot: Ollama and Open Source Models',
-      category: 'Tutorial',
-      keywords: ['local llm', 'ollama', 'open source llm', 'moltbot local models', 'private ai'],
-    },
-    'deployment': {
-      title: 'Deploying Moltbot: Docker, Kubernetes, and Cloud Options',
-      category: 'Tutorial',
-      keywords: ['moltbot deployment', 'docker', 'kubernetes', 'cloud deployment'],
-    },
-    'tutorials': {
-      title: 'Getting Started with Moltbot: Beginner-Friendly Tutorial',
-      category: 'Tutorial',
-      keywords: ['moltbot tutorial', 'beginner guide', 'getting started', 'first steps'],
-    },
-
-    // === 对比分析类 ===
-    'llm-providers': {
-      title: 'Comparing LLM Providers for Moltbot: Claude, GPT-4, and More',
-      category: 'Comparison',
-      keywords: ['llm providers', 'claude vs gpt', 'moltbot providers', 'ai models comparison'],
-    },
-    'frameworks': {
-      title: 'Moltbot vs LangChain vs LlamaIndex: Framework Comparison',
-      category: 'Comparison',
-      keywords: ['langchain', 'llamaindex', 'ai frameworks', 'moltbot comparison'],
-    },
-    'open-source': {
-      title: 'Open Source AI Assistants: Why Moltbot Leads the Pack',
-      category: 'Comparison',
-      keywords: ['open source ai', 'moltbot open source', 'free ai assistant', 'community'],
-    },
-
-    // === 指南类 ===
-    'self-hosting': {
-      title: 'Self-Hosting AI Assistants: Why Moltbot is the Best Choice',
-      category: 'Guide',
-      keywords: ['self-hosted ai', 'private ai', 'moltbot self-hosting', 'data privacy', 'local ai'],
-    },
-    'messaging': {
-      title: 'Multi-Platform Messaging with Moltbot: Telegram, Discord, Slack',
-      category: 'Guide',
-      keywords: ['messaging platforms', 'telegram bot', 'discord bot', 'slack bot', 'moltbot messaging'],
-    },
-    'workflows': {
-      title: 'Building Intelligent Workflows with Moltbot AI',
-      category: 'Guide',
-      keywords: ['ai workflows', 'intelligent automation', 'moltbot workflows', 'process automation'],
-    },
-    'assistants': {
-      title: 'Creating Personal AI Assistants with Moltbot',
-      category: 'Guide',
-      keywords: ['personal assistant', 'ai assistant', 'moltbot assistant', 'custom assistant'],
-    },
-
-    // === 高级技术类 ===
-    'ai-techniques': {
-      title: 'Advanced AI Techniques in Moltbot: Embeddings, Fine-tuning, and More',
-      category: 'Advanced',
-      keywords: ['embeddings', 'fine-tuning', 'ai techniques', 'moltbot advanced'],
-    },
-
-    // === AI 自动化趋势与洞察类（新增） ===
-    'ai-trends': {
-      title: 'AI Automation Trends in 2026: What Moltbot Users Should Know',
-      category: 'News',
-      keywords: ['ai trends 2026', 'automation trends', 'ai industry', 'future of ai', 'moltbot insights'],
-    },
-    'ai-productivity': {
-      title: 'How AI Automation is Transforming Personal Productivity',
-      category: 'Guide',
-      keywords: ['ai productivity', 'personal automation', 'ai assistant productivity', 'work smarter'],
-    },
-    'ai-enterprise': {
-      title: 'Enterprise AI Automation: Self-Hosted Solutions vs Cloud Services',
-      category: 'Comparison',
-      keywords: ['enterprise ai', 'self-hosted vs cloud', 'ai security', 'corporate ai', 'data sovereignty'],
-    },
-    'ai-privacy': {
-      title: 'The Privacy Advantage: Why Self-Hosted AI Matters More Than Ever',
-      category: 'Guide',
-      keywords: ['ai privacy', 'data privacy', 'self-hosted privacy', 'ai data protection', 'gdpr ai'],
-    },
-    'ai-cost': {
-      title: 'AI Automation ROI: Calculating the True Cost of LLM APIs vs Self-Hosting',
-      category: 'Comparison',
-      keywords: ['ai cost', 'llm pricing', 'self-hosted cost', 'ai roi', 'automation savings'],
-    },
-    'ai-future': {
-      title: 'The Future of Personal AI: From Chatbots to Autonomous Agents',
-      category: 'News',
-      keywords: ['future of ai', 'ai evolution', 'autonomous agents', 'ai assistants future', 'ai predictions'],
-    },
-    'ai-mistakes': {
-      title: '10 Common Mistakes When Setting Up AI Automation (And How to Avoid Them)',
-      category: 'Best Practices',
-      keywords: ['ai mistakes', 'automation pitfalls', 'ai best practices', 'common errors', 'ai tips'],
-    },
-    'ai-security': {
-      title: 'AI Security Best Practices: Protecting Your Self-Hosted Assistant',
-      category: 'Best Practices',
-      keywords: ['ai security', 'llm security', 'self-hosted security', 'ai vulnerabilities', 'secure ai'],
-    },
-    'ai-use-cases': {
-      title: 'Real-World AI Automation: 15 Use Cases That Actually Work',
-      category: 'Guide',
-      keywords: ['ai use cases', 'automation examples', 'practical ai', 'ai applications', 'real world ai'],
-    },
-    'use-case-support': {
-      title: 'Openclaw Use Case: Support Triage + FAQ',
-      category: 'Tutorial',
-      keywords: ['customer support', 'ticket triage', 'faq automation', 'helpdesk', 'support workflow'],
-    },
-    'use-case-sales': {
-      title: 'Openclaw Use Case: Sales Lead Qualification',
-      category: 'Tutorial',
-      keywords: ['sales ops', 'lead qualification', 'crm notes', 'pipeline hygiene', 'sales automation'],
-    },
-    'use-case-devops': {
-      title: 'Openclaw Use Case: DevOps Incident Summaries',
-      category: 'Tutorial',
-      keywords: ['incident response', 'runbook', 'on-call', 'alert triage', 'devops automation'],
-    },
-    'use-case-marketing': {
-      title: 'Openclaw Use Case: Marketing Research Briefs',
-      category: 'Tutorial',
-      keywords: ['marketing automation', 'research briefs', 'content outlines', 'content workflow', 'brand research'],
-    },
-    'use-case-productivity': {
-      title: 'Openclaw Use Case: Meeting Notes to Tasks',
-      category: 'Tutorial',
-      keywords: ['meeting notes', 'task extraction', 'follow-ups', 'personal productivity', 'executive assistant'],
-    },
-    'use-case-hr': {
-      title: 'Openclaw Use Case: HR Onboarding Assistant',
-      category: 'Tutorial',
-      keywords: ['hr onboarding', 'employee questions', 'policy assistant', 'internal handbook', 'people ops'],
-    },
-    'use-case-finance': {
-      title: 'Openclaw Use Case: Invoice Triage',
-      category: 'Tutorial',
-      keywords: ['finance ops', 'invoice processing', 'expense review', 'ap workflow', 'approvals'],
-    },
-    'use-case-it': {
-      title: 'Openclaw Use Case: IT Helpdesk Automation',
-      category: 'Tutorial',
-      keywords: ['it helpdesk', 'ticketing', 'device setup', 'access requests', 'internal support'],
-    },
-    'use-case-ecommerce': {
-      title: 'Openclaw Use Case: Order Support',
-      category: 'Tutorial',
-      keywords: ['ecommerce support', 'order status', 'returns', 'shipping updates', 'customer queries'],
-    },
-    'use-case-ops': {
-      title: 'Openclaw Use Case: Ops Daily Reporting',
-      category: 'Tutorial',
-      keywords: ['operations', 'daily report', 'kpi summary', 'sop updates', 'team sync'],
-    },
-    'ai-small-business': {
-      title: 'Openclaw for Small Business: Affordable AI Automation',
-      category: 'Guide',
-      keywords: ['small business ai', 'affordable ai', 'ai for startups', 'budget automation', 'sme ai'],
-    },
-    'ai-developer': {
-      title: 'AI-Powered Development: How Developers Use Moltbot to Code Faster',
-      category: 'Guide',
-      keywords: ['ai coding', 'developer productivity', 'ai pair programming', 'code automation', 'dev tools'],
-    },
-    'ai-prompts': {
-      title: 'Mastering AI Prompts: Advanced Techniques for Better Automation Results',
-      category: 'Advanced',
-      keywords: ['prompt engineering', 'ai prompts', 'better prompts', 'prompt techniques', 'llm prompts'],
-    },
-    'ai-memory': {
-      title: 'AI Memory Systems: How Moltbot Remembers Context Across Conversations',
-      category: 'Advanced',
-      keywords: ['ai memory', 'context management', 'conversation history', 'persistent memory', 'ai context'],
-    },
-    'ai-multi-agent': {
-      title: 'Multi-Agent AI Systems: Coordinating Multiple Bots for Complex Tasks',
-      category: 'Advanced',
-      keywords: ['multi-agent', 'ai coordination', 'agent orchestration', 'distributed ai', 'agent swarm'],
-    },
-    'ai-voice': {
-      title: 'Voice-Enabled AI Assistants: Adding Speech to Your Moltbot Setup',
-      category: 'Tutorial',
-      keywords: ['voice ai', 'speech recognition', 'text to speech', 'voice assistant', 'voice automation'],
-    },
-    'ai-ethics': {
-      title: 'Responsible AI Automation: Ethics and Best Practices for Personal Assistants',
-      category: 'Best Practices',
-      keywords: ['ai ethics', 'responsible ai', 'ai guidelines', 'ethical automation', 'ai responsibility'],
-    },
-    'ai-monitoring': {
-      title: 'Monitoring Your AI: Logging, Debugging, and Performance Tracking',
-      category: 'Tutorial',
-      keywords: ['ai monitoring', 'llm debugging', 'ai logging', 'performance tracking', 'ai observability'],
-    },
-    'ai-scaling': {
-      title: 'Scaling AI Automation: From Personal Use to Team Deployment',
-      category: 'Guide',
-      keywords: ['ai scaling', 'team ai', 'ai deployment', 'enterprise scaling', 'ai growth'],
-    },
-  };
-
   for (const trend of trends.slice(0, 15)) {
-    const mapping = topicToArticle[trend.topic];
+    // First template of the topic (or its nearest ancestor) not yet written
+    const mapping = articleTemplatesFor(taxonomy, trend.topic).templates
+      .map((template) => ({
+        ...template,
+        slug: template.title
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, '-')
+          .replace(/^-|-$/g, '')
+          .slice(0, 60),
+      }))
+      .find((template) => !allExisting.has(template.slug));
     if (!mapping) continue;
 
-    const slug = mapping.title
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-|-$/g, '')
-      .slice(0, 60);
-
-    // Skip if already exists or recently generated
-    if (allExisting.has(slug)) continue;
+    const slug = mapping.slug;
+    allExisting.add(slug);
 
     ideas.push({
       slug,
@@ -484,10 +288,63 @@ function generateArticleIdeas(
       keywords: mapping.keywords,
       angle: trend.suggestedAngle,
       sourceItems: trend.recentItems,
+      breakout: trend.breakout || undefined,
     });
   }
 
-  return ideas;
+  // Breakout topics jump the queue; the rest keep their trend order
+  return ideas.sort((a, b) => Number(Boolean(b.breakout)) - Number(Boolean(a.breakout)));
+}
+
+/**
+ * One "What's new in OpenClaw vX.Y" News idea for the newest stable minor
+ * version released within SEO_RELEASE_NEWS_DAYS. Patch releases roll up into
+ * their minor version, so the slug is only ever generated once per X.Y.
+ */
+function buildReleaseIdeas(
+  releases: ReleaseNote[],
+  existingSlugs: Set<string>,
+  generatedSlugs: string[]
+): ArticleIdea[] {
+  const stable = releases.filter((release) => !release.prerelease);
+  if (stable.length === 0) return [];
+
+  const latestMinor = minorVersion(stable[0].version);
+  const group = stable.filter((release) => minorVersion(release.version) === latestMinor);
+  const newestAt = new Date(group[0].publishedAt).getTime();
+  if (!Number.isFinite(newestAt) || RUN_TIME - newestAt > RELEASE_NEWS_DAYS * 24 * 60 * 60 * 1000) return [];
+
+  const slug = `whats-new-in-openclaw-v${latestMinor.replace(/[^0-9a-z]+/gi, '-')}`;
+  if (existingSlugs.has(slug) || generatedSlugs.includes(slug)) return [];
+
+  const hasBreaking = group.some((release) => release.breakingChanges.length > 0);
+  const hasCommands = group.some((release) => release.newCommands.length > 0);
+  const subtitle = hasCommands
+    ? 'New Commands and Upgrades'
+    : hasBreaking
+      ? 'Breaking Changes'
+      : 'Release Highlights';
+
+  return [{
+    slug,
+    title: `What's New in OpenClaw v${latestMinor}: ${subtitle}`,
+    category: 'News',
+    keywords: [`openclaw v${latestMinor}`, 'openclaw release', 'openclaw changelog', "what's new in openclaw", 'openclaw upgrade'],
+    angle: 'news-update',
+    sourceItems: group.map((release) => ({
+      id: `release-${release.tag}`,
+      title: release.title,
+      url: release.url,
+      source: 'github-releases',
+      contentType: 'news',
+      summary: release.highlights.slice(0, 3).join('; ') || undefined,
+      publishedAt: release.publishedAt,
+      collectedAt: release.publishedAt,
+      relevanceScore: 100,
+      topics: ['brand'],
+    })),
+    releases: group,
+  }];
 }
 
 function buildFallbackIdeas(
@@ -1020,19 +877,51 @@ function selectDiverseIdeas(
   };
 }
 
+function truncateContext(text: string, maxChars: number): string {
+  const flattened = text.replace(/\s+/g, ' ').trim();
+  return flattened.length > maxChars ? `${flattened.slice(0, maxChars).trim()}…` : flattened;
+}
+
+/** The frontmatter the prompt asks for; dates and the image path are fixed by the generator */
+function articleFrontmatter(idea: ArticleIdea): Record<string, unknown> {
+  return {
+    title: idea.title,
+    description: '120-160 character description here',
+    pubDate: RUN_DATE,
+    modifiedDate: RUN_DATE,
+    category: idea.category,
+    tags: idea.keywords.slice(0, 5),
+    keywords: [...idea.keywords, 'openclaw', 'moltbot', 'clawdbot'],
+    readingTime: 10,
+    featured: false,
+    author: 'OpenClaw Team',
+    image: `/images/articles/${idea.slug}.jpg`,
+    imageAlt: idea.title,
+    articleType: idea.category === 'Tutorial' ? 'HowTo' : 'TechArticle',
+    difficulty: idea.category === 'Advanced' ? 'advanced' : idea.category === 'Tutorial' ? 'beginner' : 'intermediate',
+    sources: [PRIMARY_WEBSITE_URL, PRIMARY_DOCS_URL, PRIMARY_GITHUB_URL],
+  };
+}
+
 function buildArticlePrompt(idea: ArticleIdea): string {
   const kb = CLAWDBOT_KNOWLEDGE;
   const style = WRITING_STYLE;
 
+  // A digest beats a truncated page or feed blurb: short, neutral and complete
   const sourceContext = idea.sourceItems
-    .map((item) => `- "${item.title}" (${item.source}): ${item.summary || 'No summary'}`)
+    .map((item) => {
+      const context = item.digest
+        ? `${item.digest.summary}${item.digest.entities.length > 0 ? ` (Key entities: ${item.digest.entities.join(', ')})` : ''}`
+        : item.content ? truncateContext(item.content, 800) : item.summary || 'No summary';
+      return `- "${item.title}" (${item.source}): ${context}`;
+    })
     .join('\n');
 
   return `You are an expert technical writer creating a high-quality, SEO-optimized article about ${PRIMARY_BRAND} (legacy names: Moltbot, Clawdbot).
 
 ## CONTEXT: TRENDING TOPICS
 
-This article is inspired by current industry trends. Here are recent relevant articles from the web:
+This article is inspired by current industry trends.${idea.breakout ? ' This topic is breaking out this week, so lead with what changed recently.' : ''} Here are recent relevant articles from the web:
 
 ${sourceContext}
 
@@ -1070,7 +959,7 @@ ${kb.security.bestPractices.slice(0, 5).map((p) => `- ${p}`).join('\n')}
 **Keywords:** ${idea.keywords.join(', ')}
 **Angle:** ${idea.angle}
 **Slug:** ${idea.slug}
-**Title Constraint:** Keep the title exactly as provided (<= 60 characters)
+**Title Constraint:** ${idea.title.length <= 60 ? 'Keep the title exactly as provided' : `Shorten the title to 60 characters or fewer (it is ${idea.title.length}), keeping its main keyword`}
 
 ${idea.scenario ? `## USE CASE REQUIREMENTS
 
@@ -1079,6 +968,13 @@ ${idea.scenario ? `## USE CASE REQUIREMENTS
 **Required Steps:**
 ${(idea.steps || []).map((step, index) => `${index + 1}. ${step}`).join('\n')}
 ` : ''}
+${idea.releases ? `## RELEASE NOTES (OFFICIAL, NEWEST FIRST)
+
+${idea.releases.map((release) => `### ${release.version} (${release.publishedAt.split('T')[0]}) - ${release.url}
+${release.breakingChanges.length > 0 ? `Breaking changes:\n${release.breakingChanges.map((change) => `- ${change}`).join('\n')}\n` : ''}${release.newCommands.length > 0 ? `New commands: ${release.newCommands.map((command) => `\`${command}\``).join(', ')}\n` : ''}${release.highlights.map((highlight) => `- ${highlight}`).join('\n')}`).join('\n\n')}
+
+Cover every breaking change with concrete upgrade steps. New commands listed here are verified for this release.
+` : ''}
 
 ## REQUIRED STRUCTURE
 
@@ -1097,28 +993,7 @@ ${style.tone.guidelines.map((g) => `- ${g}`).join('\n')}
 
 ## OUTPUT FORMAT
 
-Write in MDX format with this exact frontmatter:
-
----
-title: "${idea.title}"
-description: "120-160 character description here"
-pubDate: ${new Date().toISOString().split('T')[0]}
-modifiedDate: ${new Date().toISOString().split('T')[0]}
-category: "${idea.category}"
-tags: ${JSON.stringify(idea.keywords.slice(0, 5))}
-keywords: ${JSON.stringify([...idea.keywords, 'openclaw', 'moltbot', 'clawdbot'])}
-readingTime: 10
-featured: false
-author: "OpenClaw Team"
-image: "/images/articles/${idea.slug}.jpg"
-imageAlt: "${idea.title}"
-articleType: "${idea.category === 'Tutorial' ? 'HowTo' : 'TechArticle'}"
-difficulty: "${idea.category === 'Advanced' ? 'advanced' : idea.category === 'Tutorial' ? 'beginner' : 'intermediate'}"
-sources:
-  - "${PRIMARY_WEBSITE_URL}"
-  - "${PRIMARY_DOCS_URL}"
-  - "${PRIMARY_GITHUB_URL}"
----
+${describeStructuredOutput(articleFrontmatter(idea))}
 
 ## CONTENT REQUIREMENTS
 
@@ -1131,47 +1006,48 @@ sources:
 
 ## CTA INTEGRATION
 
-Include these 3 CTA placements:
-
-\`\`\`mdx
-import HostingCTA from '../../components/CTA/HostingCTA.astro';
-
-<HostingCTA context="setup" />  {/* After introduction */}
-<HostingCTA context="inline" /> {/* Mid-article */}
-<HostingCTA context="conclusion" /> {/* In conclusion */}
-\`\`\`
+Three HostingCTA blocks are inserted for you after the introduction, mid-article and in the conclusion; write the text around them so each placement reads naturally.
 
 ## FREE SERVICE MENTION
 
 Include a section mentioning: "We offer a free OpenClaw installation service. Get started at [Contact](/contact)."
 
-Now write the complete, trending-focused article:`;
+Now write the complete, trending-focused article as JSON:`;
+}
+
+/** Cut at a word boundary so the text fits in `max` characters */
+function fitLength(text: string, max: number): string {
+  if (text.length <= max) return text;
+  const cut = text.slice(0, max + 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return (lastSpace > 0 ? cut.slice(0, lastSpace) : text.slice(0, max)).replace(/[\s,;:.\-–—]+$/, '');
 }
 
-function generateOfflineArticle(idea: ArticleIdea): string {
+/**
+ * Template article for when no provider answers. The frontmatter goes through
+ * the collection schema like an LLM draft's; templates whose fields still
+ * break it after clamping return null instead of failing the Astro build.
+ */
+function generateOfflineArticle(idea: ArticleIdea): string | null {
   const kb = CLAWDBOT_KNOWLEDGE;
-  const today = new Date().toISOString().split('T')[0];
-
-  const frontmatter = `---
-title: "${idea.title}"
-description: "Learn ${idea.title.toLowerCase()} with OpenClaw. Step-by-step guide covering setup, best practices, and real-world examples for ${idea.keywords[0]}."
-pubDate: ${today}
-modifiedDate: ${today}
-category: "${idea.category}"
-tags: ${JSON.stringify(idea.keywords.slice(0, 5))}
-keywords: ${JSON.stringify([...idea.keywords, 'openclaw', 'moltbot', 'clawdbot'])}
-readingTime: 10
-featured: false
-author: "OpenClaw Team"
-image: "/images/articles/${idea.slug}.jpg"
-imageAlt: "${idea.title}"
-articleType: "${idea.category === 'Tutorial' ? 'HowTo' : 'TechArticle'}"
-difficulty: "${idea.category === 'Advanced' ? 'advanced' : idea.category === 'Tutorial' ? 'beginner' : 'intermediate'}"
-sources:
-  - "${PRIMARY_WEBSITE_URL}"
-  - "${PRIMARY_DOCS_URL}"
-  - "${PRIMARY_GITHUB_URL}"
----`;
+
+  // Long titles get the shorter sentence; the longer one is clamped as a last resort
+  const descriptions = [
+    `Learn ${idea.title.toLowerCase()} with OpenClaw. Step-by-step guide covering setup, best practices, and real-world examples for ${idea.keywords[0]}.`,
+    `Learn ${idea.title.toLowerCase()} with OpenClaw: setup, best practices and real-world examples.`,
+  ];
+  const fields: Record<string, unknown> = {
+    ...articleFrontmatter(idea),
+    title: fitLength(idea.title, 60),
+    description: descriptions.find((text) => text.length >= 120 && text.length <= 160) ?? `${fitLength(descriptions[0], 159)}.`,
+  };
+  const violations = validateFrontmatter(fields);
+  if (violations.length > 0) {
+    console.log(`   ❌ Offline template breaks the schema in ${violations.length} field(s); not saving:`);
+    violations.forEach((violation) => console.log(`      - ${violation.field}: ${violation.message}`));
+    return null;
+  }
+  const frontmatter = `---\n${renderFrontmatter(fields)}\n---`;
 
   const trendingSources = idea.sourceItems
     .slice(0, 3)
@@ -1420,6 +1296,16 @@ Configure Moltbot for your specific use case. The configuration file is located
 Send a test message through your preferred channel (Telegram, Discord, etc.) to verify everything is working correctly.
 ` : ''}
 
+${idea.releases ? `
+## What Changed
+
+${idea.releases.map((release) => `### ${release.version} (${release.publishedAt.split('T')[0]})
+
+${release.highlights.map((highlight) => `- ${highlight}`).join('\n')}
+${release.breakingChanges.length > 0 ? `\n**Breaking changes:**\n\n${release.breakingChanges.map((change) => `- ${change}`).join('\n')}\n` : ''}${release.newCommands.length > 0 ? `\n**New commands:** ${release.newCommands.map((command) => `\`${command}\``).join(', ')}\n` : ''}
+[Full release notes](${release.url})`).join('\n\n')}
+` : ''}
+
 ${idea.category === 'Comparison' ? `
 ## Feature Comparison
 
@@ -1509,27 +1395,6 @@ For more information, check out the [official documentation](${kb.product.docs})
   return frontmatter + body;
 }
 
-function normalizeGeneratedArticle(raw: string): string {
-  let text = raw.trim();
-
-  if (text.startsWith('```mdx')) {
-    text = text.replace(/^```mdx\n/, '').replace(/\n```$/, '');
-  }
-  if (text.startsWith('```markdown')) {
-    text = text.replace(/^```markdown\n/, '').replace(/\n```$/, '');
-  }
-  if (text.startsWith('```')) {
-    text = text.replace(/^```\n?/, '').replace(/\n?```$/, '');
-  }
-
-  const frontmatterIndex = text.indexOf('---\n');
-  if (frontmatterIndex > 0) {
-    text = text.slice(frontmatterIndex).trim();
-  }
-
-  return text;
-}
-
 function enforceBrandAndSourceConsistency(content: string): string {
   return content
     .replace(/\bopenclaw\b/gi, PRIMARY_BRAND)
@@ -1550,81 +1415,151 @@ function isValidArticle(content: string): boolean {
   return true;
 }
 
-async function generateArticle(idea: ArticleIdea): Promise<string | null> {
+/**
+ * Parse, validate and render a structured response; throws so the client
+ * tries the next provider. `onReject` hears about answers that were rejected,
+ * which tells a bad article apart from an unreachable provider.
+ */
+function acceptStructuredArticle(idea: ArticleIdea, onReject?: () => void): (text: string) => string {
+  const fixed = articleFrontmatter(idea);
+  return (text) => {
+    const { article, violations } = parseStructuredArticle(text, {
+      pubDate: fixed.pubDate,
+      modifiedDate: fixed.modifiedDate,
+      image: fixed.image,
+    });
+    if (!article || violations.length > 0) {
+      console.log(`   ❌ ${violations.length} schema violation(s):`);
+      violations.forEach((violation) => console.log(`      - ${violation.field}: ${violation.message}`));
+      onReject?.();
+      throw new Error(`Schema violations: ${formatViolations(violations)}`);
+    }
+    const mdx = enforceBrandAndSourceConsistency(renderArticleMdx(article));
+    if (!isValidArticle(mdx)) {
+      onReject?.();
+      throw new Error('Invalid article format');
+    }
+    return mdx;
+  };
+}
+
+/**
+ * Run the SEO and quality validators on a draft and send their findings back
+ * for up to REPAIR_ROUNDS rounds. Returns null when the draft never clears
+ * the thresholds, so it is not saved.
+ */
+async function reviewAndRepair(idea: ArticleIdea, draft: LlmResponse): Promise<LlmResponse | null> {
+  const accept = acceptStructuredArticle(idea);
+  let current = draft;
+
+  for (let round = 0; ; round++) {
+    const review = await reviewDraft(current.text, idea.slug);
+    console.log(`   🔎 Review: SEO ${review.seoScore}/100, quality ${review.qualityScore}/10${review.passed ? ' ✓' : ''}`);
+    if (review.passed) return current;
+
+    review.issues.forEach((issue) => console.log(`      - ${issue}`));
+    if (round >= REPAIR_ROUNDS) {
+      console.log(`   ❌ Still below the thresholds after ${REPAIR_ROUNDS} repair round(s); not saving`);
+      return null;
+    }
+    if (costTracker.budgetExceeded()) {
+      console.log(`   💸 Budget reached before repair round ${round + 1}; not saving`);
+      return null;
+    }
+
+    console.log(`   🔧 Repair round ${round + 1}/${REPAIR_ROUNDS}`);
+    try {
+      current = await llm.generate(buildRepairPrompt(current.text, review, articleFrontmatter(idea)), { accept });
+    } catch (error) {
+      if (!(error instanceof LlmUnavailableError)) throw error;
+      console.log(`   ❌ Repair failed on every provider; not saving`);
+      return null;
+    }
+  }
+}
+
+/**
+ * Offline templates get the same review as LLM drafts but no repair rounds.
+ * One that misses the thresholds is still saved as a `draft`, with its scores
+ * and findings in `reviewIssues` for whoever edits it before promotion.
+ */
+async function reviewOfflineDraft(idea: ArticleIdea, content: string | null): Promise<GeneratedArticle | null> {
+  if (content === null) return null;
+
+  const review = await reviewDraft(content, idea.slug);
+  console.log(`   🔎 Review: SEO ${review.seoScore}/100, quality ${review.qualityScore}/10${review.passed ? ' ✓' : ''}`);
+  const article: GeneratedArticle = { content, provider: 'offline', model: 'template', status: 'draft' };
+  if (review.passed) return article;
+
+  review.issues.forEach((issue) => console.log(`      - ${issue}`));
+  console.log(`   ⚠️ Below the thresholds; saving as draft with the review issues recorded`);
+  const reviewIssues = [
+    `[Scores] SEO ${review.seoScore}/100 (needs ${MIN_SEO_SCORE}), quality ${review.qualityScore}/10 (needs ${MIN_QUALITY_SCORE})`,
+    ...review.issues,
+  ];
+  return { ...article, content: setFrontmatterFields(content, { reviewIssues: JSON.stringify(reviewIssues) }) };
+}
+
+async function generateArticle(idea: ArticleIdea): Promise<GeneratedArticle | null> {
   console.log(`\n📝 Generating: ${idea.title}`);
-  console.log(`   Category: ${idea.category} | Angle: ${idea.angle}`);
+  console.log(`   Category: ${idea.category} | Angle: ${idea.angle}${idea.breakout ? ' | 🚀 breakout' : ''}`);
   console.log(`   Based on ${idea.sourceItems.length} trending sources`);
   console.log(`   Provider: ${AI_PROVIDER}`);
 
   // Use offline mode if forced
   if (forceOffline) {
     console.log(`   📋 Using offline template generation`);
-    return generateOfflineArticle(idea);
+    return reviewOfflineDraft(idea, generateOfflineArticle(idea));
   }
 
   const prompt = buildArticlePrompt(idea);
 
-  // Try AICODECAT first (OpenAI-compatible API)
-  if (useAicodecat) {
+  let rejected = false;
+  if (llm.providers.length > 0) {
+    let draft: LlmResponse | null = null;
     try {
-      console.log(`   🤖 Using AICODECAT API (${AICODECAT_MODEL})`);
-      let text = await callAicodecatAPI(prompt);
-      text = normalizeGeneratedArticle(text);
-      text = enforceBrandAndSourceConsistency(text);
-      if (!isValidArticle(text)) {
-        throw new Error('Invalid article format from AICODECAT');
-      }
-      console.log(`   ✅ Generated successfully via AICODECAT`);
-      return text;
+      draft = await llm.generate(prompt, { accept: acceptStructuredArticle(idea, () => { rejected = true; }) });
+      console.log(`   ✅ Generated successfully via ${draft.provider} (${draft.model})`);
     } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      console.error(`   ⚠️ AICODECAT error: ${message.substring(0, 100)}`);
-      // Fall through to try Gemini or offline
+      // Every provider failed and the client already logged why; anything else (a replay miss) ends the run
+      if (!(error instanceof LlmUnavailableError)) throw error;
     }
-  }
 
-  // Try Gemini as fallback
-  if (genAI) {
-    try {
-      console.log(`   🤖 Using Gemini API (${GEMINI_MODEL})`);
-      const model = genAI.getGenerativeModel({ model: GEMINI_MODEL });
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      let text = normalizeGeneratedArticle(response.text());
-      text = enforceBrandAndSourceConsistency(text);
-      if (!isValidArticle(text)) {
-        throw new Error('Invalid article format from Gemini');
-      }
-      console.log(`   ✅ Generated successfully via Gemini`);
-      return text;
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      console.error(`   ⚠️ Gemini error: ${message.substring(0, 80)}`);
+    if (draft) {
+      const reviewed = await reviewAndRepair(idea, draft);
+      return reviewed && { content: reviewed.text, provider: reviewed.provider, model: reviewed.model, status: 'review' };
     }
   }
 
-  // Fallback to offline generation
+  // Fallback to offline generation; the rest of the run stays offline only
+  // when no provider answered, not when one answered with a rejected article
   console.log(`   📋 Falling back to offline template generation`);
-  forceOffline = true;
-  return enforceBrandAndSourceConsistency(generateOfflineArticle(idea));
+  if (!rejected) forceOffline = true;
+  const content = generateOfflineArticle(idea);
+  return reviewOfflineDraft(idea, content === null ? null : enforceBrandAndSourceConsistency(content));
 }
 
-async function saveArticle(slug: string, content: string): Promise<void> {
-  await fs.mkdir(ARTICLES_DIR, { recursive: true });
-  const filePath = path.join(ARTICLES_DIR, `${slug}.mdx`);
-  await fs.writeFile(filePath, content, 'utf-8');
-  console.log(`   💾 Saved: ${slug}.mdx`);
+/** Generated articles go to the drafts collection; `npm run seo:promote` publishes them */
+async function saveDraft(slug: string, content: string, status: ArticleStatus): Promise<void> {
+  await fs.mkdir(DRAFTS_DIR, { recursive: true });
+  const filePath = path.join(DRAFTS_DIR, `${slug}.mdx`);
+  await fs.writeFile(filePath, withStatus(content, status), 'utf-8');
+  console.log(`   💾 Saved draft (${status}): drafts/${slug}.mdx → /preview/${slug}`);
 }
 
 async function generateTrendingArticles(): Promise<void> {
-  const modelInfo = useAicodecat ? `AICODECAT (${AICODECAT_MODEL})` : (genAI ? `Gemini (${GEMINI_MODEL})` : 'Offline');
+  const modelInfo = llm.providers[0]?.label || 'Offline';
 
   console.log('╔════════════════════════════════════════════════════════════╗');
   console.log('║       TRENDING ARTICLE GENERATOR (SEO Automation)          ║');
   console.log('╠════════════════════════════════════════════════════════════╣');
-  console.log(`║  Date: ${new Date().toISOString().split('T')[0].padEnd(51)}║`);
+  console.log(`║  Date: ${RUN_DATE.padEnd(51)}║`);
   console.log(`║  Provider: ${modelInfo.padEnd(47)}║`);
   console.log(`║  Max Articles: ${String(EFFECTIVE_MAX_ARTICLES).padEnd(43)}║`);
+  console.log(`║  Review: ${`SEO ≥ ${MIN_SEO_SCORE}, quality ≥ ${MIN_QUALITY_SCORE}, ${REPAIR_ROUNDS} repair round(s)`.padEnd(49)}║`);
+  if (costTracker.maxCostUsd !== null) {
+    console.log(`║  Budget: ${formatUsd(costTracker.maxCostUsd).padEnd(49)}║`);
+  }
   if (MIN_ARTICLES_PER_RUN > 0) {
     console.log(`║  Min Articles: ${String(MIN_ARTICLES_PER_RUN).padEnd(43)}║`);
   }
@@ -1642,7 +1577,8 @@ async function generateTrendingArticles(): Promise<void> {
   const existingSlugs = await loadExistingArticles();
   console.log(`📄 Existing articles: ${existingSlugs.size}`);
 
-  const generatedSlugs = await loadGeneratedLog();
+  const generatedLog = await loadGeneratedLog();
+  const generatedSlugs = generatedLog.articles;
   console.log(`🔄 Previously generated: ${generatedSlugs.length}`);
 
   let ideas: ArticleIdea[] = [];
@@ -1652,13 +1588,25 @@ async function generateTrendingArticles(): Promise<void> {
     ideas = buildUseCaseIdeas(existingSlugs, generatedSlugs, [], kb.items);
   } else {
     // Analyze trends
-    const trends = analyzeTrendingTopics(kb.items);
+    const topicHistory = await loadTopicHistory();
+    const trends = analyzeTrendingTopics(kb.items, topicHistory.snapshots);
     console.log(`\n📈 Top Trending Topics:`);
     trends.slice(0, 10).forEach((t, i) => {
-      console.log(`   ${i + 1}. ${t.topic}: ${t.count} mentions (${t.suggestedAngle})`);
+      const marker = t.breakout ? ' 🚀 breakout' : '';
+      console.log(`   ${i + 1}. ${t.topic}: ${t.velocity}x velocity, ${t.count} stories, ${t.spread} mentions (${t.suggestedAngle})${marker}`);
     });
 
-    const primaryIdeas = generateArticleIdeas(trends, existingSlugs, generatedSlugs);
+    // Our own releases come first: readers mostly want to know what changed in OpenClaw
+    const releaseNotes = await loadReleaseNotes();
+    const releaseIdeas = buildReleaseIdeas(releaseNotes.releases, existingSlugs, generatedSlugs);
+    if (releaseIdeas.length > 0) {
+      console.log(`\n🏷️ Release idea: ${releaseIdeas[0].title}`);
+    }
+
+    const primaryIdeas = [
+      ...releaseIdeas,
+      ...generateArticleIdeas(trends, existingSlugs, generatedSlugs, await loadTaxonomy()),
+    ];
     const useCaseIdeas = INCLUDE_USE_CASES
       ? buildUseCaseIdeas(existingSlugs, generatedSlugs, primaryIdeas, kb.items)
       : [];
@@ -1731,13 +1679,31 @@ async function generateTrendingArticles(): Promise<void> {
   let successCount = 0;
   const newSlugs: string[] = [];
 
+  const costs: Record<string, ArticleCost> = {};
+
   for (const idea of ideas) {
-    const content = await generateArticle(idea);
-    if (content) {
-      await saveArticle(idea.slug, content);
+    if (costTracker.budgetExceeded()) {
+      const remaining = ideas.length - ideas.indexOf(idea);
+      console.log(`\n💸 Budget of ${formatUsd(costTracker.maxCostUsd ?? 0)} reached (${formatUsd(costTracker.totals.costUsd)} spent); skipping ${remaining} article(s)`);
+      break;
+    }
+
+    const mark = { ...costTracker.totals };
+    const article = await generateArticle(idea);
+    if (article) {
+      await saveDraft(idea.slug, article.content, article.status);
       newSlugs.push(idea.slug);
       successCount++;
 
+      const spent = costTracker.since(mark);
+      costs[idea.slug] = {
+        generatedAt: new Date().toISOString(),
+        provider: article.provider,
+        model: article.model,
+        ...spent,
+      };
+      console.log(`   💰 ${formatCostTotals(spent)}`);
+
       // Rate limiting
       if (ideas.indexOf(idea) < ideas.length - 1) {
         await new Promise((resolve) => setTimeout(resolve, 2000));
@@ -1746,7 +1712,10 @@ async function generateTrendingArticles(): Promise<void> {
   }
 
   // Update generated log
-  await saveGeneratedLog([...generatedSlugs, ...newSlugs]);
+  await saveGeneratedLog({
+    articles: [...generatedSlugs, ...newSlugs],
+    costs: { ...generatedLog.costs, ...costs },
+  });
 
   // Summary
   console.log('\n╔════════════════════════════════════════════════════════════╗');
@@ -1758,12 +1727,20 @@ async function generateTrendingArticles(): Promise<void> {
     console.log(`║     - ${slug.padEnd(51)}║`);
   });
   console.log('╚════════════════════════════════════════════════════════════╝');
+  console.log(`💾 LLM response cache: ${formatCacheStats(responseCache)}`);
+  console.log(`💰 LLM usage: ${formatCostTotals(costTracker.totals, costTracker.maxCostUsd)}`);
+  if (newSlugs.length > 0) {
+    console.log('👀 Preview drafts under /preview/<slug>, publish with: npm run seo:promote <slug>');
+  }
 }
 
 // Run
-if (!useAicodecat && !GEMINI_API_KEY) {
+if (llm.providers.length === 0) {
   console.warn('Warning: No AI API configured. Using offline template generation.');
-  console.warn('Set AICODECAT_API_URL + AICODECAT_API_KEY or GEMINI_API_KEY for AI generation.');
+  console.warn('Set AICODECAT_API_URL + AICODECAT_API_KEY, GEMINI_API_KEY, OPENAI_API_KEY or OLLAMA_MODEL for AI generation.');
 }
 
-generateTrendingArticles().catch(console.error);
+generateTrendingArticles().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,191 @@
+/**
+ * HTTP Cache - Conditional GET and rate-limit bookkeeping for feed fetches
+ *
+ * Validators (ETag / Last-Modified) are stored per URL in
+ * data/knowledge-base/http-cache.json so the next run can send
+ * If-None-Match / If-Modified-Since. A 304 means "no new items"; the items
+ * from the previous run are already in the knowledge base. Validators are
+ * not sent while recording or replaying cassettes: cassette keys ignore
+ * headers, so a recorded 304 would replay as an empty feed on a clean checkout.
+ *
+ * 429 and 503 responses with Retry-After block the host until the given
+ * time. Short waits are slept through once; longer ones skip the host for
+ * the rest of the run (and for later runs until the block expires). Skipped
+ * requests are counted in the run's fetch policy stats when given.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { getHttpMode } from './cassette.ts';
+import type { FetchPolicyStats } from './polite.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const HTTP_CACHE_FILE = process.env.SEO_HTTP_CACHE_FILE
+  || path.join(__dirname, '..', '..', '..', 'data', 'knowledge-base', 'http-cache.json');
+
+const HTTP_CACHE_ENABLED = !['0', 'false', 'off'].includes((process.env.SEO_HTTP_CACHE || '').toLowerCase());
+const MAX_RETRY_AFTER_WAIT_MS = (Number.parseInt(process.env.SEO_MAX_RETRY_AFTER_SECONDS || '', 10) || 30) * 1000;
+const DEFAULT_RATE_LIMIT_MS = 60 * 60 * 1000;
+const ENTRY_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+type FetchFn = (url: string, options?: RequestInit) => Promise<Response>;
+
+export interface HttpCacheEntry {
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: string;
+  lastStatus: number;
+}
+
+export interface HttpCacheFile {
+  lastUpdated: string;
+  entries: Record<string, HttpCacheEntry>;
+  blockedHosts: Record<string, string>;
+}
+
+export function isNotModified(response: Response): boolean {
+  return response.status === 304;
+}
+
+export async function loadHttpCache(filePath = HTTP_CACHE_FILE): Promise<HttpCacheFile> {
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const parsed = JSON.parse(content) as HttpCacheFile;
+    return {
+      lastUpdated: parsed.lastUpdated || '',
+      entries: parsed.entries || {},
+      blockedHosts: parsed.blockedHosts || {},
+    };
+  } catch {
+    return { lastUpdated: '', entries: {}, blockedHosts: {} };
+  }
+}
+
+export async function saveHttpCache(cache: HttpCacheFile, filePath = HTTP_CACHE_FILE): Promise<void> {
+  const now = Date.now();
+
+  // Drop validators nobody has asked for in a month and expired host blocks
+  for (const [url, entry] of Object.entries(cache.entries)) {
+    if (now - new Date(entry.fetchedAt).getTime() > ENTRY_MAX_AGE_MS) {
+      delete cache.entries[url];
+    }
+  }
+  for (const [host, until] of Object.entries(cache.blockedHosts)) {
+    if (new Date(until).getTime() <= now) {
+      delete cache.blockedHosts[host];
+    }
+  }
+
+  cache.lastUpdated = new Date().toISOString();
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(cache, null, 2));
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return Number.parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function rateLimitedResponse(until: string): Response {
+  return new Response(null, {
+    status: 429,
+    statusText: 'Too Many Requests',
+    headers: { 'Retry-After': new Date(until).toUTCString() },
+  });
+}
+
+function isRateLimited(response: Response): boolean {
+  return response.status === 429 || (response.status === 503 && response.headers.has('retry-after'));
+}
+
+/**
+ * Wrap a fetch function with conditional GET and Retry-After handling.
+ * Requests to a blocked host resolve to a synthetic 429 without touching
+ * the network, so callers handle them like any other non-ok response.
+ */
+export function createCachedFetch(fetchFn: FetchFn, cache: HttpCacheFile, policyStats?: FetchPolicyStats): FetchFn {
+  if (!HTTP_CACHE_ENABLED) return fetchFn;
+
+  const cachedFetch = async (url: string, options: RequestInit = {}, allowWait = true): Promise<Response> => {
+    const method = (options.method || 'GET').toUpperCase();
+    if (method !== 'GET') return fetchFn(url, options);
+
+    const host = hostOf(url);
+    const blockedUntil = cache.blockedHosts[host];
+    if (blockedUntil && new Date(blockedUntil).getTime() > Date.now()) {
+      if (policyStats) policyStats.skippedRateLimited++;
+      return rateLimitedResponse(blockedUntil);
+    }
+
+    const headers = new Headers(options.headers);
+    const entry = getHttpMode() === 'live' ? cache.entries[url] : undefined;
+    if (entry?.etag && !headers.has('If-None-Match')) {
+      headers.set('If-None-Match', entry.etag);
+    }
+    if (entry?.lastModified && !headers.has('If-Modified-Since')) {
+      headers.set('If-Modified-Since', entry.lastModified);
+    }
+
+    const response = await fetchFn(url, { ...options, headers });
+
+    if (isRateLimited(response)) {
+      const waitMs = parseRetryAfter(response.headers.get('retry-after')) ?? DEFAULT_RATE_LIMIT_MS;
+      if (allowWait && waitMs <= MAX_RETRY_AFTER_WAIT_MS) {
+        await new Promise((resolve) => setTimeout(resolve, waitMs));
+        return cachedFetch(url, options, false);
+      }
+      cache.blockedHosts[host] = new Date(Date.now() + waitMs).toISOString();
+      console.warn(`  ⏳ ${host} rate-limited us (HTTP ${response.status}), backing off until ${cache.blockedHosts[host]}`);
+      return response;
+    }
+
+    if (isNotModified(response)) {
+      if (entry) {
+        entry.fetchedAt = new Date().toISOString();
+        entry.lastStatus = 304;
+      }
+      return response;
+    }
+
+    if (response.ok) {
+      const etag = response.headers.get('etag');
+      const lastModified = response.headers.get('last-modified');
+      if (etag || lastModified) {
+        cache.entries[url] = {
+          etag: etag || undefined,
+          lastModified: lastModified || undefined,
+          fetchedAt: new Date().toISOString(),
+          lastStatus: response.status,
+        };
+      } else {
+        delete cache.entries[url];
+      }
+    }
+
+    return response;
+  };
+
+  return (url, options) => cachedFetch(url, options);
+}
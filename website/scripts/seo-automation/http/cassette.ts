@@ -0,0 +1,204 @@
+/**
+ * HTTP Cassettes - Record and replay network traffic for the seo:* scripts
+ *
+ * SEO_HTTP_MODE=record  pass requests through and save each response
+ * SEO_HTTP_MODE=replay  answer requests from saved responses, never touch the network
+ * (unset / live)        plain fetch
+ *
+ * Interactions are stored one file per request under
+ * data/cassettes/<SEO_CASSETTE>/, keyed by method, URL and body. Credentials
+ * travel in headers and are never written; API keys in query strings are
+ * redacted before hashing so a replay does not need the real key.
+ *
+ * Request bodies (LLM prompts) must match the recording byte for byte: run
+ * the replay with SEO_DATE set to the recorded day. A request with no saved
+ * response throws CassetteMissError, which callers let through instead of
+ * treating it as an outage.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export type HttpMode = 'live' | 'record' | 'replay';
+
+interface CassetteEntry {
+  recordedAt: string;
+  request: {
+    method: string;
+    url: string;
+    body?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+    encoding: 'utf8' | 'base64';
+  };
+}
+
+const SECRET_QUERY_PARAMS = ['key', 'api_key', 'apikey', 'token', 'access_token', 'client_secret'];
+const TEXT_CONTENT_TYPE = /^(text\/|application\/(json|xml|rss\+xml|atom\+xml|javascript|x-www-form-urlencoded)|[^;]*\+json|[^;]*\+xml)/i;
+
+/** The replay diverged from the recording; not a network or provider failure */
+export class CassetteMissError extends Error {
+  constructor(method: string, url: string) {
+    super(`No cassette entry for ${method} ${url} in ${getCassetteDir()} (record it with SEO_HTTP_MODE=record, or set SEO_DATE to the recorded day)`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+/** Also true when an SDK (@google/generative-ai) rewrapped the miss in its own error */
+export function isCassetteMiss(error: unknown): boolean {
+  return error instanceof CassetteMissError || (error instanceof Error && error.message.includes('No cassette entry for '));
+}
+
+const nativeFetch: typeof fetch = globalThis.fetch.bind(globalThis);
+let globalFetchInstalled = false;
+
+export function getHttpMode(): HttpMode {
+  const mode = (process.env.SEO_HTTP_MODE || '').toLowerCase();
+  if (mode === 'record' || mode === 'replay') return mode;
+  return 'live';
+}
+
+export function getCassetteDir(): string {
+  const baseDir = process.env.SEO_CASSETTE_DIR || path.join(__dirname, '..', '..', '..', 'data', 'cassettes');
+  const name = (process.env.SEO_CASSETTE || 'default').replace(/[^a-zA-Z0-9._-]/g, '-');
+  return path.join(baseDir, name);
+}
+
+function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const param of SECRET_QUERY_PARAMS) {
+      if (parsed.searchParams.has(param)) parsed.searchParams.set(param, 'REDACTED');
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+function requestUrl(input: RequestInfo | URL): string {
+  if (typeof input === 'string') return input;
+  if (input instanceof URL) return input.toString();
+  return input.url;
+}
+
+function requestBody(init?: RequestInit): string | undefined {
+  if (init?.body === undefined || init.body === null) return undefined;
+  if (typeof init.body === 'string') return init.body;
+  if (init.body instanceof URLSearchParams) return init.body.toString();
+  return undefined;
+}
+
+function cassettePath(method: string, url: string, body?: string): string {
+  const hash = crypto.createHash('sha1').update(`${method} ${url}\n${body || ''}`).digest('hex').slice(0, 16);
+  let host = 'request';
+  try {
+    host = new URL(url).host.replace(/[^a-zA-Z0-9.-]/g, '-');
+  } catch {
+    // Keep the generic prefix
+  }
+  return path.join(getCassetteDir(), `${host}-${hash}.json`);
+}
+
+async function recordInteraction(filePath: string, method: string, url: string, body: string | undefined, response: Response): Promise<void> {
+  const contentType = response.headers.get('content-type') || '';
+  const isText = contentType === '' || TEXT_CONTENT_TYPE.test(contentType);
+  const buffer = Buffer.from(await response.clone().arrayBuffer());
+
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    if (key !== 'set-cookie') headers[key] = value;
+  });
+
+  const entry: CassetteEntry = {
+    recordedAt: new Date().toISOString(),
+    request: { method, url, body },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: isText ? buffer.toString('utf8') : buffer.toString('base64'),
+      encoding: isText ? 'utf8' : 'base64',
+    },
+  };
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(entry, null, 2));
+}
+
+async function replayInteraction(filePath: string, method: string, url: string): Promise<Response> {
+  let entry: CassetteEntry;
+  try {
+    entry = JSON.parse(await fs.readFile(filePath, 'utf-8')) as CassetteEntry;
+  } catch {
+    throw new CassetteMissError(method, url);
+  }
+
+  const { status, statusText, headers, body, encoding } = entry.response;
+  // Null-body statuses cannot carry a payload in the Response constructor
+  const payload = [101, 204, 205, 304].includes(status) ? null : Buffer.from(body, encoding);
+  // Bodies are stored decoded, so the original encoding headers no longer apply
+  const replayHeaders = { ...headers };
+  delete replayHeaders['content-encoding'];
+  delete replayHeaders['content-length'];
+
+  return new Response(payload, { status, statusText, headers: replayHeaders });
+}
+
+/**
+ * Drop-in replacement for fetch that honours SEO_HTTP_MODE.
+ */
+export async function httpFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const mode = getHttpMode();
+  if (mode === 'live') return nativeFetch(input, init);
+
+  const method = (init?.method || (input instanceof Request ? input.method : 'GET')).toUpperCase();
+  const url = redactUrl(requestUrl(input));
+  const body = requestBody(init);
+  const filePath = cassettePath(method, url, body);
+
+  if (mode === 'replay') {
+    return replayInteraction(filePath, method, url);
+  }
+
+  const response = await nativeFetch(input, init);
+  await recordInteraction(filePath, method, url, body, response);
+  return response;
+}
+
+/**
+ * Route the global fetch through the cassette layer so SDK clients that
+ * call fetch themselves (e.g. @google/generative-ai) are recorded too.
+ */
+export function installCassetteFetch(): void {
+  if (globalFetchInstalled || getHttpMode() === 'live') return;
+  globalThis.fetch = httpFetch as typeof fetch;
+  globalFetchInstalled = true;
+  console.log(`📼 HTTP ${getHttpMode()} mode: ${path.relative(process.cwd(), getCassetteDir())}`);
+}
+
+const FIXTURE_CONTENT_TYPES: Record<string, string> = {
+  '.json': 'application/json',
+  '.atom': 'application/atom+xml',
+  '.rss': 'application/rss+xml',
+  '.xml': 'application/xml',
+};
+
+/**
+ * A fetch that answers every request with one recorded response body, such
+ * as data/fixtures/mastodon-tag-timeline.json, to run an adapter offline.
+ */
+export function fixtureFetch(filePath: string): (url: string, options?: RequestInit) => Promise<Response> {
+  const body = fs.readFile(path.resolve(filePath), 'utf-8');
+  const contentType = FIXTURE_CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'text/plain';
+  return async () => new Response(await body, { status: 200, headers: { 'content-type': contentType } });
+}
@@ -0,0 +1,33 @@
+/**
+ * Shared HTTP helpers for the SEO automation scripts
+ */
+
+import { httpFetch } from './cassette.ts';
+
+const FETCH_TIMEOUT = 15000;
+const MAX_RETRIES = 2;
+
+export async function fetchWithRetry(
+  url: string,
+  options: RequestInit = {},
+  retries = MAX_RETRIES
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+
+  try {
+    const response = await httpFetch(url, {
+      ...options,
+      signal: controller.signal,
+    });
+    clearTimeout(timeoutId);
+    return response;
+  } catch (error) {
+    clearTimeout(timeoutId);
+    if (retries > 0 && !(error instanceof Error && error.name === 'AbortError')) {
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      return fetchWithRetry(url, options, retries - 1);
+    }
+    throw error;
+  }
+}
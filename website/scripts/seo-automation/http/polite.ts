@@ -0,0 +1,251 @@
+/**
+ * Polite fetching - Per-host scheduling, an identifying User-Agent and robots.txt
+ *
+ * Every request goes through a per-host queue: at most SEO_HOST_CONCURRENCY
+ * requests in flight per host and SEO_HOST_DELAY_MS between their starts,
+ * so a dozen Dev.to tag feeds no longer hit the API at the same moment.
+ * Requests without a User-Agent get SEO_USER_AGENT.
+ *
+ * Page fetches (full text) also honor robots.txt (RFC 9309): the group for
+ * our product token, else "*"; longest matching rule wins, Allow on ties.
+ * A missing robots.txt allows everything, an unreachable one nothing, and a
+ * Crawl-delay raises that host's delay. Disallowed requests resolve to a
+ * synthetic 403 without touching the network and are counted in the stats.
+ */
+
+type FetchFn = (url: string, options?: RequestInit) => Promise<Response>;
+
+function parseNumber(value: string | undefined, fallback: number, min: number): number {
+  const parsed = Number.parseFloat(value || '');
+  return Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+}
+
+export const COLLECTOR_USER_AGENT = process.env.SEO_USER_AGENT
+  || 'OpenClawSEOBot/1.0 (+https://clawd-bot.app; content research for the OpenClaw docs site)';
+
+const HOST_CONCURRENCY = Math.round(parseNumber(process.env.SEO_HOST_CONCURRENCY, 2, 1));
+const HOST_DELAY_MS = parseNumber(process.env.SEO_HOST_DELAY_MS, 1000, 0);
+const ROBOTS_ENABLED = !['0', 'false', 'off'].includes((process.env.SEO_RESPECT_ROBOTS || '').toLowerCase());
+const ROBOTS_TOKEN = (process.env.SEO_ROBOTS_AGENT || COLLECTOR_USER_AGENT.match(/^([A-Za-z][\w-]*)\//)?.[1] || '*').toLowerCase();
+// Crawl-delay beyond this would stall the run; the host is fetched at this pace instead
+const MAX_CRAWL_DELAY_MS = 30 * 1000;
+
+export interface FetchPolicyStats {
+  requests: number;
+  delayed: number;
+  skippedByRobots: number;
+  skippedRateLimited: number;
+}
+
+export interface FetchPolicy {
+  stats: FetchPolicyStats;
+  // Wrap a fetch function with the host queue; robots: true also checks robots.txt
+  wrap(fetchFn: FetchFn, options?: { robots?: boolean }): FetchFn;
+}
+
+interface HostQueue {
+  active: number;
+  nextStart: number;
+  delayMs: number;
+  waiting: (() => void)[];
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface RobotsRules {
+  rules: RobotsRule[];
+  crawlDelayMs?: number;
+}
+
+export function createFetchPolicyStats(): FetchPolicyStats {
+  return { requests: 0, delayed: 0, skippedByRobots: 0, skippedRateLimited: 0 };
+}
+
+export function skippedByPolicy(stats: FetchPolicyStats): number {
+  return stats.skippedByRobots + stats.skippedRateLimited;
+}
+
+/**
+ * Group robots.txt lines into the rules that apply to our token: every
+ * user-agent group that names it, otherwise the "*" groups.
+ */
+export function parseRobotsTxt(text: string, token = ROBOTS_TOKEN): RobotsRules {
+  const groups: { agents: string[]; rules: RobotsRule[]; crawlDelayMs?: number }[] = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: value });
+    } else if (field === 'crawl-delay') {
+      const seconds = Number.parseFloat(value);
+      if (Number.isFinite(seconds) && seconds > 0) current.crawlDelayMs = seconds * 1000;
+    }
+  }
+
+  const named = groups.filter((group) => group.agents.includes(token));
+  const matching = named.length > 0 ? named : groups.filter((group) => group.agents.includes('*'));
+  return {
+    rules: matching.flatMap((group) => group.rules),
+    crawlDelayMs: matching.find((group) => group.crawlDelayMs)?.crawlDelayMs,
+  };
+}
+
+function patternMatches(pattern: string, pathWithQuery: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`).test(pathWithQuery);
+}
+
+export function isAllowedByRobots(robots: RobotsRules, url: string): boolean {
+  let pathWithQuery: string;
+  try {
+    const parsed = new URL(url);
+    pathWithQuery = `${parsed.pathname}${parsed.search}`;
+  } catch {
+    return true;
+  }
+  if (pathWithQuery === '/robots.txt') return true;
+
+  let best: RobotsRule | null = null;
+  for (const rule of robots.rules) {
+    if (!patternMatches(rule.pattern, pathWithQuery)) continue;
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best ? best.allow : true;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function disallowedResponse(): Response {
+  return new Response(null, { status: 403, statusText: 'Disallowed by robots.txt' });
+}
+
+export function createFetchPolicy(): FetchPolicy {
+  const stats = createFetchPolicyStats();
+  const queues = new Map<string, HostQueue>();
+  const robotsByOrigin = new Map<string, Promise<RobotsRules>>();
+
+  function queueFor(host: string): HostQueue {
+    let queue = queues.get(host);
+    if (!queue) {
+      queue = { active: 0, nextStart: 0, delayMs: HOST_DELAY_MS, waiting: [] };
+      queues.set(host, queue);
+    }
+    return queue;
+  }
+
+  async function acquire(queue: HostQueue): Promise<void> {
+    if (queue.active < HOST_CONCURRENCY) {
+      queue.active++;
+    } else {
+      // release() hands its slot straight to us, so active stays the same
+      await new Promise<void>((resolve) => queue.waiting.push(resolve));
+    }
+
+    const start = Math.max(Date.now(), queue.nextStart);
+    queue.nextStart = start + queue.delayMs;
+    if (start > Date.now()) {
+      stats.delayed++;
+      await new Promise((resolve) => setTimeout(resolve, start - Date.now()));
+    }
+  }
+
+  function release(queue: HostQueue): void {
+    const next = queue.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      queue.active--;
+    }
+  }
+
+  async function scheduled(fetchFn: FetchFn, url: string, options: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(options.headers);
+    if (!headers.has('User-Agent')) {
+      headers.set('User-Agent', COLLECTOR_USER_AGENT);
+    }
+
+    const queue = queueFor(hostOf(url));
+    await acquire(queue);
+    try {
+      stats.requests++;
+      return await fetchFn(url, { ...options, headers });
+    } finally {
+      release(queue);
+    }
+  }
+
+  function robotsFor(fetchFn: FetchFn, url: string): Promise<RobotsRules> {
+    const origin = new URL(url).origin;
+    let robots = robotsByOrigin.get(origin);
+    if (!robots) {
+      robots = scheduled(fetchFn, `${origin}/robots.txt`, { headers: { Accept: 'text/plain' } })
+        .then(async (response): Promise<RobotsRules> => {
+          if (response.ok) return parseRobotsTxt(await response.text());
+          // 4xx: no robots.txt, everything is allowed; 5xx: assume the site is off limits
+          return response.status >= 500 ? { rules: [{ allow: false, pattern: '/' }] } : { rules: [] };
+        })
+        .catch((): RobotsRules => ({ rules: [{ allow: false, pattern: '/' }] }))
+        .then((rules) => {
+          if (rules.crawlDelayMs) {
+            const queue = queueFor(new URL(url).host);
+            queue.delayMs = Math.max(queue.delayMs, Math.min(rules.crawlDelayMs, MAX_CRAWL_DELAY_MS));
+          }
+          return rules;
+        });
+      robotsByOrigin.set(origin, robots);
+    }
+    return robots;
+  }
+
+  return {
+    stats,
+    wrap(fetchFn, options = {}) {
+      return async (url, requestOptions) => {
+        if (options.robots && ROBOTS_ENABLED && /^https?:\/\//.test(url)) {
+          const robots = await robotsFor(fetchFn, url);
+          if (!isAllowedByRobots(robots, url)) {
+            stats.skippedByRobots++;
+            return disallowedResponse();
+          }
+        }
+        return scheduled(fetchFn, url, requestOptions);
+      };
+    },
+  };
+}
@@ -1,12 +1,12 @@
 import './load-env.js';
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import { listContentFiles } from './articles/drafts.ts';
 
 type Frontmatter = {
   title?: string;
 };
 
-const ARTICLES_DIR = path.join(process.cwd(), 'src', 'content', 'articles');
 const FRONTMATTER_BLOCK = /^---\n[\s\S]*?\n---/;
 const HERO_IMAGE_PATTERN = /!\[[^\]]*\]\(\/images\/articles\/.+?\)/;
 
@@ -84,15 +84,13 @@ function insertHeroImage(content: string, slug: string, title: string): { update
 }
 
 async function main(): Promise<void> {
-  const files = await fs.readdir(ARTICLES_DIR);
-  const mdxFiles = files.filter((file) => file.endsWith('.mdx'));
+  const mdxFiles = await listContentFiles();
 
   let updatedCount = 0;
   console.log(`🖼️  Ensuring hero images in ${mdxFiles.length} articles...`);
 
-  for (const file of mdxFiles) {
-    const slug = path.basename(file, '.mdx');
-    const filePath = path.join(ARTICLES_DIR, file);
+  for (const filePath of mdxFiles) {
+    const slug = path.basename(filePath, '.mdx');
     const content = await fs.readFile(filePath, 'utf-8');
     const frontmatter = parseFrontmatter(content);
     const title = frontmatter?.title || slug.replace(/-/g, ' ');
@@ -0,0 +1,133 @@
+/**
+ * LLM response cache - Content-addressed responses for reproducible reruns
+ *
+ * One file per response under data/llm-cache/, named by a hash of provider,
+ * model and prompt. A rerun with an identical prompt (after a crash or a
+ * failed image step) is answered from disk: free and byte-for-byte the same.
+ * Only responses the caller accepted are stored.
+ *
+ * --no-cache / SEO_LLM_CACHE=false   neither read nor write the cache
+ * --cache-ttl <days> / SEO_LLM_CACHE_TTL_DAYS   entry lifetime (default 30)
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { LlmProvider, LlmResponse } from './providers.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const LLM_CACHE_DIR = process.env.SEO_LLM_CACHE_DIR
+  || path.join(__dirname, '..', '..', '..', 'data', 'llm-cache');
+
+const DEFAULT_TTL_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CacheEntry {
+  createdAt: string;
+  provider: string;
+  model: string;
+  promptHash: string;
+  response: Omit<LlmResponse, 'cached'>;
+}
+
+export interface ResponseCacheOptions {
+  enabled: boolean;
+  ttlDays: number;
+  dir?: string;
+}
+
+export interface ResponseCacheStats {
+  hits: number;
+  writes: number;
+  expired: number;
+}
+
+export interface ResponseCache {
+  options: ResponseCacheOptions;
+  stats: ResponseCacheStats;
+  get(provider: LlmProvider, prompt: string): Promise<LlmResponse | null>;
+  set(provider: LlmProvider, prompt: string, response: LlmResponse): Promise<void>;
+  delete(provider: LlmProvider, prompt: string): Promise<void>;
+}
+
+function parseDays(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseFloat(value || '');
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/** Cache controls from the command line, falling back to the environment */
+export function responseCacheOptionsFromArgs(argv = process.argv.slice(2)): ResponseCacheOptions {
+  const ttlIndex = argv.indexOf('--cache-ttl');
+  const envTtl = parseDays(process.env.SEO_LLM_CACHE_TTL_DAYS, DEFAULT_TTL_DAYS);
+  return {
+    enabled: !argv.includes('--no-cache')
+      && !['0', 'false', 'off'].includes((process.env.SEO_LLM_CACHE || '').toLowerCase()),
+    ttlDays: ttlIndex >= 0 ? parseDays(argv[ttlIndex + 1], envTtl) : envTtl,
+  };
+}
+
+export function promptHash(provider: LlmProvider, prompt: string): string {
+  return crypto.createHash('sha256').update(`${provider.name}\n${provider.model}\n${prompt}`).digest('hex');
+}
+
+export function createResponseCache(options: ResponseCacheOptions = responseCacheOptionsFromArgs()): ResponseCache {
+  const dir = options.dir || LLM_CACHE_DIR;
+  const stats: ResponseCacheStats = { hits: 0, writes: 0, expired: 0 };
+
+  function entryPath(provider: LlmProvider, prompt: string): string {
+    return path.join(dir, `${provider.name}-${promptHash(provider, prompt).slice(0, 24)}.json`);
+  }
+
+  return {
+    options,
+    stats,
+
+    async get(provider, prompt) {
+      if (!options.enabled) return null;
+      const filePath = entryPath(provider, prompt);
+      let entry: CacheEntry;
+      try {
+        entry = JSON.parse(await fs.readFile(filePath, 'utf-8')) as CacheEntry;
+      } catch {
+        return null;
+      }
+
+      if (Date.now() - new Date(entry.createdAt).getTime() > options.ttlDays * DAY_MS) {
+        stats.expired++;
+        await fs.rm(filePath, { force: true });
+        return null;
+      }
+
+      stats.hits++;
+      return { ...entry.response, cached: true };
+    },
+
+    async set(provider, prompt, response) {
+      if (!options.enabled) return;
+      const { cached: _cached, ...stored } = response;
+      const entry: CacheEntry = {
+        createdAt: new Date().toISOString(),
+        provider: provider.name,
+        model: provider.model,
+        promptHash: promptHash(provider, prompt),
+        response: stored,
+      };
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(entryPath(provider, prompt), JSON.stringify(entry, null, 2));
+      stats.writes++;
+    },
+
+    async delete(provider, prompt) {
+      await fs.rm(entryPath(provider, prompt), { force: true });
+    },
+  };
+}
+
+export function formatCacheStats(cache: ResponseCache): string {
+  if (!cache.options.enabled) return 'disabled';
+  const { hits, writes, expired } = cache.stats;
+  return `${hits} hit(s), ${writes} new response(s)${expired > 0 ? `, ${expired} expired` : ''} (TTL ${cache.options.ttlDays}d)`;
+}
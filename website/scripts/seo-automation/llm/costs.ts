@@ -0,0 +1,167 @@
+/**
+ * LLM costs - Token accounting, a price table per model and a run budget
+ *
+ * Every provider call the client makes is recorded with the usage the
+ * backend reported (AICODECAT / OpenAI `usage`, Gemini `usageMetadata`,
+ * Ollama eval counts). Prices come from data/config/model-prices.json in USD
+ * per million tokens; a model matches its exact entry, else the longest
+ * entry it starts with ("gpt-4o-mini-2024-07-18" → "gpt-4o-mini"). Local
+ * providers are free, cached responses cost nothing, and calls without usage
+ * or a price are counted as unpriced rather than guessed.
+ *
+ * SEO_MAX_COST_USD caps the spend of one run; generators check
+ * budgetExceeded() before starting the next article.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { LlmResponse } from './providers.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const MODEL_PRICES_FILE = process.env.SEO_MODEL_PRICES_FILE
+  || path.join(__dirname, '..', '..', '..', 'data', 'config', 'model-prices.json');
+
+function parseBudget(value: string | undefined): number | null {
+  const parsed = Number.parseFloat(value || '');
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+export const MAX_COST_USD = parseBudget(process.env.SEO_MAX_COST_USD);
+
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface PriceTable {
+  models: Record<string, ModelPrice>;
+  freeProviders: string[];
+}
+
+export interface CostTotals {
+  calls: number;
+  cachedCalls: number;
+  unpricedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface CostTracker {
+  maxCostUsd: number | null;
+  totals: CostTotals;
+  record(response: LlmResponse): void;
+  budgetExceeded(): boolean;
+  // Totals accumulated since an earlier snapshot of `totals`
+  since(mark: CostTotals): CostTotals;
+}
+
+function isPrice(value: unknown): value is ModelPrice {
+  const price = value as ModelPrice;
+  return Boolean(price) && Number.isFinite(price.input) && Number.isFinite(price.output);
+}
+
+/** Read the price table; a missing or broken file prices nothing */
+export function loadPriceTable(filePath = MODEL_PRICES_FILE): PriceTable {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    const models: Record<string, ModelPrice> = {};
+    for (const [model, price] of Object.entries(parsed.models || {})) {
+      if (isPrice(price)) models[model.toLowerCase()] = { input: price.input, output: price.output };
+    }
+    const freeProviders = Array.isArray(parsed.freeProviders)
+      ? parsed.freeProviders.filter((name: unknown): name is string => typeof name === 'string')
+      : [];
+    return { models, freeProviders };
+  } catch {
+    console.warn(`⚠️ Could not read model prices from ${filePath}; costs will be reported as unpriced`);
+    return { models: {}, freeProviders: [] };
+  }
+}
+
+export function priceFor(table: PriceTable, provider: string, model: string): ModelPrice | null {
+  if (table.freeProviders.includes(provider)) return { input: 0, output: 0 };
+  // Gateways may answer with "models/gemini-..." or "provider/model"
+  const key = model.toLowerCase().replace(/^.*\//, '');
+  if (table.models[key]) return table.models[key];
+
+  let best: string | null = null;
+  for (const candidate of Object.keys(table.models)) {
+    if (key.startsWith(candidate) && (!best || candidate.length > best.length)) best = candidate;
+  }
+  return best ? table.models[best] : null;
+}
+
+export function emptyCostTotals(): CostTotals {
+  return { calls: 0, cachedCalls: 0, unpricedCalls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+export function createCostTracker(table: PriceTable = loadPriceTable(), maxCostUsd = MAX_COST_USD): CostTracker {
+  const totals = emptyCostTotals();
+  const warnedModels = new Set<string>();
+
+  return {
+    maxCostUsd,
+    totals,
+
+    record(response) {
+      totals.calls++;
+      if (response.cached) {
+        totals.cachedCalls++;
+        return;
+      }
+
+      const price = priceFor(table, response.provider, response.model);
+      if (response.usage) {
+        totals.inputTokens += response.usage.inputTokens;
+        totals.outputTokens += response.usage.outputTokens;
+      }
+      if (!price || !response.usage) {
+        totals.unpricedCalls++;
+        const key = `${response.provider}:${response.model}`;
+        if (!warnedModels.has(key)) {
+          warnedModels.add(key);
+          console.warn(`   ⚠️ No ${price ? 'usage' : 'price'} for ${key}; its calls are not counted in the cost`);
+        }
+        return;
+      }
+
+      totals.costUsd += (response.usage.inputTokens * price.input + response.usage.outputTokens * price.output) / 1_000_000;
+    },
+
+    budgetExceeded() {
+      return maxCostUsd !== null && totals.costUsd >= maxCostUsd;
+    },
+
+    since(mark) {
+      return {
+        calls: totals.calls - mark.calls,
+        cachedCalls: totals.cachedCalls - mark.cachedCalls,
+        unpricedCalls: totals.unpricedCalls - mark.unpricedCalls,
+        inputTokens: totals.inputTokens - mark.inputTokens,
+        outputTokens: totals.outputTokens - mark.outputTokens,
+        costUsd: totals.costUsd - mark.costUsd,
+      };
+    },
+  };
+}
+
+export function formatUsd(value: number): string {
+  // Single articles cost cents; keep enough digits to tell them apart
+  return `$${value.toFixed(value > 0 && value < 1 ? 4 : 2)}`;
+}
+
+export function formatCostTotals(totals: CostTotals, maxCostUsd: number | null = null): string {
+  const parts = [
+    `${totals.calls} call(s)`,
+    `${totals.inputTokens.toLocaleString('en-US')} in / ${totals.outputTokens.toLocaleString('en-US')} out tokens`,
+    formatUsd(totals.costUsd),
+  ];
+  if (totals.cachedCalls > 0) parts.push(`${totals.cachedCalls} cached`);
+  if (totals.unpricedCalls > 0) parts.push(`${totals.unpricedCalls} unpriced`);
+  if (maxCostUsd !== null) parts.push(`budget ${formatUsd(maxCostUsd)}`);
+  return parts.join(', ');
+}
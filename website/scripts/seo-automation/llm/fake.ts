@@ -0,0 +1,60 @@
+/**
+ * Fake LLM provider - Canned responses without a network or an API key
+ *
+ * In-process: createFakeProvider({ responses }) with strings, a function of
+ * the prompt, or Error instances to simulate failures; every prompt is kept
+ * in `calls`. From the CLI: SEO_LLM_PROVIDERS=fake answers every prompt with
+ * the file named by SEO_FAKE_LLM_RESPONSE (or a placeholder sentence).
+ */
+
+import fs from 'fs';
+import type { LlmProvider, LlmResponse } from './providers.ts';
+
+type FakeReply = string | Error;
+
+export interface FakeProviderOptions {
+  // Served in turn, the last one repeating; a function sees each prompt
+  responses?: FakeReply[] | ((prompt: string, call: number) => FakeReply);
+  model?: string;
+}
+
+export interface FakeProvider extends LlmProvider {
+  calls: string[];
+}
+
+// Rough English token count, close enough for usage and cost bookkeeping
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function defaultResponses(): FakeReply[] {
+  const file = process.env.SEO_FAKE_LLM_RESPONSE;
+  if (file) return [fs.readFileSync(file, 'utf-8')];
+  return ['This is a canned response from the fake LLM provider.'];
+}
+
+export function createFakeProvider(options: FakeProviderOptions = {}): FakeProvider {
+  const responses = options.responses ?? defaultResponses();
+  const model = options.model || 'fake-model';
+  const calls: string[] = [];
+
+  return {
+    name: 'fake',
+    model,
+    label: `Fake (${model})`,
+    calls,
+    async generate(prompt): Promise<LlmResponse> {
+      calls.push(prompt);
+      const reply = typeof responses === 'function'
+        ? responses(prompt, calls.length - 1)
+        : responses[Math.min(calls.length - 1, responses.length - 1)] ?? '';
+      if (reply instanceof Error) throw reply;
+      return {
+        text: reply,
+        provider: 'fake',
+        model,
+        usage: { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(reply) },
+      };
+    },
+  };
+}
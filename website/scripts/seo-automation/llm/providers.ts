@@ -0,0 +1,367 @@
+/**
+ * LLM providers - One interface for every text-generation backend
+ *
+ * Adapters:
+ * - aicodecat  Anthropic-style /v1/messages (AICODECAT_API_URL + AICODECAT_API_KEY)
+ * - gemini     Google Gemini SDK (GEMINI_API_KEY)
+ * - openai     OpenAI-compatible /chat/completions (OPENAI_API_KEY, or OPENAI_BASE_URL for keyless servers)
+ * - ollama     Local Ollama-style /api/generate (OLLAMA_HOST or OLLAMA_MODEL)
+ * - fake       In-process canned responses, see fake.ts
+ *
+ * SEO_LLM_PROVIDERS sets the fallback order (default
+ * "aicodecat,gemini,openai,ollama"); providers without configuration are
+ * skipped. Every HTTP call goes through the cassette layer; accepted
+ * responses can be kept in the prompt-hash cache (cache.ts) and every call
+ * recorded for cost accounting (costs.ts).
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { httpFetch, installCassetteFetch, isCassetteMiss } from '../http/cassette.ts';
+import type { ResponseCache } from './cache.ts';
+import type { CostTracker } from './costs.ts';
+import { createFakeProvider } from './fake.ts';
+
+export type ProviderName = 'aicodecat' | 'gemini' | 'openai' | 'ollama' | 'fake';
+
+export const PROVIDER_NAMES: ProviderName[] = ['aicodecat', 'gemini', 'openai', 'ollama', 'fake'];
+const DEFAULT_ORDER: ProviderName[] = ['aicodecat', 'gemini', 'openai', 'ollama'];
+const DEFAULT_MAX_TOKENS = 8000;
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface GenerateOptions {
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LlmResponse {
+  text: string;
+  provider: ProviderName;
+  model: string;
+  // null when the backend reports no usage
+  usage: TokenUsage | null;
+  // Answered from the response cache; usage is what the original call reported
+  cached?: boolean;
+}
+
+export interface LlmProvider {
+  name: ProviderName;
+  model: string;
+  // Human-readable "AICODECAT (model)" for logs and banners
+  label: string;
+  generate(prompt: string, options?: GenerateOptions): Promise<LlmResponse>;
+}
+
+export interface FallbackOptions extends GenerateOptions {
+  /**
+   * Normalize the response text, or throw to reject it and try the next
+   * provider (e.g. an article that fails validation).
+   */
+  accept?: (text: string) => string;
+  // Prefix for the per-provider log lines; false keeps the client quiet
+  log?: string | false;
+}
+
+export interface LlmClientOptions {
+  cache?: ResponseCache;
+  costs?: CostTracker;
+}
+
+export interface LlmClient {
+  providers: LlmProvider[];
+  cache?: ResponseCache;
+  costs?: CostTracker;
+  // "AICODECAT (model) → Gemini (model)", or "none"
+  label: string;
+  generate(prompt: string, options?: FallbackOptions): Promise<LlmResponse>;
+}
+
+export class LlmUnavailableError extends Error {
+  constructor(public readonly failures: { provider: ProviderName; message: string }[]) {
+    super(failures.length === 0
+      ? 'No LLM provider configured'
+      : `All LLM providers failed: ${failures.map((failure) => `${failure.provider}: ${failure.message}`).join('; ')}`);
+    this.name = 'LlmUnavailableError';
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function postJson(url: string, headers: Record<string, string>, body: unknown, label: string): Promise<unknown> {
+  const response = await httpFetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`${label} API error: ${response.status} - ${(await response.text()).substring(0, 200)}`);
+  }
+  return response.json();
+}
+
+function usageFrom(input: unknown, output: unknown): TokenUsage | null {
+  if (typeof input !== 'number' && typeof output !== 'number') return null;
+  return {
+    inputTokens: typeof input === 'number' ? input : 0,
+    outputTokens: typeof output === 'number' ? output : 0,
+  };
+}
+
+type JsonRecord = Record<string, unknown>;
+
+// What the HTTP backends' replies are narrowed to before they become an LlmResponse
+interface BackendReply {
+  text: string;
+  model?: string;
+  usage: TokenUsage | null;
+}
+
+function isRecord(value: unknown): value is JsonRecord {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function stringField(record: JsonRecord, key: string): string | undefined {
+  return typeof record[key] === 'string' ? record[key] : undefined;
+}
+
+function unexpectedShape(label: string, expected: string, data: unknown): Error {
+  return new Error(`${label} returned an unexpected response (expected ${expected}): ${JSON.stringify(data)?.substring(0, 200)}`);
+}
+
+/** Chat completions: { choices: [{ message: { content } }], usage: { prompt_tokens, completion_tokens } } */
+function readChatCompletion(data: unknown, label: string): BackendReply {
+  const choice = isRecord(data) && Array.isArray(data.choices) ? data.choices[0] : undefined;
+  const text = isRecord(choice) && isRecord(choice.message) ? stringField(choice.message, 'content') : undefined;
+  if (!isRecord(data) || text === undefined) throw unexpectedShape(label, 'choices[0].message.content', data);
+  const usage = isRecord(data.usage) ? data.usage : {};
+  return { text, model: stringField(data, 'model'), usage: usageFrom(usage.prompt_tokens, usage.completion_tokens) };
+}
+
+/** Anthropic messages: { content: [{ text }], usage: { input_tokens, output_tokens } } */
+function readMessagesReply(data: unknown, label: string): BackendReply {
+  if (!isRecord(data)) throw unexpectedShape(label, 'a JSON object', data);
+  // Some gateways answer in chat-completions shape instead
+  if (Array.isArray(data.choices)) return readChatCompletion(data, label);
+
+  const content = Array.isArray(data.content) ? data.content[0] : data.content;
+  const text = typeof content === 'string' ? content : isRecord(content) ? stringField(content, 'text') : undefined;
+  if (text === undefined) throw unexpectedShape(label, 'content[0].text', data);
+  const usage = isRecord(data.usage) ? data.usage : {};
+  return {
+    text,
+    model: stringField(data, 'model'),
+    usage: usageFrom(usage.input_tokens ?? usage.prompt_tokens, usage.output_tokens ?? usage.completion_tokens),
+  };
+}
+
+/** Ollama /api/generate: { response, prompt_eval_count, eval_count } */
+function readOllamaReply(data: unknown, label: string): BackendReply {
+  const text = isRecord(data) ? stringField(data, 'response') : undefined;
+  if (!isRecord(data) || text === undefined) throw unexpectedShape(label, 'response', data);
+  return { text, model: stringField(data, 'model'), usage: usageFrom(data.prompt_eval_count, data.eval_count) };
+}
+
+function createAicodecatProvider(): LlmProvider | null {
+  const baseUrl = process.env.AICODECAT_API_URL;
+  const apiKey = process.env.AICODECAT_API_KEY;
+  if (!baseUrl || !apiKey) return null;
+  const model = process.env.AICODECAT_MODEL || 'gemini-3-flash-preview';
+
+  return {
+    name: 'aicodecat',
+    model,
+    label: `AICODECAT (${model})`,
+    async generate(prompt, options = {}) {
+      const data = await postJson(`${baseUrl}/v1/messages`, {
+        'Authorization': `Bearer ${apiKey}`,
+        'anthropic-version': '2023-06-01',
+      }, {
+        model,
+        max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+        messages: [{ role: 'user', content: prompt }],
+      }, 'AICODECAT');
+      const reply = readMessagesReply(data, 'AICODECAT');
+      return { text: reply.text, provider: 'aicodecat', model: reply.model || model, usage: reply.usage };
+    },
+  };
+}
+
+function createGeminiProvider(): LlmProvider | null {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) return null;
+  const model = process.env.GEMINI_MODEL || 'gemini-3-flash-preview';
+  // The Gemini SDK calls the global fetch, so route it through the cassette layer too
+  installCassetteFetch();
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  return {
+    name: 'gemini',
+    model,
+    label: `Gemini (${model})`,
+    async generate(prompt, options = {}) {
+      const result = await genAI.getGenerativeModel({
+        model,
+        generationConfig: {
+          ...(options.maxTokens !== undefined ? { maxOutputTokens: options.maxTokens } : {}),
+          ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+        },
+      }).generateContent(prompt);
+      const usage = result.response.usageMetadata;
+      return {
+        text: result.response.text(),
+        provider: 'gemini',
+        model,
+        usage: usageFrom(usage?.promptTokenCount, usage?.candidatesTokenCount),
+      };
+    },
+  };
+}
+
+function createOpenAiProvider(): LlmProvider | null {
+  const apiKey = process.env.OPENAI_API_KEY;
+  const configuredUrl = process.env.OPENAI_BASE_URL;
+  if (!apiKey && !configuredUrl) return null;
+  const baseUrl = (configuredUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+  const model = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+
+  return {
+    name: 'openai',
+    model,
+    label: `OpenAI-compatible (${model})`,
+    async generate(prompt, options = {}) {
+      const data = await postJson(`${baseUrl}/chat/completions`, apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}, {
+        model,
+        max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+        messages: [{ role: 'user', content: prompt }],
+      }, 'OpenAI-compatible');
+      const reply = readChatCompletion(data, 'OpenAI-compatible');
+      return { text: reply.text, provider: 'openai', model: reply.model || model, usage: reply.usage };
+    },
+  };
+}
+
+function createOllamaProvider(): LlmProvider | null {
+  // A local server is never assumed; naming the host or the model opts in
+  if (!process.env.OLLAMA_HOST && !process.env.OLLAMA_MODEL) return null;
+  const host = (process.env.OLLAMA_HOST || 'http://127.0.0.1:11434').replace(/\/+$/, '');
+  const baseUrl = /^https?:\/\//.test(host) ? host : `http://${host}`;
+  const model = process.env.OLLAMA_MODEL || 'llama3.1';
+
+  return {
+    name: 'ollama',
+    model,
+    label: `Ollama (${model})`,
+    async generate(prompt, options = {}) {
+      const data = await postJson(`${baseUrl}/api/generate`, {}, {
+        model,
+        prompt,
+        stream: false,
+        options: {
+          num_predict: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+          ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+        },
+      }, 'Ollama');
+      const reply = readOllamaReply(data, 'Ollama');
+      return { text: reply.text, provider: 'ollama', model: reply.model || model, usage: reply.usage };
+    },
+  };
+}
+
+const FACTORIES: Record<ProviderName, () => LlmProvider | null> = {
+  aicodecat: createAicodecatProvider,
+  gemini: createGeminiProvider,
+  openai: createOpenAiProvider,
+  ollama: createOllamaProvider,
+  // Only when listed explicitly in SEO_LLM_PROVIDERS; answers with SEO_FAKE_LLM_RESPONSE
+  fake: () => createFakeProvider(),
+};
+
+/** Parse SEO_LLM_PROVIDERS, warning about names without an adapter */
+export function providerOrder(value = process.env.SEO_LLM_PROVIDERS): ProviderName[] {
+  if (!value?.trim()) return DEFAULT_ORDER;
+  const order: ProviderName[] = [];
+  for (const raw of value.split(',')) {
+    const name = raw.trim().toLowerCase();
+    if (!name) continue;
+    if (!PROVIDER_NAMES.includes(name as ProviderName)) {
+      console.warn(`⚠️ Unknown LLM provider "${name}" in SEO_LLM_PROVIDERS (known: ${PROVIDER_NAMES.join(', ')})`);
+      continue;
+    }
+    if (!order.includes(name as ProviderName)) order.push(name as ProviderName);
+  }
+  return order;
+}
+
+/** The configured providers, in fallback order */
+export function resolveProviders(order = providerOrder()): LlmProvider[] {
+  return order
+    .map((name) => FACTORIES[name]())
+    .filter((provider): provider is LlmProvider => provider !== null);
+}
+
+/**
+ * Wrap providers in a client that tries each in order until one returns an
+ * accepted, non-empty response. Pass providers explicitly to inject a fake.
+ * With a cache, a stored response from any provider in the chain wins over
+ * a live call, so a rerun reproduces the earlier output even when that came
+ * from a fallback.
+ */
+export function createLlmClient(providers: LlmProvider[] = resolveProviders(), options: LlmClientOptions = {}): LlmClient {
+  const { cache, costs } = options;
+
+  return {
+    providers,
+    cache,
+    costs,
+    label: providers.length > 0 ? providers.map((provider) => provider.label).join(' → ') : 'none',
+    async generate(prompt, options = {}) {
+      const { accept, log = '   ', ...generateOptions } = options;
+      const failures: { provider: ProviderName; message: string }[] = [];
+
+      if (cache) {
+        for (const provider of providers) {
+          const cached = await cache.get(provider, prompt);
+          if (!cached) continue;
+          try {
+            const response = accept ? { ...cached, text: accept(cached.text) } : cached;
+            costs?.record(cached);
+            if (log !== false) console.log(`${log}💾 Cached response from ${provider.label}`);
+            return response;
+          } catch {
+            // The caller's rules changed since this was stored
+            await cache.delete(provider, prompt);
+          }
+        }
+      }
+
+      for (const provider of providers) {
+        try {
+          if (log !== false) console.log(`${log}🤖 Using ${provider.label}`);
+          const response = await provider.generate(prompt, generateOptions);
+          // Rejected responses were paid for too
+          costs?.record(response);
+          if (!response.text.trim()) throw new Error(`Empty response from ${provider.label}`);
+          const accepted = accept ? { ...response, text: accept(response.text) } : response;
+          // The raw text is stored; accept() is re-applied on a hit
+          await cache?.set(provider, prompt, response);
+          return accepted;
+        } catch (error) {
+          // Another provider would miss too; a replay must reproduce the recording
+          if (isCassetteMiss(error)) throw error;
+          const message = errorMessage(error);
+          failures.push({ provider: provider.name, message });
+          if (log !== false) console.error(`${log}⚠️ ${provider.label} error: ${message.substring(0, 100)}`);
+        }
+      }
+
+      throw new LlmUnavailableError(failures);
+    },
+  };
+}
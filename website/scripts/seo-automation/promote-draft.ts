@@ -0,0 +1,126 @@
+/**
+ * Promote Draft - Publish a generated article from the drafts collection
+ *
+ * Moves src/content/drafts/<slug>.mdx to src/content/articles/, sets
+ * `status: published`, stamps pubDate/modifiedDate with the promotion date
+ * and records who approved it (`approvedBy`, `approvedAt`). The SEO
+ * validator runs first; errors block the promotion unless --force is given.
+ * The `reviewIssues` an offline draft was saved with are dropped.
+ *
+ * The approver is --by, else SEO_APPROVER, else `git config user.name`.
+ *
+ * Usage:
+ *   npm run seo:promote                       list drafts and their status
+ *   npm run seo:promote -- <slug> [--by <name>] [--force]
+ */
+
+import './load-env.ts';
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { validateArticle } from '../validate-seo.ts';
+import { ARTICLES_DIR, DRAFTS_DIR, frontmatterField, removeFrontmatterFields, setFrontmatterFields } from './articles/drafts.ts';
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function resolveApprover(): string {
+  const explicit = readFlag('--by') || process.env.SEO_APPROVER;
+  if (explicit) return explicit;
+  try {
+    const gitUser = execFileSync('git', ['config', 'user.name'], { encoding: 'utf-8' }).trim();
+    if (gitUser) return gitUser;
+  } catch {
+    // Not a git checkout or no user configured
+  }
+  return os.userInfo().username;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function listDrafts(): Promise<void> {
+  let files: string[] = [];
+  try {
+    files = (await fs.readdir(DRAFTS_DIR)).filter((file) => file.endsWith('.mdx'));
+  } catch {
+    // No drafts directory yet
+  }
+
+  if (files.length === 0) {
+    console.log('📭 No drafts waiting for promotion');
+    return;
+  }
+
+  console.log(`📝 ${files.length} draft(s):`);
+  for (const file of files.sort()) {
+    const content = await fs.readFile(path.join(DRAFTS_DIR, file), 'utf-8');
+    const slug = file.replace(/\.mdx$/, '');
+    const failedReview = frontmatterField(content, 'reviewIssues') ? ' (failed review, see reviewIssues)' : '';
+    console.log(`   [${frontmatterField(content, 'status') || 'draft'}] ${slug} - ${frontmatterField(content, 'title') || ''}${failedReview}`);
+  }
+  console.log('\nPreview under /preview/<slug>, then: npm run seo:promote -- <slug>');
+}
+
+async function main() {
+  const flagValues = new Set([readFlag('--by')]);
+  const slug = process.argv.slice(2).find((arg) => !arg.startsWith('--') && !flagValues.has(arg));
+  if (!slug) {
+    await listDrafts();
+    return;
+  }
+
+  const draftPath = path.join(DRAFTS_DIR, `${slug}.mdx`);
+  const articlePath = path.join(ARTICLES_DIR, `${slug}.mdx`);
+  if (!(await fileExists(draftPath))) {
+    console.error(`❌ No draft named "${slug}" in src/content/drafts`);
+    process.exit(1);
+  }
+  if (await fileExists(articlePath)) {
+    console.error(`❌ src/content/articles/${slug}.mdx already exists; remove or rename the draft`);
+    process.exit(1);
+  }
+
+  const draft = await fs.readFile(draftPath, 'utf-8');
+  const previousStatus = frontmatterField(draft, 'status') || 'draft';
+  const approver = resolveApprover();
+  const today = new Date().toISOString().split('T')[0];
+
+  const published = setFrontmatterFields(removeFrontmatterFields(draft, ['reviewIssues']), {
+    status: JSON.stringify('published'),
+    pubDate: today,
+    modifiedDate: today,
+    approvedBy: JSON.stringify(approver),
+    approvedAt: today,
+  });
+
+  const seo = validateArticle(published, slug);
+  console.log(`🔎 SEO score: ${seo.score}/100`);
+  seo.errors.forEach((error) => console.log(`   ❌ ${error}`));
+  seo.warnings.forEach((warning) => console.log(`   ⚠️ ${warning}`));
+  if (seo.errors.length > 0 && !process.argv.includes('--force')) {
+    console.error('❌ Fix the errors in the draft or rerun with --force');
+    process.exit(1);
+  }
+
+  await fs.mkdir(ARTICLES_DIR, { recursive: true });
+  await fs.writeFile(articlePath, published, 'utf-8');
+  await fs.rm(draftPath);
+
+  console.log(`✅ Published ${slug} (was ${previousStatus}), approved by ${approver} on ${today}`);
+  console.log(`   /preview/${slug} → /articles/${slug}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,88 @@
+/**
+ * Release Notes - Parse a GitHub releases feed into structured notes
+ *
+ * Runs the same github-releases adapter the collector uses, against the
+ * registry's release sources or a feed given with --feed (a URL or a local
+ * file such as data/fixtures/openclaw-releases.atom). Prints the parsed
+ * notes; --write also records them in data/knowledge-base/releases.json.
+ *
+ * Usage: npm run seo:releases -- [--feed <url-or-file>] [--write]
+ */
+
+import './load-env.ts';
+import fs from 'fs/promises';
+import path from 'path';
+import { getAdapter } from './collector/adapters.ts';
+import { loadSourceRegistry, type SourceDefinition } from './collector/registry.ts';
+import { loadReleaseNotes, mergeReleaseNotes, saveReleaseNotes } from './collector/releases.ts';
+import { httpFetch } from './http/cassette.ts';
+import type { ReleaseNote } from './types.ts';
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function fetchFeed(url: string, options?: RequestInit): Promise<Response> {
+  if (/^https?:\/\//.test(url)) return httpFetch(url, options);
+
+  const xml = await fs.readFile(path.resolve(url), 'utf-8');
+  return new Response(xml, { status: 200, headers: { 'content-type': 'application/atom+xml' } });
+}
+
+async function resolveSources(feed: string | undefined): Promise<SourceDefinition[]> {
+  if (feed) {
+    return [{ id: 'release-feed', name: 'Release feed', adapter: 'github-releases', url: feed, category: 'news', weight: 1, enabled: true }];
+  }
+  const registry = await loadSourceRegistry();
+  return registry.filter((source) => source.enabled && source.adapter === 'github-releases');
+}
+
+function printRelease(note: ReleaseNote): void {
+  console.log(`\n🏷️ ${note.version}${note.prerelease ? ' (pre-release)' : ''} - ${note.publishedAt}`);
+  console.log(`   ${note.url}`);
+  if (note.breakingChanges.length > 0) {
+    console.log('   Breaking changes:');
+    note.breakingChanges.forEach((change) => console.log(`     - ${change}`));
+  }
+  if (note.newCommands.length > 0) {
+    console.log(`   New commands: ${note.newCommands.join(', ')}`);
+  }
+  if (note.highlights.length > 0) {
+    console.log('   Highlights:');
+    note.highlights.forEach((highlight) => console.log(`     - ${highlight}`));
+  }
+}
+
+async function main() {
+  const feed = readFlag('--feed');
+  const write = process.argv.includes('--write');
+  const adapter = getAdapter('github-releases');
+  if (!adapter) throw new Error('github-releases adapter is not registered');
+
+  const sources = await resolveSources(feed);
+  if (sources.length === 0) {
+    console.log('No enabled github-releases sources in the registry. Pass --feed <url-or-file>.');
+    return;
+  }
+
+  const notes: ReleaseNote[] = [];
+  for (const source of sources) {
+    const entries = await adapter.fetchEntries(source, { fetch: fetchFeed });
+    console.log(`📦 ${source.id}: ${entries.length} releases`);
+    for (const entry of entries) {
+      if (!entry.release) continue;
+      notes.push(entry.release);
+      printRelease(entry.release);
+    }
+  }
+
+  if (write) {
+    const file = await loadReleaseNotes();
+    const added = mergeReleaseNotes(file, notes);
+    await saveReleaseNotes(file);
+    console.log(`\n✅ Recorded ${notes.length} releases (${added.length} new)`);
+  }
+}
+
+main().catch(console.error);
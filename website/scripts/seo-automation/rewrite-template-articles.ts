@@ -8,13 +8,17 @@ import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { CLAWDBOT_KNOWLEDGE } from '../clawdbot-knowledge-base.js';
+import { createResponseCache, formatCacheStats } from './llm/cache.ts';
+import { createCostTracker, formatCostTotals, formatUsd } from './llm/costs.ts';
+import { createLlmClient, resolveProviders } from './llm/providers.ts';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const AICODECAT_API_URL = process.env.AICODECAT_API_URL;
-const AICODECAT_API_KEY = process.env.AICODECAT_API_KEY;
-const AICODECAT_MODEL = process.env.AICODECAT_MODEL || 'gemini-3-flash-preview';
+// --no-cache / --cache-ttl <days> control the prompt-hash response cache; SEO_MAX_COST_USD caps the run
+const responseCache = createResponseCache();
+const costTracker = createCostTracker();
+const llm = createLlmClient(resolveProviders(), { cache: responseCache, costs: costTracker });
 const REWRITE_SLUGS = process.env.REWRITE_SLUGS?.split(',').map((slug) => slug.trim()).filter(Boolean) || [];
 const REWRITE_DATE = process.env.REWRITE_DATE || process.env.SEO_DATE || process.env.ANALYTICS_DATE;
 
@@ -156,41 +160,6 @@ function insertHeroImage(content: string, slug: string, title: string): { update
   return { updated: `${frontmatterBlock}${lines.join('\n')}`, changed: true };
 }
 
-async function callAicodecatAPI(prompt: string): Promise<string> {
-  const response = await fetch(`${AICODECAT_API_URL}/v1/messages`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${AICODECAT_API_KEY}`,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: AICODECAT_MODEL,
-      max_tokens: 8000,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`API error: ${response.status} - ${error}`);
-  }
-
-  const data = await response.json();
-  const content =
-    data?.content?.[0]?.text ??
-    data?.content?.text ??
-    (typeof data?.content === 'string' ? data.content : '') ??
-    data?.choices?.[0]?.message?.content ??
-    '';
-  return content;
-}
-
 function extractFrontmatter(content: string): ArticleFrontmatter | null {
   const match = content.match(/^---\n([\s\S]*?)\n---/);
   if (!match) return null;
@@ -322,20 +291,27 @@ async function rewriteArticle(slug: string): Promise<boolean> {
     const prompt = buildRewritePrompt(frontmatter);
     let newContent: string | null = null;
 
-    for (let attempt = 1; attempt <= 2; attempt++) {
-      const raw = await callAicodecatAPI(prompt);
-      let normalized = normalizeGeneratedContent(raw);
+    // Only output with a frontmatter block is accepted, and so cached
+    const acceptRewrite = (text: string): string => {
+      let normalized = normalizeGeneratedContent(text);
 
       if (!FRONTMATTER_BLOCK.test(normalized) && originalFrontmatterMatch && normalized.length > 0) {
         normalized = `${originalFrontmatterMatch[0]}\n\n${normalized}\n`;
       }
 
-      if (FRONTMATTER_BLOCK.test(normalized)) {
-        newContent = normalized;
-        break;
+      if (!FRONTMATTER_BLOCK.test(normalized)) {
+        throw new Error('Invalid output format');
       }
+      return normalized;
+    };
 
-      console.log(`   ⚠️ Invalid output format (attempt ${attempt}), retrying...`);
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      try {
+        newContent = (await llm.generate(prompt, { accept: acceptRewrite })).text;
+        break;
+      } catch {
+        console.log(`   ⚠️ No usable output (attempt ${attempt}), retrying...`);
+      }
     }
 
     if (!newContent) {
@@ -370,12 +346,12 @@ async function main(): Promise<void> {
   console.log('║         TEMPLATE ARTICLE REWRITER (AI Enhancement)         ║');
   console.log('╠════════════════════════════════════════════════════════════╣');
   console.log(`║  Date: ${new Date().toISOString().split('T')[0].padEnd(51)}║`);
-  console.log(`║  Model: ${AICODECAT_MODEL.padEnd(50)}║`);
+  console.log(`║  Model: ${(llm.providers[0]?.label || 'none').padEnd(50)}║`);
   console.log(`║  Articles to Rewrite: ${String(slugs.length).padEnd(36)}║`);
   console.log('╚════════════════════════════════════════════════════════════╝\n');
 
-  if (!AICODECAT_API_URL || !AICODECAT_API_KEY) {
-    console.error('Error: AICODECAT_API_URL and AICODECAT_API_KEY are required');
+  if (llm.providers.length === 0) {
+    console.error('Error: no LLM provider configured (AICODECAT_API_URL + AICODECAT_API_KEY, GEMINI_API_KEY, OPENAI_API_KEY or OLLAMA_MODEL)');
     process.exit(1);
   }
 
@@ -387,8 +363,16 @@ async function main(): Promise<void> {
   let successCount = 0;
 
   for (const slug of slugs) {
+    if (costTracker.budgetExceeded()) {
+      const remaining = slugs.length - slugs.indexOf(slug);
+      console.log(`\n💸 Budget of ${formatUsd(costTracker.maxCostUsd ?? 0)} reached (${formatUsd(costTracker.totals.costUsd)} spent); skipping ${remaining} article(s)`);
+      break;
+    }
+
+    const mark = { ...costTracker.totals };
     const success = await rewriteArticle(slug);
     if (success) successCount++;
+    console.log(`   💰 ${formatCostTotals(costTracker.since(mark))}`);
 
     // Rate limiting - wait 3 seconds between articles
     if (slugs.indexOf(slug) < slugs.length - 1) {
@@ -403,6 +387,8 @@ async function main(): Promise<void> {
   console.log(`║  ✅ Successfully Rewritten: ${String(successCount).padEnd(30)}║`);
   console.log(`║  ❌ Failed: ${String(slugs.length - successCount).padEnd(47)}║`);
   console.log('╚════════════════════════════════════════════════════════════╝');
+  console.log(`💾 LLM response cache: ${formatCacheStats(responseCache)}`);
+  console.log(`💰 LLM usage: ${formatCostTotals(costTracker.totals, costTracker.maxCostUsd)}`);
 }
 
 main().catch(console.error);
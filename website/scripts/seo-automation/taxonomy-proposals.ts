@@ -0,0 +1,94 @@
+/**
+ * Taxonomy Proposals - Review topics suggested from emerging phrases
+ *
+ * The collector proposes a topic for every emerging phrase the taxonomy
+ * does not cover (data/knowledge-base/taxonomy-proposals.json). Accepting
+ * one appends it to data/config/taxonomy.json with the phrase as synonym and
+ * the suggested parent, whose article templates it inherits until it gets
+ * its own. Rejected phrases are remembered and never proposed again.
+ *
+ * Usage:
+ *   npm run seo:taxonomy-proposals
+ *   npm run seo:taxonomy-proposals -- --accept <id> [--parent <topic>] [--label <label>]
+ *   npm run seo:taxonomy-proposals -- --reject <id>
+ */
+
+import {
+  loadTaxonomyProposals,
+  saveTaxonomyProposals,
+  type TaxonomyProposal,
+} from './collector/emerging-phrases.ts';
+import { addTaxonomyTopic, loadTaxonomy, validateTaxonomy } from './collector/taxonomy.ts';
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function printProposal(proposal: TaxonomyProposal): void {
+  console.log(`\n🌱 ${proposal.id} - "${proposal.phrase}" (${proposal.lift}x lift, ${proposal.recentItems} items this week)`);
+  console.log(`   Parent: ${proposal.parent || '(none)'} | Last proposed: ${proposal.lastProposed.split('T')[0]}`);
+  proposal.examples.forEach((example) => console.log(`   - ${example.title} (${example.url})`));
+}
+
+async function main() {
+  const acceptId = readFlag('--accept');
+  const rejectId = readFlag('--reject');
+  const file = await loadTaxonomyProposals();
+
+  if (!acceptId && !rejectId) {
+    if (file.proposals.length === 0) {
+      console.log('No pending taxonomy proposals.');
+      return;
+    }
+    console.log(`${file.proposals.length} pending taxonomy proposals:`);
+    file.proposals.forEach(printProposal);
+    console.log('\nAccept with --accept <id> [--parent <topic>] [--label <label>], reject with --reject <id>');
+    return;
+  }
+
+  const id = (acceptId || rejectId) as string;
+  const proposal = file.proposals.find((entry) => entry.id === id);
+  if (!proposal) {
+    console.error(`❌ No pending proposal "${id}"`);
+    process.exit(1);
+  }
+
+  if (rejectId) {
+    file.proposals = file.proposals.filter((entry) => entry.id !== id);
+    file.rejected = Array.from(new Set([...file.rejected, id]));
+    await saveTaxonomyProposals(file);
+    console.log(`🗑️ Rejected "${proposal.phrase}"; it will not be proposed again`);
+    return;
+  }
+
+  const taxonomy = await loadTaxonomy();
+  const parent = readFlag('--parent') ?? proposal.parent;
+  if (parent && !taxonomy.byId.has(parent)) {
+    console.error(`❌ Unknown parent topic "${parent}"`);
+    process.exit(1);
+  }
+
+  await addTaxonomyTopic({
+    id,
+    label: readFlag('--label') || proposal.label,
+    parent,
+    synonyms: [proposal.phrase],
+  });
+  file.proposals = file.proposals.filter((entry) => entry.id !== id);
+  await saveTaxonomyProposals(file);
+  console.log(`✅ Added topic "${id}"${parent ? ` under "${parent}"` : ''}`);
+
+  const issues = validateTaxonomy(await loadTaxonomy()).filter((issue) => issue.topic === id);
+  for (const issue of issues) {
+    console.log(`   ${issue.level === 'error' ? '❌' : '⚠️'} ${issue.message}`);
+  }
+  if (issues.some((issue) => issue.level === 'error')) {
+    console.log('   Add an article template for it in data/config/taxonomy.json, then run npm run seo:taxonomy');
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -54,6 +54,33 @@ export interface KnowledgeUpdate {
   addedAt: string;
 }
 
+export interface CollectedItemAlternate {
+  id: string;
+  url: string;
+  source: string;
+  publishedAt: string;
+}
+
+export interface RelevanceExplanation {
+  score: number; // 0-100 before the source weight is applied
+  raw: number; // BM25F score against the ideal-document profile
+  fields: { title: number; summary: number; content: number };
+  topTerms: { term: string; contribution: number }[];
+  sourceWeight?: number;
+}
+
+export interface ReleaseNote {
+  version: string;
+  tag: string;
+  title: string;
+  url: string;
+  publishedAt: string;
+  breakingChanges: string[];
+  newCommands: string[]; // CLI command paths such as "openclaw cron add"
+  highlights: string[];
+  prerelease: boolean;
+}
+
 export interface CollectedArticle {
   id: string;
   title: string;
@@ -62,10 +89,39 @@ export interface CollectedArticle {
   contentType?: 'news' | 'article' | 'case-study' | 'feedback' | 'community';
   content?: string;
   summary?: string;
+  language?: string; // ISO 639-1 code from the local detector, 'und' when unknown
   publishedAt: string;
   collectedAt: string;
   relevanceScore: number;
   topics: string[];
+  alternates?: CollectedItemAlternate[]; // near-duplicate copies merged into this item
+  spread?: number; // number of URLs the story appeared under
+  scoreExplanation?: RelevanceExplanation;
+  firstSeen?: string; // first collection run that fetched the item (from the archive)
+  lastSeen?: string; // latest collection run that fetched it again
+  release?: ReleaseNote; // structured notes for GitHub release entries
+  digest?: ItemDigest; // neutral summary for article prompts (collector/summaries.ts)
+}
+
+export interface ItemDigest {
+  summary: string; // 2-3 neutral sentences
+  entities: string[]; // products, projects, companies and people the item is about
+  method: 'llm' | 'extractive';
+  model?: string; // provider:model that wrote an llm digest
+  contentHash: string; // hash of the title and text it was made from
+}
+
+// LLM spend for one generated article (llm/costs.ts), keyed by slug in generated-articles.json
+export interface ArticleCost {
+  generatedAt: string;
+  provider: string; // provider of the accepted response, or 'offline'
+  model: string;
+  calls: number; // every provider call for the article, rejected ones included
+  cachedCalls: number;
+  unpricedCalls: number; // calls without reported usage or a known price
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
 }
 
 export interface AnalyticsEvent {
@@ -0,0 +1,39 @@
+/**
+ * Validate Taxonomy - Check data/config/taxonomy.json before it ships
+ *
+ * Flags topics without an article mapping (an error unless an ancestor
+ * provides one), unknown or looping parents, duplicate ids, topics the
+ * collector can never assign and article templates with invalid fields.
+ * Exits with code 1 when there are errors.
+ *
+ * Usage: npm run seo:taxonomy
+ */
+
+import { loadTaxonomy, TAXONOMY_FILE, validateTaxonomy } from './collector/taxonomy.ts';
+
+async function main() {
+  const taxonomy = await loadTaxonomy();
+  const issues = validateTaxonomy(taxonomy);
+  const errors = issues.filter((issue) => issue.level === 'error');
+  const warnings = issues.filter((issue) => issue.level === 'warning');
+
+  console.log(`🗂️ ${TAXONOMY_FILE}: ${taxonomy.topics.length} topics`);
+
+  for (const issue of errors) {
+    console.log(`   ❌ ${issue.topic}: ${issue.message}`);
+  }
+  for (const issue of warnings) {
+    console.log(`   ⚠️ ${issue.topic}: ${issue.message}`);
+  }
+
+  if (errors.length > 0) {
+    console.log(`\n❌ ${errors.length} error(s), ${warnings.length} warning(s)`);
+    process.exit(1);
+  }
+  console.log(`\n✅ Taxonomy is valid (${warnings.length} warning(s))`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -6,7 +6,7 @@ import { CLAWDBOT_KNOWLEDGE, VERIFIED_COMMANDS } from './clawdbot-knowledge-base
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-interface QualityScore {
+export interface QualityScore {
   overall: number;
   accuracy: number;
   completeness: number;
@@ -15,14 +15,14 @@ interface QualityScore {
   safety: number;
 }
 
-interface QualityIssue {
+export interface QualityIssue {
   severity: 'critical' | 'warning' | 'info';
   category: string;
   message: string;
   line?: number;
 }
 
-interface ValidationResult {
+export interface ValidationResult {
   file: string;
   passed: boolean;
   score: QualityScore;
@@ -30,9 +30,13 @@ interface ValidationResult {
   recommendations: string[];
 }
 
-async function validateArticleQuality(filePath: string): Promise<ValidationResult> {
+/**
+ * Quality scores for one article's MDX source, importable so generators can
+ * check a draft before saving it.
+ */
+export async function validateArticleQuality(content: string, fileName = 'draft.mdx'): Promise<ValidationResult> {
   const result: ValidationResult = {
-    file: path.basename(filePath),
+    file: fileName,
     passed: false,
     score: {
       overall: 0,
@@ -47,8 +51,6 @@ async function validateArticleQuality(filePath: string): Promise<ValidationResul
   };
 
   try {
-    const content = await fs.readFile(filePath, 'utf-8');
-
     // Extract frontmatter and content
     const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
     if (!frontmatterMatch) {
@@ -104,6 +106,22 @@ async function validateArticleQuality(filePath: string): Promise<ValidationResul
   return result;
 }
 
+async function validateArticleQualityFile(filePath: string): Promise<ValidationResult> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    return {
+      file: path.basename(filePath),
+      passed: false,
+      score: { overall: 0, accuracy: 0, completeness: 0, clarity: 0, value: 0, safety: 0 },
+      issues: [{ severity: 'critical', category: 'System', message: `Failed to read article: ${error}` }],
+      recommendations: [],
+    };
+  }
+  return validateArticleQuality(content, path.basename(filePath));
+}
+
 async function checkAccuracy(content: string, issues: QualityIssue[]): Promise<number> {
   let score = 10;
 
@@ -490,7 +508,7 @@ async function validateAllArticles() {
     const results: ValidationResult[] = [];
     for (const file of mdxFiles) {
       const filePath = path.join(articlesDir, file);
-      const result = await validateArticleQuality(filePath);
+      const result = await validateArticleQualityFile(filePath);
       results.push(result);
     }
 
@@ -551,4 +569,7 @@ async function validateAllArticles() {
   }
 }
 
-validateAllArticles();
+// Run only as a script; generators import validateArticleQuality
+if (process.argv[1] && path.resolve(process.argv[1]) === __filename) {
+  validateAllArticles();
+}
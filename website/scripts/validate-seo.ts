@@ -5,7 +5,7 @@ import { fileURLToPath } from 'url';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-interface ValidationResult {
+export interface ValidationResult {
   file: string;
   slug: string;
   errors: string[];
@@ -14,10 +14,11 @@ interface ValidationResult {
   score: number;
 }
 
-async function validateArticle(filePath: string): Promise<ValidationResult> {
-  const fileName = path.basename(filePath);
-  const slug = fileName.replace('.mdx', '');
-
+/**
+ * SEO checks for one article's MDX source. Pure, so generators can score a
+ * draft before it is written to src/content/articles.
+ */
+export function validateArticle(content: string, slug: string, fileName = `${slug}.mdx`): ValidationResult {
   const result: ValidationResult = {
     file: fileName,
     slug,
@@ -27,279 +28,283 @@ async function validateArticle(filePath: string): Promise<ValidationResult> {
     score: 100,
   };
 
-  try {
-    const content = await fs.readFile(filePath, 'utf-8');
-    const bodyContent = content.replace(/^---[\s\S]*?---/, '').trim();
-
-    // Extract frontmatter
-    const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
-    if (!frontmatterMatch) {
-      result.errors.push('No frontmatter found');
-      result.score = 0;
-      return result;
-    }
+  const bodyContent = content.replace(/^---[\s\S]*?---/, '').trim();
 
-    const frontmatter = frontmatterMatch[1];
-
-    // Parse frontmatter values - use backreference to match same quote type
-    const titleMatch = frontmatter.match(/title:\s*(["'])(.+?)\1/) || frontmatter.match(/title:\s*(.+)$/m);
-    const descMatch = frontmatter.match(/description:\s*(["'])(.+?)\1/) || frontmatter.match(/description:\s*(.+)$/m);
-    const keywordsMatch = frontmatter.match(/keywords:\s*\[(.*?)\]/);
-    const readingTimeMatch = frontmatter.match(/readingTime:\s*(\d+)/);
-    const categoryMatch = frontmatter.match(/category:\s*(["'])(.+?)\1/) || frontmatter.match(/category:\s*(.+)$/m);
-    const imageMatch = frontmatter.match(/image:\s*(["'])(.+?)\1/);
-    const imageAltMatch = frontmatter.match(/imageAlt:\s*(["'])(.+?)\1/);
-
-    // === TITLE VALIDATION ===
-    if (!titleMatch) {
-      result.errors.push('Missing title');
-      result.score -= 20;
-    } else {
-      // Handle both quoted (group 2) and unquoted (group 1) matches
-      const title = titleMatch[2] || titleMatch[1];
-      if (title.length < 30) {
-        result.warnings.push(`Title too short (${title.length} chars, recommended 50-60)`);
-        result.score -= 5;
-      } else if (title.length > 60) {
-        result.errors.push(`Title too long (${title.length} chars, max 60)`);
-        result.score -= 10;
-      }
-
-      // Check for power words in title
-      const powerWords = ['guide', 'tutorial', 'how', 'best', 'complete', 'ultimate', 'step', 'easy', 'quick', 'free'];
-      const hasPowerWord = powerWords.some(word => title.toLowerCase().includes(word));
-      if (!hasPowerWord) {
-        result.info.push('Consider adding a power word to the title (guide, tutorial, how, best, etc.)');
-      }
+  // Extract frontmatter
+  const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
+  if (!frontmatterMatch) {
+    result.errors.push('No frontmatter found');
+    result.score = 0;
+    return result;
+  }
 
-      // Check for brand keyword inclusion
-      const brandKeywords = ['openclaw', 'moltbot', 'clawdbot'];
-      const hasBrandKeyword = brandKeywords.some((keyword) => title.toLowerCase().includes(keyword));
-      if (!hasBrandKeyword) {
-        result.warnings.push('Title should include a brand keyword (Openclaw, Moltbot, or Clawdbot) for recognition');
-        result.score -= 3;
-      }
+  const frontmatter = frontmatterMatch[1];
+
+  // Parse frontmatter values - use backreference to match same quote type
+  const titleMatch = frontmatter.match(/title:\s*(["'])(.+?)\1/) || frontmatter.match(/title:\s*(.+)$/m);
+  const descMatch = frontmatter.match(/description:\s*(["'])(.+?)\1/) || frontmatter.match(/description:\s*(.+)$/m);
+  const keywordsMatch = frontmatter.match(/keywords:\s*\[(.*?)\]/);
+  const readingTimeMatch = frontmatter.match(/readingTime:\s*(\d+)/);
+  const categoryMatch = frontmatter.match(/category:\s*(["'])(.+?)\1/) || frontmatter.match(/category:\s*(.+)$/m);
+  const imageMatch = frontmatter.match(/image:\s*(["'])(.+?)\1/);
+  const imageAltMatch = frontmatter.match(/imageAlt:\s*(["'])(.+?)\1/);
+
+  // === TITLE VALIDATION ===
+  if (!titleMatch) {
+    result.errors.push('Missing title');
+    result.score -= 20;
+  } else {
+    // Handle both quoted (group 2) and unquoted (group 1) matches
+    const title = titleMatch[2] || titleMatch[1];
+    if (title.length < 30) {
+      result.warnings.push(`Title too short (${title.length} chars, recommended 50-60)`);
+      result.score -= 5;
+    } else if (title.length > 60) {
+      result.errors.push(`Title too long (${title.length} chars, max 60)`);
+      result.score -= 10;
     }
 
-    // === DESCRIPTION VALIDATION ===
-    if (!descMatch) {
-      result.errors.push('Missing description');
-      result.score -= 20;
-    } else {
-      // Handle both quoted (group 2) and unquoted (group 1) matches
-      const description = descMatch[2] || descMatch[1];
-      if (description.length < 120) {
-        result.warnings.push(`Description too short (${description.length} chars, recommended 120-160)`);
-        result.score -= 5;
-      } else if (description.length > 160) {
-        result.errors.push(`Description too long (${description.length} chars, max 160)`);
-        result.score -= 10;
-      }
-
-      // Check for call-to-action in description
-      const ctaWords = ['learn', 'discover', 'find out', 'get started', 'explore', 'master'];
-      const hasDescCta = ctaWords.some(word => description.toLowerCase().includes(word));
-      if (!hasDescCta) {
-        result.info.push('Consider adding a call-to-action word in description (learn, discover, etc.)');
-      }
+    // Check for power words in title
+    const powerWords = ['guide', 'tutorial', 'how', 'best', 'complete', 'ultimate', 'step', 'easy', 'quick', 'free'];
+    const hasPowerWord = powerWords.some(word => title.toLowerCase().includes(word));
+    if (!hasPowerWord) {
+      result.info.push('Consider adding a power word to the title (guide, tutorial, how, best, etc.)');
     }
 
-    // === KEYWORDS VALIDATION ===
-    if (!keywordsMatch) {
-      result.errors.push('Missing keywords');
-      result.score -= 10;
-    } else {
-      const keywords = keywordsMatch[1].split(',').map((k) => k.trim().replace(/["']/g, '')).filter(k => k);
-      if (keywords.length < 3) {
-        result.warnings.push(`Too few keywords (${keywords.length}, recommended 5-10)`);
-        result.score -= 5;
-      } else if (keywords.length > 15) {
-        result.warnings.push(`Too many keywords (${keywords.length}, recommended 5-10)`);
-        result.score -= 3;
-      }
-
-      // Check if slug contains primary keyword
-      if (!keywords.some(kw => slug.includes(kw.toLowerCase().replace(/\s+/g, '-')))) {
-        result.info.push('Consider aligning slug with primary keyword');
-      }
+    // Check for brand keyword inclusion
+    const brandKeywords = ['openclaw', 'moltbot', 'clawdbot'];
+    const hasBrandKeyword = brandKeywords.some((keyword) => title.toLowerCase().includes(keyword));
+    if (!hasBrandKeyword) {
+      result.warnings.push('Title should include a brand keyword (Openclaw, Moltbot, or Clawdbot) for recognition');
+      result.score -= 3;
     }
+  }
 
-    // === SLUG VALIDATION ===
-    if (slug.length > 60) {
-      result.warnings.push(`Slug too long (${slug.length} chars, recommended under 60)`);
+  // === DESCRIPTION VALIDATION ===
+  if (!descMatch) {
+    result.errors.push('Missing description');
+    result.score -= 20;
+  } else {
+    // Handle both quoted (group 2) and unquoted (group 1) matches
+    const description = descMatch[2] || descMatch[1];
+    if (description.length < 120) {
+      result.warnings.push(`Description too short (${description.length} chars, recommended 120-160)`);
       result.score -= 5;
-    }
-
-    if (slug.includes('_')) {
-      result.errors.push('Slug contains underscores (use hyphens instead)');
+    } else if (description.length > 160) {
+      result.errors.push(`Description too long (${description.length} chars, max 160)`);
       result.score -= 10;
     }
 
-    if (slug !== slug.toLowerCase()) {
-      result.errors.push('Slug contains uppercase letters');
-      result.score -= 10;
+    // Check for call-to-action in description
+    const ctaWords = ['learn', 'discover', 'find out', 'get started', 'explore', 'master'];
+    const hasDescCta = ctaWords.some(word => description.toLowerCase().includes(word));
+    if (!hasDescCta) {
+      result.info.push('Consider adding a call-to-action word in description (learn, discover, etc.)');
     }
+  }
 
-    if (/-{2,}/.test(slug)) {
-      result.warnings.push('Slug contains consecutive hyphens');
+  // === KEYWORDS VALIDATION ===
+  if (!keywordsMatch) {
+    result.errors.push('Missing keywords');
+    result.score -= 10;
+  } else {
+    const keywords = keywordsMatch[1].split(',').map((k) => k.trim().replace(/["']/g, '')).filter(k => k);
+    if (keywords.length < 3) {
+      result.warnings.push(`Too few keywords (${keywords.length}, recommended 5-10)`);
+      result.score -= 5;
+    } else if (keywords.length > 15) {
+      result.warnings.push(`Too many keywords (${keywords.length}, recommended 5-10)`);
       result.score -= 3;
     }
 
-    // === IMAGE VALIDATION ===
-    if (!imageMatch) {
-      result.warnings.push('Missing featured image');
-      result.score -= 5;
+    // Check if slug contains primary keyword
+    if (!keywords.some(kw => slug.includes(kw.toLowerCase().replace(/\s+/g, '-')))) {
+      result.info.push('Consider aligning slug with primary keyword');
     }
+  }
 
-    if (imageMatch && !imageAltMatch) {
-      result.warnings.push('Missing image alt text for accessibility and SEO');
-      result.score -= 5;
-    }
+  // === SLUG VALIDATION ===
+  if (slug.length > 60) {
+    result.warnings.push(`Slug too long (${slug.length} chars, recommended under 60)`);
+    result.score -= 5;
+  }
 
-    // === READING TIME VALIDATION ===
-    if (!readingTimeMatch) {
-      result.errors.push('Missing readingTime');
-      result.score -= 5;
-    } else {
-      const readingTime = parseInt(readingTimeMatch[1]);
-      if (readingTime < 3) {
-        result.warnings.push(`Reading time very short (${readingTime} min)`);
-      } else if (readingTime > 20) {
-        result.warnings.push(`Reading time very long (${readingTime} min), consider splitting into multiple articles`);
-      }
-    }
+  if (slug.includes('_')) {
+    result.errors.push('Slug contains underscores (use hyphens instead)');
+    result.score -= 10;
+  }
 
-    // === CONTENT VALIDATION ===
+  if (slug !== slug.toLowerCase()) {
+    result.errors.push('Slug contains uppercase letters');
+    result.score -= 10;
+  }
 
-    // Check for HostingCTA components
-    const ctaCount = (content.match(/<HostingCTA/g) || []).length;
-    if (ctaCount === 0) {
-      result.errors.push('No HostingCTA components found');
-      result.score -= 10;
-    } else if (ctaCount < 2) {
-      result.warnings.push(`Only ${ctaCount} HostingCTA component(s), recommended 2-3`);
-      result.score -= 3;
-    } else if (ctaCount > 4) {
-      result.warnings.push(`Too many HostingCTA components (${ctaCount}), recommended 2-3`);
-      result.score -= 3;
-    }
+  if (/-{2,}/.test(slug)) {
+    result.warnings.push('Slug contains consecutive hyphens');
+    result.score -= 3;
+  }
 
-    // Check heading hierarchy
-    // Remove code blocks before counting headings to avoid false positives from comments
-    const contentWithoutCodeBlocks = bodyContent.replace(/```[\s\S]*?```/g, '');
-    const h1Count = (contentWithoutCodeBlocks.match(/^# [^#]/gm) || []).length;
-    if (h1Count > 1) {
-      result.errors.push(`Multiple H1 headings found (${h1Count}), should have only 1`);
-      result.score -= 10;
-    } else if (h1Count === 0) {
-      result.warnings.push('No H1 heading found in content');
-      result.score -= 5;
-    }
+  // === IMAGE VALIDATION ===
+  if (!imageMatch) {
+    result.warnings.push('Missing featured image');
+    result.score -= 5;
+  }
 
-    const h2Count = (contentWithoutCodeBlocks.match(/^## [^#]/gm) || []).length;
-    if (h2Count === 0) {
-      result.warnings.push('No H2 headings found, consider adding section headings');
-      result.score -= 5;
-    } else if (h2Count < 3) {
-      result.info.push(`Only ${h2Count} H2 headings, consider adding more structure`);
-    }
+  if (imageMatch && !imageAltMatch) {
+    result.warnings.push('Missing image alt text for accessibility and SEO');
+    result.score -= 5;
+  }
 
-    // Check for H2 before H3
-    const firstH2 = bodyContent.indexOf('## ');
-    const firstH3 = bodyContent.indexOf('### ');
-    if (firstH3 !== -1 && (firstH2 === -1 || firstH3 < firstH2)) {
-      result.warnings.push('H3 appears before H2, maintain heading hierarchy');
-      result.score -= 5;
+  // === READING TIME VALIDATION ===
+  if (!readingTimeMatch) {
+    result.errors.push('Missing readingTime');
+    result.score -= 5;
+  } else {
+    const readingTime = parseInt(readingTimeMatch[1]);
+    if (readingTime < 3) {
+      result.warnings.push(`Reading time very short (${readingTime} min)`);
+    } else if (readingTime > 20) {
+      result.warnings.push(`Reading time very long (${readingTime} min), consider splitting into multiple articles`);
     }
+  }
 
-    // Check for code blocks in tutorials
-    const codeBlockCount = (bodyContent.match(/```/g) || []).length / 2;
-    const categoryValue = categoryMatch ? (categoryMatch[2] || categoryMatch[1]) : '';
-    const isTutorial = categoryValue.toLowerCase() === 'tutorial';
-    if (codeBlockCount === 0 && isTutorial) {
-      result.warnings.push('No code blocks found in tutorial article');
-      result.score -= 10;
-    }
+  // === CONTENT VALIDATION ===
+
+  // Check for HostingCTA components
+  const ctaCount = (content.match(/<HostingCTA/g) || []).length;
+  if (ctaCount === 0) {
+    result.errors.push('No HostingCTA components found');
+    result.score -= 10;
+  } else if (ctaCount < 2) {
+    result.warnings.push(`Only ${ctaCount} HostingCTA component(s), recommended 2-3`);
+    result.score -= 3;
+  } else if (ctaCount > 4) {
+    result.warnings.push(`Too many HostingCTA components (${ctaCount}), recommended 2-3`);
+    result.score -= 3;
+  }
 
-    // Check for internal links
-    const internalLinkCount = (bodyContent.match(/\[.*?\]\(\/articles\//g) || []).length;
-    if (internalLinkCount === 0) {
-      result.warnings.push('No internal links to other articles (helps SEO and user engagement)');
-      result.score -= 5;
-    }
+  // Check heading hierarchy
+  // Remove code blocks before counting headings to avoid false positives from comments
+  const contentWithoutCodeBlocks = bodyContent.replace(/```[\s\S]*?```/g, '');
+  const h1Count = (contentWithoutCodeBlocks.match(/^# [^#]/gm) || []).length;
+  if (h1Count > 1) {
+    result.errors.push(`Multiple H1 headings found (${h1Count}), should have only 1`);
+    result.score -= 10;
+  } else if (h1Count === 0) {
+    result.warnings.push('No H1 heading found in content');
+    result.score -= 5;
+  }
 
-    // Check for external links with proper attributes
-    const externalLinks = bodyContent.match(/\[.*?\]\(https?:\/\/[^)]+\)/g) || [];
-    if (externalLinks.length === 0) {
-      result.info.push('Consider adding external links to authoritative sources');
-    }
+  const h2Count = (contentWithoutCodeBlocks.match(/^## [^#]/gm) || []).length;
+  if (h2Count === 0) {
+    result.warnings.push('No H2 headings found, consider adding section headings');
+    result.score -= 5;
+  } else if (h2Count < 3) {
+    result.info.push(`Only ${h2Count} H2 headings, consider adding more structure`);
+  }
 
-    // Check for images
-    const imageCount = (bodyContent.match(/!\[.*?\]\(/g) || []).length;
-    if (imageCount === 0) {
-      result.warnings.push('No images found, visual content improves engagement');
-      result.score -= 5;
-    }
+  // Check for H2 before H3
+  const firstH2 = bodyContent.indexOf('## ');
+  const firstH3 = bodyContent.indexOf('### ');
+  if (firstH3 !== -1 && (firstH2 === -1 || firstH3 < firstH2)) {
+    result.warnings.push('H3 appears before H2, maintain heading hierarchy');
+    result.score -= 5;
+  }
 
-    // Check for image alt text
-    const imagesWithoutAlt = (bodyContent.match(/!\[\]\(/g) || []).length;
-    if (imagesWithoutAlt > 0) {
-      result.errors.push(`${imagesWithoutAlt} image(s) missing alt text`);
-      result.score -= imagesWithoutAlt * 3;
-    }
+  // Check for code blocks in tutorials
+  const codeBlockCount = (bodyContent.match(/```/g) || []).length / 2;
+  const categoryValue = categoryMatch ? (categoryMatch[2] || categoryMatch[1]) : '';
+  const isTutorial = categoryValue.toLowerCase() === 'tutorial';
+  if (codeBlockCount === 0 && isTutorial) {
+    result.warnings.push('No code blocks found in tutorial article');
+    result.score -= 10;
+  }
 
-    // Word count check
-    const wordCount = bodyContent.split(/\s+/).filter(word => word.length > 0).length;
-    if (wordCount < 800) {
-      result.warnings.push(`Content too short (${wordCount} words, recommended 1000-2000)`);
-      result.score -= 10;
-    } else if (wordCount < 1000) {
-      result.info.push(`Content slightly short (${wordCount} words)`);
-    } else if (wordCount > 3000) {
-      result.info.push(`Long content (${wordCount} words), consider splitting into series`);
-    }
+  // Check for internal links
+  const internalLinkCount = (bodyContent.match(/\[.*?\]\(\/articles\//g) || []).length;
+  if (internalLinkCount === 0) {
+    result.warnings.push('No internal links to other articles (helps SEO and user engagement)');
+    result.score -= 5;
+  }
 
-    // Check for keyword density (rough check)
-    if (titleMatch) {
-      const title = titleMatch[1].toLowerCase();
-      const titleWords = title.split(/\s+/).filter(w => w.length > 4);
-      const contentLower = bodyContent.toLowerCase();
-      const primaryKeyword = titleWords[0];
-      if (primaryKeyword) {
-        const keywordOccurrences = (contentLower.match(new RegExp(primaryKeyword, 'g')) || []).length;
-        const density = (keywordOccurrences / wordCount) * 100;
-        if (density < 0.5) {
-          result.info.push(`Low keyword density for "${primaryKeyword}" (${density.toFixed(1)}%)`);
-        } else if (density > 3) {
-          result.warnings.push(`High keyword density for "${primaryKeyword}" (${density.toFixed(1)}%), may appear spammy`);
-          result.score -= 5;
-        }
-      }
-    }
+  // Check for external links with proper attributes
+  const externalLinks = bodyContent.match(/\[.*?\]\(https?:\/\/[^)]+\)/g) || [];
+  if (externalLinks.length === 0) {
+    result.info.push('Consider adding external links to authoritative sources');
+  }
 
-    // Check for lists (improve readability)
-    const listCount = (bodyContent.match(/^[\-\*]\s/gm) || []).length + (bodyContent.match(/^\d+\.\s/gm) || []).length;
-    if (listCount === 0 && wordCount > 500) {
-      result.info.push('Consider adding bullet points or numbered lists for readability');
-    }
+  // Check for images
+  const imageCount = (bodyContent.match(/!\[.*?\]\(/g) || []).length;
+  if (imageCount === 0) {
+    result.warnings.push('No images found, visual content improves engagement');
+    result.score -= 5;
+  }
+
+  // Check for image alt text
+  const imagesWithoutAlt = (bodyContent.match(/!\[\]\(/g) || []).length;
+  if (imagesWithoutAlt > 0) {
+    result.errors.push(`${imagesWithoutAlt} image(s) missing alt text`);
+    result.score -= imagesWithoutAlt * 3;
+  }
 
-    // Check for conclusion
-    const hasConclusion = /##.*?(conclusion|summary|wrap|final|takeaway)/i.test(bodyContent);
-    if (!hasConclusion && wordCount > 800) {
-      result.info.push('Consider adding a Conclusion section');
+  // Word count check
+  const wordCount = bodyContent.split(/\s+/).filter(word => word.length > 0).length;
+  if (wordCount < 800) {
+    result.warnings.push(`Content too short (${wordCount} words, recommended 1000-2000)`);
+    result.score -= 10;
+  } else if (wordCount < 1000) {
+    result.info.push(`Content slightly short (${wordCount} words)`);
+  } else if (wordCount > 3000) {
+    result.info.push(`Long content (${wordCount} words), consider splitting into series`);
+  }
+
+  // Check for keyword density (rough check)
+  if (titleMatch) {
+    const title = titleMatch[1].toLowerCase();
+    const titleWords = title.split(/\s+/).filter(w => w.length > 4);
+    const contentLower = bodyContent.toLowerCase();
+    const primaryKeyword = titleWords[0];
+    if (primaryKeyword) {
+      const keywordOccurrences = (contentLower.match(new RegExp(primaryKeyword, 'g')) || []).length;
+      const density = (keywordOccurrences / wordCount) * 100;
+      if (density < 0.5) {
+        result.info.push(`Low keyword density for "${primaryKeyword}" (${density.toFixed(1)}%)`);
+      } else if (density > 3) {
+        result.warnings.push(`High keyword density for "${primaryKeyword}" (${density.toFixed(1)}%), may appear spammy`);
+        result.score -= 5;
+      }
     }
+  }
 
-    // === ENSURE MINIMUM SCORE ===
-    result.score = Math.max(0, result.score);
+  // Check for lists (improve readability)
+  const listCount = (bodyContent.match(/^[\-\*]\s/gm) || []).length + (bodyContent.match(/^\d+\.\s/gm) || []).length;
+  if (listCount === 0 && wordCount > 500) {
+    result.info.push('Consider adding bullet points or numbered lists for readability');
+  }
 
-  } catch (error) {
-    result.errors.push(`Failed to read file: ${error}`);
-    result.score = 0;
+  // Check for conclusion
+  const hasConclusion = /##.*?(conclusion|summary|wrap|final|takeaway)/i.test(bodyContent);
+  if (!hasConclusion && wordCount > 800) {
+    result.info.push('Consider adding a Conclusion section');
   }
 
+  // === ENSURE MINIMUM SCORE ===
+  result.score = Math.max(0, result.score);
+
   return result;
 }
 
+async function validateArticleFile(filePath: string): Promise<ValidationResult> {
+  const fileName = path.basename(filePath);
+  const slug = fileName.replace('.mdx', '');
+
+  try {
+    return validateArticle(await fs.readFile(filePath, 'utf-8'), slug, fileName);
+  } catch (error) {
+    return { file: fileName, slug, errors: [`Failed to read file: ${error}`], warnings: [], info: [], score: 0 };
+  }
+}
+
 async function validateAllArticles() {
   const articlesDir = path.join(__dirname, '..', 'src', 'content', 'articles');
 
@@ -321,7 +326,7 @@ async function validateAllArticles() {
     const results: ValidationResult[] = [];
     for (const file of mdxFiles) {
       const filePath = path.join(articlesDir, file);
-      const result = await validateArticle(filePath);
+      const result = await validateArticleFile(filePath);
       results.push(result);
     }
 
@@ -407,4 +412,7 @@ async function validateAllArticles() {
   }
 }
 
-validateAllArticles();
+// Run only as a script; generators import validateArticle
+if (process.argv[1] && path.resolve(process.argv[1]) === __filename) {
+  validateAllArticles();
+}
@@ -0,0 +1,71 @@
+/**
+ * Article frontmatter schema, shared by the content collection and the
+ * article generators (scripts/seo-automation), so generated frontmatter is
+ * checked by the same rules before it can break the build.
+ */
+import { z } from 'astro/zod';
+
+// Editorial workflow: generators write `draft`/`review` entries to the drafts
+// collection; `npm run seo:promote <slug>` moves one to articles as `published`
+export const ARTICLE_STATUSES = ['draft', 'review', 'published'] as const;
+export type ArticleStatus = (typeof ARTICLE_STATUSES)[number];
+
+export const articleSchema = z.object({
+  // Primary SEO fields
+  title: z.string().max(60, 'Title should be 60 characters or less for SEO'),
+  description: z.string().min(120).max(160, 'Description should be 120-160 characters for SEO'),
+
+  // Dates
+  pubDate: z.date(),
+  modifiedDate: z.date().optional(),
+
+  // Author info
+  author: z.string().default('OpenClaw (Moltbot/Clawdbot) Team'),
+  authorUrl: z.string().url().optional(),
+
+  // Categorization
+  category: z.enum(['Tutorial', 'Guide', 'Comparison', 'Best Practices', 'News', 'Advanced']),
+  tags: z.array(z.string()),
+  keywords: z.array(z.string()),
+
+  // Images
+  image: z.string().default('/images/articles/default-og.jpg'),
+  imageAlt: z.string().optional(),
+
+  // Reading experience
+  readingTime: z.number().positive(),
+  featured: z.boolean().default(false),
+
+  // Advanced SEO
+  canonicalUrl: z.string().url().optional(),
+  noindex: z.boolean().default(false),
+
+  // Content quality indicators
+  sources: z.array(z.string().url()).optional(),
+  lastVerified: z.date().optional(),
+
+  // Schema.org enhancements
+  articleType: z.enum(['Article', 'TechArticle', 'HowTo', 'FAQPage', 'NewsArticle']).default('TechArticle'),
+
+  // Related content
+  relatedArticles: z.array(z.string()).optional(),
+
+  // Audience targeting
+  difficulty: z.enum(['beginner', 'intermediate', 'advanced']).default('beginner'),
+  audience: z.array(z.string()).optional(),
+
+  // Editorial workflow
+  status: z.enum(ARTICLE_STATUSES).default('published'),
+  approvedBy: z.string().optional(),
+  approvedAt: z.date().optional(),
+});
+
+// Drafts are rendered under /preview/ (noindex) until promoted
+export const draftSchema = articleSchema.extend({
+  status: z.enum(ARTICLE_STATUSES).default('draft'),
+  // Validator findings an offline template did not clear; dropped on promotion
+  reviewIssues: z.array(z.string()).optional(),
+});
+
+export type ArticleFrontmatter = z.infer<typeof articleSchema>;
+export type DraftFrontmatter = z.infer<typeof draftSchema>;
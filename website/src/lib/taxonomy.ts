@@ -0,0 +1,68 @@
+import taxonomyData from '../../data/config/taxonomy.json';
+
+interface TaxonomyTopic {
+  id: string;
+  parent?: string;
+  synonyms: string[];
+}
+
+interface TopicMatcher {
+  id: string;
+  parent?: string;
+  patterns: RegExp[];
+}
+
+const CJK_PATTERN = /[぀-ヿ㐀-鿿가-힯]/;
+
+// Same rule as the collector's matchesKeyword: a synonym must start a word
+// ('rag' does not match "storage"); CJK text has no word boundaries
+function synonymPattern(synonym: string): RegExp {
+  const escaped = synonym.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return CJK_PATTERN.test(synonym) ? new RegExp(escaped, 'u') : new RegExp(`(?<![\\p{L}\\p{N}])${escaped}`, 'u');
+}
+
+const TOPICS: TopicMatcher[] = (taxonomyData.topics as TaxonomyTopic[]).map((topic) => ({
+  id: topic.id,
+  parent: topic.parent,
+  patterns: topic.synonyms.map(synonymPattern),
+}));
+
+const PARENT_BY_ID = new Map(TOPICS.map((topic) => [topic.id, topic.parent]));
+
+/**
+ * Taxonomy topics an article belongs to, from its keywords and title.
+ * Uses the same English synonyms the collector tags items with.
+ */
+export function topicsForArticle(keywords: string[], title = ''): Set<string> {
+  const text = [title, ...keywords].join(' ').toLowerCase();
+  const topics = new Set<string>();
+
+  for (const topic of TOPICS) {
+    if (topic.patterns.some((pattern) => pattern.test(text))) {
+      topics.add(topic.id);
+    }
+  }
+
+  return topics;
+}
+
+/**
+ * Topics that share a branch with the given ones: their parents, children
+ * and siblings. The given topics themselves are not included.
+ */
+export function relatedTopics(topicIds: Set<string>): Set<string> {
+  const related = new Set<string>();
+
+  for (const topic of TOPICS) {
+    if (topicIds.has(topic.id)) continue;
+
+    const parent = topic.parent;
+    const isParent = [...topicIds].some((id) => PARENT_BY_ID.get(id) === topic.id);
+    const isChild = Boolean(parent && topicIds.has(parent));
+    const isSibling = Boolean(parent && [...topicIds].some((id) => PARENT_BY_ID.get(id) === parent));
+
+    if (isParent || isChild || isSibling) related.add(topic.id);
+  }
+
+  return related;
+}